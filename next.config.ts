@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  turbopack: {
+    resolveAlias: {
+      // The AI fixture, prompt and routing file stores use the file system. They are
+      // only loaded on the server, but AI modules are also bundled for the browser.
+      "@/lib/ai-fixture-store": { browser: "./src/lib/ai-fixture-store.browser.ts" },
+      "@/lib/prompt-file-store": { browser: "./src/lib/prompt-file-store.browser.ts" },
+      "@/lib/ai-routing-file": { browser: "./src/lib/ai-routing-file.browser.ts" },
+    },
+  },
 };
 
 export default nextConfig;
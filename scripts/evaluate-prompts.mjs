@@ -0,0 +1,53 @@
+// Compares generated architectures between two prompt versions and writes a
+// markdown report. A version is "built-in" or a directory of prompt override
+// files (see PROMPTS_DIR in env.example):
+//
+//   npm run eval:prompts -- --candidate prompts/next [--baseline built-in]
+//     [--corpus evals/architecture-goals.json] [--out evals/reports/report.md]
+//
+// Every goal costs a model call per version, so run it against recorded
+// responses (AI_PROVIDER=replay) or a local model (AI_PROVIDER=local).
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { createJiti } from 'jiti';
+import nextEnv from '@next/env';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+
+const { values: args } = parseArgs({
+  options: {
+    baseline: { type: 'string', default: 'built-in' },
+    candidate: { type: 'string' },
+    corpus: { type: 'string', default: path.join(root, 'evals', 'architecture-goals.json') },
+    out: { type: 'string' },
+  },
+});
+
+if (!args.candidate) {
+  console.error('Usage: npm run eval:prompts -- --candidate <prompts dir> [--baseline built-in|<prompts dir>] [--corpus <file>] [--out <file>]');
+  process.exit(1);
+}
+
+// Same .env files as the app
+nextEnv.loadEnvConfig(root);
+
+const jiti = createJiti(import.meta.url, { alias: { '@/': `${path.join(root, 'src')}/` } });
+const { PromptEvaluation } = await jiti.import(path.join(root, 'src', 'lib', 'prompt-evaluation.ts'));
+
+const promptOptions = (version) =>
+  version === 'built-in' ? { builtInOnly: true } : { promptsDir: path.resolve(version) };
+
+const cases = JSON.parse(await readFile(args.corpus, 'utf-8'));
+const runs = [];
+for (const version of [args.baseline, args.candidate]) {
+  console.log(`Evaluating ${version} on ${cases.length} goals...`);
+  runs.push(await PromptEvaluation.run(version, cases, promptOptions(version), (evaluationCase, score) => {
+    console.log(`  ${evaluationCase.id}: ${score.usedTemplate ? 'built-in template' : score.overall.toFixed(2)}`);
+  }));
+}
+
+const out = args.out || path.join(root, 'evals', 'reports', `architecture-${new Date().toISOString().replace(/[:.]/g, '-')}.md`);
+await mkdir(path.dirname(out), { recursive: true });
+await writeFile(out, PromptEvaluation.formatReport(runs[0], runs[1]), 'utf-8');
+console.log(`Report written to ${path.relative(process.cwd(), out)}`);
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WireframeEditor } from '@/lib/wireframe-editor';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { screen, instruction } = await request.json();
+
+    if (!screen || !instruction) {
+      return NextResponse.json({ error: 'Screen and instruction are required' }, { status: 400 });
+    }
+
+    const edit = await WireframeEditor.generateEdit(screen, instruction);
+
+    return NextResponse.json({ edit });
+  } catch (error) {
+    console.error('Wireframe edit failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to edit wireframe' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AIFlowGenerator } from '@/lib/ai-flow-generator';
+import { createEventStreamResponse } from '@/lib/server-sent-events';
+import { ArchitectureStreamEvent } from '@/types/app-architecture';
 
 export async function POST(req: NextRequest) {
   try {
     const { goal } = await req.json();
-    
+
     if (!goal) {
       return NextResponse.json(
         { error: 'Goal is required' },
@@ -12,8 +14,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Stream progress as server-sent events when the client asks for it
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      return createEventStreamResponse<ArchitectureStreamEvent>(async (send) => {
+        await AIFlowGenerator.generateArchitecture(goal, send);
+      });
+    }
+
     const architecture = await AIFlowGenerator.generateArchitecture(goal);
-    
+
     return NextResponse.json({ architecture });
   } catch (error) {
     console.error('Architecture generation failed:', error);
@@ -22,4 +31,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
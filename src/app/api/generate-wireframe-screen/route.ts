@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_VARIATIONS, WireframeGenerator } from '@/lib/wireframe-generator';
+import { UsageMeter } from '@/lib/ai-usage';
+import { AppArchitecture, DeviceType } from '@/types/app-architecture';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { architecture, screenId, device = DeviceType.MOBILE, designHints, variations = 1 } = await request.json();
+
+    if (!architecture || !screenId) {
+      return NextResponse.json({ error: 'Architecture and screenId are required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(variations) || variations < 1 || variations > MAX_VARIATIONS) {
+      return NextResponse.json({ error: `variations must be between 1 and ${MAX_VARIATIONS}` }, { status: 400 });
+    }
+
+    const screen = (architecture as AppArchitecture).screens.find(s => s.id === screenId);
+    if (!screen) {
+      return NextResponse.json({ error: `Screen ${screenId} is not in the architecture` }, { status: 400 });
+    }
+
+    const screens = await WireframeGenerator.generateVariations(architecture, screen, device, variations, designHints);
+
+    return NextResponse.json({
+      screens,
+      usage: UsageMeter.total(screens.map(s => s.generatedBy)),
+    });
+  } catch (error) {
+    console.error('Wireframe screen generation failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate wireframe screen' },
+      { status: 500 }
+    );
+  }
+}
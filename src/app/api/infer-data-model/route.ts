@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataModelGenerator } from '@/lib/data-model-generator';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { architecture } = await request.json();
+
+    if (!architecture || !Array.isArray(architecture.screens)) {
+      return NextResponse.json({ error: 'Architecture is required' }, { status: 400 });
+    }
+
+    const dataModel = await DataModelGenerator.generate(architecture);
+
+    return NextResponse.json({ dataModel });
+  } catch (error) {
+    console.error('Data model inference failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to infer data model' },
+      { status: 500 }
+    );
+  }
+}
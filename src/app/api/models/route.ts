@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AI_PROVIDERS, AIProvider, createAIService } from '@/lib/ai-providers';
+
+// Lists the models an OpenAI-compatible server offers, e.g. GET /api/models?provider=local
+export async function GET(request: NextRequest) {
+  const provider = (request.nextUrl.searchParams.get('provider') || 'local') as AIProvider;
+  if (!AI_PROVIDERS.includes(provider)) {
+    return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+  }
+  if (provider !== 'local' && provider !== 'openai') {
+    return NextResponse.json({ error: `Model discovery is not supported for ${provider}` }, { status: 400 });
+  }
+
+  try {
+    const models = await createAIService({ provider }).listModels();
+    return NextResponse.json({ provider, models });
+  } catch (error) {
+    console.error(`Failed to list models for ${provider}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to list models' },
+      { status: 500 }
+    );
+  }
+}
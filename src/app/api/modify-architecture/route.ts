@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArchitectureModifier } from '@/lib/architecture-modifier';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { architecture, instruction } = await req.json();
+
+    if (!architecture || !instruction) {
+      return NextResponse.json(
+        { error: 'Architecture and instruction are required' },
+        { status: 400 }
+      );
+    }
+
+    const patch = await ArchitectureModifier.generatePatch(architecture, instruction);
+    const changes = ArchitectureModifier.describePatch(architecture, patch);
+
+    return NextResponse.json({ patch, changes });
+  } catch (error) {
+    console.error('Architecture modification failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to modify architecture' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProjectFileStore } from '@/lib/project-file-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const project = await ProjectFileStore.get(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Failed to load project:', error);
+    return NextResponse.json(
+      { error: 'Failed to load project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { project } = await req.json();
+
+    if (!project || project.id !== id || !ProjectFileStore.isValidId(id)) {
+      return NextResponse.json(
+        { error: 'Project body must match the project id in the URL' },
+        { status: 400 }
+      );
+    }
+
+    await ProjectFileStore.save(project);
+    return NextResponse.json({ project: ProjectFileStore.summarize(project) });
+  } catch (error) {
+    console.error('Failed to save project:', error);
+    return NextResponse.json(
+      { error: 'Failed to save project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { name } = await req.json();
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    const project = await ProjectFileStore.get(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const renamed = { ...project, name: name.trim(), updatedAt: new Date().toISOString() };
+    await ProjectFileStore.save(renamed);
+    return NextResponse.json({ project: ProjectFileStore.summarize(renamed) });
+  } catch (error) {
+    console.error('Failed to rename project:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await ProjectFileStore.delete(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete project:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { ProjectFileStore } from '@/lib/project-file-store';
+
+export async function GET() {
+  try {
+    const projects = await ProjectFileStore.list();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Failed to list projects:', error);
+    return NextResponse.json(
+      { error: 'Failed to list projects' },
+      { status: 500 }
+    );
+  }
+}
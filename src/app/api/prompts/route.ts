@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { PromptRegistry } from '@/lib/prompt-registry';
+
+// Lists the prompt templates in use, with their versions and whether a file overrides them
+export async function GET() {
+  try {
+    const prompts = await PromptRegistry.list();
+    return NextResponse.json({
+      prompts: prompts.map(({ id, version, description, variables, source }) => ({ id, version, description, variables, source })),
+    });
+  } catch (error) {
+    console.error('Failed to list prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to list prompts' },
+      { status: 500 }
+    );
+  }
+}
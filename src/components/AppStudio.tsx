@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -26,49 +26,70 @@ import {
   Home,
   FolderOpen,
   GitBranch,
-  ArrowRight
+  ArrowRight,
+  Upload,
+  CheckCircle2,
+  Coins,
+  Server,
+  FileJson,
+  Table2,
+  CloudOff
 } from 'lucide-react';
 
 import FlowDiagram from './flow/FlowDiagram';
+import DataModelDiagram from './flow/DataModelDiagram';
 import ThinkingDialogue from './ui/thinking-dialogue';
 import QuestionsDialog from './ui/questions-dialog';
+import PatchPreview from './ui/patch-preview';
 import ToolsHome from './ToolsHome';
 import WireframeStudio from './WireframeStudio';
+import ProblemsPanel from './ProblemsPanel';
+import UsagePanel from './UsagePanel';
 import { AIFlowGenerator } from '@/lib/ai-flow-generator';
-import { AppArchitecture, AppFlow } from '@/types/app-architecture';
-
-interface ChatMessage {
-  id: string;
-  type: 'user' | 'assistant' | 'thinking';
-  content: string;
-  timestamp: Date;
-  isThinking?: boolean;
-  thinkingSteps?: Array<{
-    id: string;
-    title: string;
-    description?: string;
-    status: 'pending' | 'in_progress' | 'completed' | 'error';
-  }>;
-  currentThought?: string;
-}
+import { ArchitectureModifier } from '@/lib/architecture-modifier';
+import { ArchitectureImporter } from '@/lib/architecture-importer';
+import { ArchitectureLinter } from '@/lib/architecture-linter';
+import { readEventStream } from '@/lib/server-sent-events';
+import { ProjectStore } from '@/lib/project-store';
+import { UsageMeter } from '@/lib/ai-usage';
+import { BackendScaffoldGenerator } from '@/lib/backend-scaffold-generator';
+import { OpenApiConverter } from '@/lib/openapi-converter';
+import { DataModelGenerator } from '@/lib/data-model-generator';
+import {
+  AppArchitecture,
+  AppFlow,
+  ArchitectureImportIssue,
+  ArchitectureLintIssue,
+  ArchitecturePatch,
+  ArchitecturePatchChange,
+  ArchitectureStreamEvent,
+  ChatMessage,
+  DataModel,
+  GenerationSource,
+  ProjectBudget,
+  ProjectContext,
+  ProjectUsage,
+  SavedProject,
+  Screen,
+  Transition,
+  WireframeProject
+} from '@/types/app-architecture';
 
-type ActiveTool = 'home' | 'flow-diagrams' | 'wireframer' | 'ui-designer' | 'ux-researcher' | 'component-builder';
+// Real progress stages reported while the architecture streams in
+const GENERATION_STEPS = [
+  { id: 'screens', title: 'Designing screens', description: 'Laying out each screen as the model writes it' },
+  { id: 'transitions', title: 'Connecting transitions', description: 'Linking screens into user journeys' },
+  { id: 'normalize', title: 'Finalizing architecture', description: 'Validating and normalizing the result' },
+];
 
-interface QuestionData {
-  id: string;
-  category: string;
-  question: string;
-  options: string[];
-  why: string;
-  required: boolean;
-}
+// Wait for edits to settle before writing the project to storage
+const AUTOSAVE_DELAY = 1000;
 
-interface ProjectContext {
-  initialPrompt: string;
-  questions?: QuestionData[];
-  answers?: Record<string, string>;
-  isQuestioningComplete?: boolean;
-}
+// Wireframes are generated per screen, so only screen ids and names decide whether they still fit
+const screenSignature = (screens: Screen[] = []) =>
+  JSON.stringify(screens.map(screen => [screen.id, screen.name]).sort());
+
+type ActiveTool = 'home' | 'flow-diagrams' | 'wireframer' | 'ux-researcher' | 'component-builder';
 
 export default function AppStudio() {
   const [activeTool, setActiveTool] = useState<ActiveTool>('home');
@@ -76,6 +97,8 @@ export default function AppStudio() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [architecture, setArchitecture] = useState<AppArchitecture | null>(null);
   const [flow, setFlow] = useState<AppFlow | null>(null);
+  // Bumped whenever the flow is replaced from outside the diagram so it remounts with the new nodes
+  const [flowVersion, setFlowVersion] = useState(0);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [currentMessage, setCurrentMessage] = useState('');
   const [isProjectMode, setIsProjectMode] = useState(false);
@@ -83,8 +106,73 @@ export default function AppStudio() {
   const [isDiagramFullscreen, setIsDiagramFullscreen] = useState(false);
   const [projectContext, setProjectContext] = useState<ProjectContext>({ initialPrompt: '' });
   const [showQuestions, setShowQuestions] = useState(false);
+  const [projectInfo, setProjectInfo] = useState<Pick<SavedProject, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [wireframes, setWireframes] = useState<WireframeProject | null>(null);
+  const [wireframeMessages, setWireframeMessages] = useState<ChatMessage[]>([]);
+  const [importIssues, setImportIssues] = useState<ArchitectureImportIssue[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null);
+  const [projectUsage, setProjectUsage] = useState<ProjectUsage | undefined>(undefined);
+  const [budget, setBudget] = useState<ProjectBudget | undefined>(undefined);
+  const [showUsage, setShowUsage] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [canvasView, setCanvasView] = useState<'flow' | 'data-model'>('flow');
+  const [isInferringDataModel, setIsInferringDataModel] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const resizingRef = useRef(false);
+  const budgetMessageRef = useRef<string | null>(null);
+
+  const lintIssues = useMemo(
+    () => architecture ? ArchitectureLinter.lint(architecture) : [],
+    [architecture]
+  );
+
+  // Errors win over warnings when a node has several problems
+  const highlightedNodes = useMemo(() => {
+    const highlighted: Record<string, 'error' | 'warning'> = {};
+    if (!architecture || !showProblems) return highlighted;
+    lintIssues.forEach(issue => {
+      ArchitectureLinter.nodeIdsFor(issue, architecture).forEach(nodeId => {
+        if (highlighted[nodeId] !== 'error') highlighted[nodeId] = issue.severity;
+      });
+    });
+    return highlighted;
+  }, [architecture, lintIssues, showProblems]);
+
+  const focusedNodeIds = useMemo(() => {
+    const issue = lintIssues.find(i => i.id === selectedIssueId);
+    return issue && architecture ? ArchitectureLinter.nodeIdsFor(issue, architecture) : undefined;
+  }, [architecture, lintIssues, selectedIssueId]);
+
+  const budgetMessage = useMemo(
+    () => UsageMeter.checkBudget(projectUsage, budget),
+    [projectUsage, budget]
+  );
+
+  // Generation callbacks outlive renders, so they read the budget state through a ref
+  useEffect(() => {
+    budgetMessageRef.current = budgetMessage;
+  }, [budgetMessage]);
+
+  const recordUsage = useCallback((sources: (GenerationSource | undefined)[]) => {
+    if (!UsageMeter.total(sources)) return;
+    setProjectUsage(prev => UsageMeter.addToProject(prev, sources));
+  }, []);
+
+  // Tells the user why nothing happens once the project has spent its budget
+  const isOverBudget = useCallback((): boolean => {
+    const message = budgetMessageRef.current;
+    if (!message) return false;
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      type: 'assistant',
+      content: `⛔ ${message} Raise the limit under Usage to keep generating.`,
+      timestamp: new Date()
+    }]);
+    return true;
+  }, []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -94,10 +182,52 @@ export default function AppStudio() {
     scrollToBottom();
   }, [chatMessages]);
 
+  // Autosave the open project whenever its contents change
+  useEffect(() => {
+    if (isGenerating || (!architecture && chatMessages.length === 0)) return;
+
+    const timeout = setTimeout(() => {
+      const info = projectInfo || {
+        id: ProjectStore.createId(),
+        name: architecture?.name || projectContext.initialPrompt.slice(0, 60) || 'Untitled project',
+        createdAt: new Date().toISOString(),
+      };
+      if (!projectInfo) {
+        setProjectInfo(info);
+      }
+
+      ProjectStore.save({
+        ...info,
+        updatedAt: new Date().toISOString(),
+        architecture,
+        flow,
+        wireframes,
+        chatMessages: chatMessages.filter(message => !message.isThinking),
+        wireframeMessages,
+        context: projectContext,
+        usage: projectUsage,
+        budget,
+      })
+        .then(() => setSyncError(null))
+        .catch(error => {
+          console.error('Failed to save project:', error);
+          setSyncError(error instanceof Error ? error.message : 'Failed to save project');
+        });
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [isGenerating, projectInfo, architecture, flow, wireframes, chatMessages, wireframeMessages, projectContext, projectUsage, budget]);
+
   const handleInitialPrompt = useCallback(async (prompt: string) => {
     if (!prompt.trim()) return;
     
     setProjectContext({ initialPrompt: prompt });
+
+    // Go straight to generation, which explains the limit, rather than spend more on questions
+    if (budgetMessageRef.current) {
+      await handleGenerate(prompt);
+      return;
+    }
     
     // Generate contextual questions first
     try {
@@ -108,7 +238,8 @@ export default function AppStudio() {
       });
       
       if (response.ok) {
-        const { questions } = await response.json();
+        const { questions, generatedBy } = await response.json();
+        recordUsage([generatedBy]);
         setProjectContext(prev => ({ ...prev, questions }));
         setShowQuestions(true);
         setIsProjectMode(true);
@@ -120,7 +251,7 @@ export default function AppStudio() {
       console.error('Failed to generate questions:', error);
       await handleGenerate(prompt);
     }
-  }, []);
+  }, [recordUsage]);
 
   const handleAnswerSubmit = useCallback(async (answers: Record<string, string>) => {
     setProjectContext(prev => ({ ...prev, answers, isQuestioningComplete: true }));
@@ -155,6 +286,11 @@ export default function AppStudio() {
       timestamp: new Date()
     };
     setChatMessages(prev => [...prev, userMessage]);
+
+    if (isOverBudget()) {
+      setIsProjectMode(true);
+      return;
+    }
     
     // Add initial thinking message
     const thinkingMessageId = (Date.now() + 1).toString();
@@ -171,159 +307,134 @@ export default function AppStudio() {
     
     setIsGenerating(true);
     setIsProjectMode(true);
-    
-    try {
-      // Get real AI thinking process
-      const thinkingResponse = await fetch('/api/ai-thinking', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userRequest: prompt }),
-      });
 
-      if (!thinkingResponse.ok) {
-        throw new Error('Failed to get AI thinking');
-      }
+    const updateThinkingMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+      setChatMessages(prev => prev.map(msg => msg.id === thinkingMessageId ? update(msg) : msg));
+    };
 
-      const { steps, thoughts } = await thinkingResponse.json();
-      
-      // Update message with real thinking steps
-      setChatMessages(prev => 
-        prev.map(msg => 
-          msg.id === thinkingMessageId 
-            ? {
-                ...msg,
-                thinkingSteps: steps.map((step: any) => ({ ...step, status: 'pending' })),
-                currentThought: thoughts[0] || 'Analyzing your request...'
-              }
-            : msg
-        )
-      );
+    const setStepStatuses = (activeStepId: string) => {
+      const activeIndex = GENERATION_STEPS.findIndex(step => step.id === activeStepId);
+      updateThinkingMessage(msg => ({
+        ...msg,
+        thinkingSteps: GENERATION_STEPS.map((step, index) => ({
+          ...step,
+          status: index < activeIndex ? 'completed' : index === activeIndex ? 'in_progress' : 'pending'
+        }))
+      }));
+    };
 
-      // Start architecture generation in parallel with thinking
-      const architecturePromise = fetch('/api/generate-architecture', {
+    setStepStatuses('screens');
+    
+    try {
+      const response = await fetch('/api/generate-architecture', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({ goal: prompt }),
       });
 
-      // Process each thinking step with real thoughts - slower pacing
-      for (let i = 0; i < steps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 2500)); // Slower pacing for better readability
-        
-        setChatMessages(prev => 
-          prev.map(msg => 
-            msg.id === thinkingMessageId 
-              ? {
-                  ...msg,
-                  currentThought: steps[i].thought,
-                  thinkingSteps: msg.thinkingSteps?.map((step, index) => ({
-                    ...step,
-                    status: index < i ? 'completed' : index === i ? 'in_progress' : 'pending'
-                  }))
-                }
-              : msg
-          )
-        );
+      if (!response.ok) {
+        throw new Error('Failed to generate architecture');
       }
-      
-      // Continue thinking while waiting for architecture generation
-      const additionalThoughts = [
-        'Finalizing the screen connections and user flow logic...',
-        'Ensuring the navigation patterns are intuitive and accessible...',
-        'Optimizing the user journey for mobile-first experience...',
-        'Adding error handling and edge cases to the flow...',
-        'Completing the architecture generation...'
-      ];
-
-      let thoughtCounter = 0;
-      const thinkingInterval = setInterval(() => {
-        if (thoughtCounter < additionalThoughts.length) {
-          setChatMessages(prev => 
-            prev.map(msg => 
-              msg.id === thinkingMessageId 
-                ? {
-                    ...msg,
-                    currentThought: additionalThoughts[thoughtCounter]
-                  }
-                : msg
-            )
-          );
-          thoughtCounter++;
-        }
-      }, 3000); // Continue thinking every 3 seconds
 
-      // Wait for architecture generation to complete
-      const response = await architecturePromise;
-      clearInterval(thinkingInterval);
+      // Screens and transitions are keyed by index so a fallback re-send replaces earlier drafts
+      const streamedScreens: Screen[] = [];
+      const streamedTransitions: Transition[] = [];
+      let receivedCharacters = 0;
+      let newArchitecture: AppArchitecture | null = null;
 
-      // Complete all steps
-      setChatMessages(prev => 
-        prev.map(msg => 
-          msg.id === thinkingMessageId 
-            ? {
-                ...msg,
-                currentThought: 'Architecture complete! Generating your flow diagram...',
-                thinkingSteps: msg.thinkingSteps?.map(step => ({ ...step, status: 'completed' as const }))
-              }
-            : msg
-        )
-      );
+      const renderDraft = () => {
+        const draft = AIFlowGenerator.createDraftArchitecture(
+          prompt,
+          streamedScreens.filter(Boolean),
+          streamedTransitions.filter(Boolean)
+        );
+        setFlow(AIFlowGenerator.architectureToFlow(draft));
+        setFlowVersion(version => version + 1);
+      };
 
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Brief pause before completion
+      await readEventStream<ArchitectureStreamEvent>(response, (event) => {
+        switch (event.type) {
+          case 'token':
+            receivedCharacters += event.delta.length;
+            // Only report raw progress until the first screen lands, and not on every delta
+            if (streamedScreens.length === 0 && receivedCharacters % 400 < event.delta.length) {
+              updateThinkingMessage(msg => ({
+                ...msg,
+                currentThought: `Drafting your app structure (${receivedCharacters.toLocaleString()} characters so far)...`
+              }));
+            }
+            break;
+          case 'screen':
+            streamedScreens[event.index] = event.screen;
+            updateThinkingMessage(msg => ({
+              ...msg,
+              currentThought: `Added ${event.screen.name}${event.screen.description ? ` — ${event.screen.description}` : ''}`
+            }));
+            renderDraft();
+            break;
+          case 'transition':
+            if (streamedTransitions.length === 0) {
+              setStepStatuses('transitions');
+            }
+            streamedTransitions[event.index] = event.transition;
+            updateThinkingMessage(msg => ({
+              ...msg,
+              currentThought: `Connecting screens: ${event.transition.description}`
+            }));
+            renderDraft();
+            break;
+          case 'normalized':
+            newArchitecture = event.architecture;
+            setStepStatuses('normalize');
+            break;
+          case 'error':
+            throw new Error(event.message);
+        }
+      });
 
-      if (!response.ok) {
-        throw new Error('Failed to generate architecture');
+      if (!newArchitecture) {
+        throw new Error('Architecture stream ended before generation finished');
       }
 
-      const { architecture: newArchitecture } = await response.json();
-      const newFlow = AIFlowGenerator.architectureToFlow(newArchitecture);
+      const finalArchitecture: AppArchitecture = newArchitecture;
+      const newFlow = AIFlowGenerator.architectureToFlow(finalArchitecture);
       
-      setArchitecture(newArchitecture);
+      setArchitecture(finalArchitecture);
       setFlow(newFlow);
+      setFlowVersion(version => version + 1);
+      recordUsage([finalArchitecture.metadata.generatedBy]);
       
       // Replace thinking message with success message
-      setChatMessages(prev => 
-        prev.map(msg => 
-          msg.id === thinkingMessageId 
-            ? { 
-                ...msg, 
-                type: 'assistant',
-                content: `✅ Generated user flows for your ${newArchitecture.name.toLowerCase()}. The flow diagram shows your complete user journey and is ready for review and editing.`,
-                isThinking: false,
-                currentThought: undefined,
-                thinkingSteps: undefined
-              }
-            : msg
-        )
-      );
+      updateThinkingMessage(msg => ({
+        ...msg,
+        type: 'assistant',
+        content: `✅ Generated user flows for your ${finalArchitecture.name.toLowerCase()}. The flow diagram shows your complete user journey and is ready for review and editing.`,
+        usage: finalArchitecture.metadata.generatedBy?.usage,
+        isThinking: false,
+        currentThought: undefined,
+        thinkingSteps: undefined
+      }));
     } catch (error) {
       console.error('Failed to generate architecture:', error);
       // Update thinking message with error
-      setChatMessages(prev => 
-        prev.map(msg => 
-          msg.id === thinkingMessageId 
-            ? { 
-                ...msg, 
-                type: 'assistant',
-                content: '❌ Failed to generate user flows. Please try again.',
-                isThinking: false,
-                currentThought: undefined,
-                thinkingSteps: msg.thinkingSteps?.map(step => ({ 
-                  ...step, 
-                  status: step.status === 'in_progress' ? 'error' : step.status 
-                }))
-              }
-            : msg
-        )
-      );
+      updateThinkingMessage(msg => ({
+        ...msg,
+        type: 'assistant',
+        content: '❌ Failed to generate user flows. Please try again.',
+        isThinking: false,
+        currentThought: undefined,
+        thinkingSteps: msg.thinkingSteps?.map(step => ({ 
+          ...step, 
+          status: step.status === 'in_progress' ? 'error' : step.status 
+        }))
+      }));
     } finally {
       setIsGenerating(false);
     }
-  }, []);
+  }, [isOverBudget, recordUsage]);
 
   const handleSendMessage = useCallback(async () => {
     if (!currentMessage.trim() || isGenerating) return;
@@ -331,19 +442,20 @@ export default function AppStudio() {
     if (!isProjectMode) {
       // First message - generate architecture
       await handleGenerate(currentMessage);
-    } else {
-      // Subsequent messages - show real thinking for modifications
+    } else if (architecture) {
+      // Subsequent messages - ask for a patch against the current architecture
+      const instruction = currentMessage;
       const userMessage: ChatMessage = {
         id: Date.now().toString(),
         type: 'user',
-        content: currentMessage,
+        content: instruction,
         timestamp: new Date()
       };
       setChatMessages(prev => [...prev, userMessage]);
-      
+      setCurrentMessage('');
+      if (isOverBudget()) return;
       setIsGenerating(true);
-      
-      // Add initial thinking message for modifications
+
       const thinkingMessageId = (Date.now() + 1).toString();
       const initialThinkingMessage: ChatMessage = {
         id: thinkingMessageId,
@@ -352,106 +464,55 @@ export default function AppStudio() {
         timestamp: new Date(),
         isThinking: true,
         thinkingSteps: [],
-        currentThought: 'Let me think about your modification request...'
+        currentThought: `Working out how to change ${architecture.name}...`
       };
       setChatMessages(prev => [...prev, initialThinkingMessage]);
-      
+
       try {
-        // Get real AI thinking for modifications
-        const modificationContext = `User wants to modify their existing app architecture. Their original request created a ${architecture?.name || 'app'}, and now they're asking: "${currentMessage}"`;
-        
-        const thinkingResponse = await fetch('/api/ai-thinking', {
+        const response = await fetch('/api/modify-architecture', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ userRequest: modificationContext }),
+          body: JSON.stringify({ architecture, instruction }),
         });
 
-        if (thinkingResponse.ok) {
-          const { steps, thoughts } = await thinkingResponse.json();
-          
-          // Update with real thinking steps
-          setChatMessages(prev => 
-            prev.map(msg => 
-              msg.id === thinkingMessageId 
-                ? {
-                    ...msg,
-                    thinkingSteps: steps.map((step: any) => ({ ...step, status: 'pending' })),
-                    currentThought: thoughts[0] || 'Analyzing your modification request...'
-                  }
-                : msg
-            )
-          );
-
-          // Process each step with real thoughts - slower for better readability
-          for (let i = 0; i < steps.length; i++) {
-            await new Promise(resolve => setTimeout(resolve, 2000)); // Slower pacing
-            
-            setChatMessages(prev => 
-              prev.map(msg => 
-                msg.id === thinkingMessageId 
-                  ? {
-                      ...msg,
-                      currentThought: steps[i].thought,
-                      thinkingSteps: msg.thinkingSteps?.map((step, index) => ({
-                        ...step,
-                        status: index < i ? 'completed' : index === i ? 'in_progress' : 'pending'
-                      }))
-                    }
-                  : msg
-              )
-            );
-          }
-          
-          // Add some final thinking thoughts
-          const finalThoughts = [
-            'Considering the best approach for your modification...',
-            'Thinking about how this fits with your existing flow...'
-          ];
-
-          for (let i = 0; i < finalThoughts.length; i++) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            setChatMessages(prev => 
-              prev.map(msg => 
-                msg.id === thinkingMessageId 
-                  ? {
-                      ...msg,
-                      currentThought: finalThoughts[i]
-                    }
-                  : msg
-              )
-            );
-          }
-          
-          // Complete and respond
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          setChatMessages(prev => 
-            prev.map(msg => 
-              msg.id === thinkingMessageId 
-                ? { 
-                    ...msg, 
-                    type: 'assistant',
-                    content: 'I understand your request for modifications. Currently, the flow generation system is working well. In future updates, I\'ll be able to make real-time changes to your user flows based on your feedback. For now, you can manually edit the diagram or generate a new flow with updated requirements.',
-                    isThinking: false,
-                    currentThought: undefined,
-                    thinkingSteps: undefined
-                  }
-                : msg
-            )
-          );
-        } else {
-          throw new Error('Failed to get thinking response');
+        if (!response.ok) {
+          throw new Error('Failed to modify architecture');
         }
-        
+
+        const { patch, changes }: { patch: ArchitecturePatch; changes: ArchitecturePatchChange[] } = await response.json();
+        recordUsage([patch.generatedBy]);
+
+        setChatMessages(prev =>
+          prev.map(msg =>
+            msg.id === thinkingMessageId
+              ? {
+                  ...msg,
+                  type: 'assistant',
+                  content: patch.operations.length > 0
+                    ? `${patch.summary} Review the changes below before applying them.`
+                    : patch.summary,
+                  usage: patch.generatedBy?.usage,
+                  isThinking: false,
+                  currentThought: undefined,
+                  thinkingSteps: undefined,
+                  patch,
+                  patchChanges: changes,
+                  patchStatus: 'pending'
+                }
+              : msg
+          )
+        );
       } catch (error) {
-        setChatMessages(prev => 
-          prev.map(msg => 
-            msg.id === thinkingMessageId 
-              ? { 
-                  ...msg, 
+        console.error('Modification error:', error);
+        setChatMessages(prev =>
+          prev.map(msg =>
+            msg.id === thinkingMessageId
+              ? {
+                  ...msg,
                   type: 'assistant',
-                  content: 'I can help you modify the user flows. Currently, the flow generation is working well. In future updates, I\'ll be able to make real-time changes to your diagram based on your feedback.',
+                  content: 'Sorry, I couldn\'t work out that change. Try rephrasing it, or edit the diagram directly.',
                   isThinking: false,
                   currentThought: undefined,
                   thinkingSteps: undefined
@@ -462,10 +523,66 @@ export default function AppStudio() {
       } finally {
         setIsGenerating(false);
       }
+      return;
+    } else {
+      // Project mode without an architecture, e.g. after generation failed
+      const content = currentMessage;
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'user',
+        content,
+        timestamp: new Date()
+      }, {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        content: '❌ There is no flow to change yet. Start over from the home button to generate one.',
+        timestamp: new Date()
+      }]);
     }
     
     setCurrentMessage('');
-  }, [currentMessage, isGenerating, isProjectMode, handleGenerate]);
+  }, [currentMessage, isGenerating, isProjectMode, handleGenerate, architecture, isOverBudget, recordUsage]);
+
+  // Swap in an edited architecture and redraw the canvas from it
+  const replaceArchitecture = useCallback((updatedArchitecture: AppArchitecture) => {
+    setArchitecture(updatedArchitecture);
+    setFlow(AIFlowGenerator.architectureToFlow(updatedArchitecture));
+    setFlowVersion(version => version + 1);
+  }, []);
+
+  const handleApplyPatch = useCallback((messageId: string, patch: ArchitecturePatch) => {
+    if (!architecture) return;
+
+    // Patches left pending can refer to screens that were removed since
+    if (ArchitectureModifier.isStale(architecture, patch)) {
+      setChatMessages(prev =>
+        prev.map(msg => msg.id === messageId ? { ...msg, patchStatus: 'stale' } : msg)
+      );
+      return;
+    }
+
+    replaceArchitecture(ArchitectureModifier.applyPatch(architecture, patch));
+    setChatMessages(prev =>
+      prev.map(msg => msg.id === messageId ? { ...msg, patchStatus: 'accepted' } : msg)
+    );
+  }, [architecture, replaceArchitecture]);
+
+  const handleSelectIssue = useCallback((issue: ArchitectureLintIssue) => {
+    setSelectedIssueId(issue.id);
+  }, []);
+
+  const handleApplyQuickFix = useCallback((issue: ArchitectureLintIssue) => {
+    if (!architecture || !issue.fix) return;
+
+    replaceArchitecture(ArchitectureModifier.applyPatch(architecture, issue.fix.patch));
+    setSelectedIssueId(null);
+  }, [architecture, replaceArchitecture]);
+
+  const handleRejectPatch = useCallback((messageId: string) => {
+    setChatMessages(prev =>
+      prev.map(msg => msg.id === messageId ? { ...msg, patchStatus: 'rejected' } : msg)
+    );
+  }, []);
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -475,7 +592,8 @@ export default function AppStudio() {
   }, [handleSendMessage]);
 
   const handleToolSelect = useCallback((toolId: string) => {
-    setActiveTool(toolId as ActiveTool);
+    // Components are generated from wireframes, so the UI designer opens the wireframe studio
+    setActiveTool((toolId === 'ui-designer' ? 'wireframer' : toolId) as ActiveTool);
     // Reset state when switching tools
     if (toolId === 'flow-diagrams') {
       setIsProjectMode(false);
@@ -483,9 +601,45 @@ export default function AppStudio() {
       setFlow(null);
       setChatMessages([]);
       setCurrentMessage('');
+      setProjectInfo(null);
+      setProjectContext({ initialPrompt: '' });
+      setWireframes(null);
+      setWireframeMessages([]);
+      setProjectUsage(undefined);
+      setBudget(undefined);
+    }
+  }, []);
+
+  const handleProjectOpen = useCallback(async (projectId: string) => {
+    try {
+      const project = await ProjectStore.load(projectId);
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+
+      setProjectInfo({ id: project.id, name: project.name, createdAt: project.createdAt });
+      setArchitecture(project.architecture);
+      setFlow(project.flow);
+      setFlowVersion(version => version + 1);
+      setChatMessages(project.chatMessages);
+      setProjectContext(project.context);
+      setWireframes(project.wireframes);
+      setWireframeMessages(project.wireframeMessages);
+      setProjectUsage(project.usage);
+      setBudget(project.budget);
+      setCurrentMessage('');
+      setIsProjectMode(true);
+      setActiveTool('flow-diagrams');
+    } catch (error) {
+      console.error('Failed to open project:', error);
     }
   }, []);
 
+  const handleWireframesChange = useCallback((updatedWireframes: WireframeProject | null, messages: ChatMessage[]) => {
+    setWireframes(updatedWireframes);
+    setWireframeMessages(messages);
+  }, []);
+
   const handleBackToHome = useCallback(() => {
     setActiveTool('home');
   }, []);
@@ -502,6 +656,13 @@ export default function AppStudio() {
     setFlow(null);
     setChatMessages([]);
     setCurrentMessage('');
+    setProjectInfo(null);
+    setProjectContext({ initialPrompt: '' });
+    setWireframes(null);
+    setWireframeMessages([]);
+    setProjectUsage(undefined);
+    setBudget(undefined);
+    setCanvasView('flow');
   }, []);
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -525,8 +686,12 @@ export default function AppStudio() {
   }, []);
 
   const handleFlowChange = useCallback((updatedFlow: AppFlow) => {
+    // Canvas edits are the source of truth until the flow is replaced again
+    setArchitecture(current => current && flow
+      ? AIFlowGenerator.flowToArchitecture(updatedFlow, current, flow)
+      : current);
     setFlow(updatedFlow);
-  }, []);
+  }, [flow]);
 
   const handleExportJson = useCallback(() => {
     if (!architecture) return;
@@ -542,22 +707,232 @@ export default function AppStudio() {
     linkElement.click();
   }, [architecture]);
 
+  // Next.js route handlers for the architecture's endpoints, zipped to unpack over an app
+  const handleExportBackend = useCallback(async () => {
+    if (!architecture) return;
+
+    try {
+      const zip = await BackendScaffoldGenerator.exportZip(architecture);
+      const url = URL.createObjectURL(zip);
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', url);
+      linkElement.setAttribute('download', `${architecture.name.toLowerCase().replace(/\s+/g, '-')}-backend.zip`);
+      linkElement.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error) {
+      console.error('Backend scaffold export failed:', error);
+    }
+  }, [architecture]);
+
+  const handleExportOpenApi = useCallback(() => {
+    if (!architecture) return;
+
+    const dataStr = JSON.stringify(OpenApiConverter.toOpenApi(architecture), null, 2);
+    const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
+
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', dataUri);
+    linkElement.setAttribute('download', `${architecture.name.toLowerCase().replace(/\s+/g, '-')}-openapi.json`);
+    linkElement.click();
+  }, [architecture]);
+
+  // The data model is inferred from the screens the first time it is opened
+  const handleShowDataModel = useCallback(() => {
+    setArchitecture(current => current && !current.dataModel
+      ? { ...current, dataModel: DataModelGenerator.infer(current) }
+      : current);
+    setCanvasView('data-model');
+  }, []);
+
+  // A new or imported architecture without a model goes back to the flow
+  const showDataModel = canvasView === 'data-model' && !!architecture?.dataModel;
+
+  const handleDataModelChange = useCallback((dataModel: DataModel) => {
+    setArchitecture(current => current && { ...current, dataModel });
+  }, []);
+
+  const handleReinferDataModel = useCallback(() => {
+    setArchitecture(current => current && { ...current, dataModel: DataModelGenerator.infer(current) });
+  }, []);
+
+  const handleGenerateDataModel = useCallback(async () => {
+    if (!architecture || isOverBudget()) return;
+    setIsInferringDataModel(true);
+
+    try {
+      const response = await fetch('/api/infer-data-model', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ architecture }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to infer data model');
+      }
+
+      const { dataModel }: { dataModel: DataModel } = await response.json();
+      recordUsage([dataModel.generatedBy]);
+      // The AI failed and this is only the inferred model; keep the current one instead
+      if (dataModel.generatedBy?.provider === 'fallback') {
+        throw new Error('AI data model refinement failed');
+      }
+      setArchitecture(current => current && { ...current, dataModel });
+    } catch (error) {
+      console.error('Data model inference error:', error);
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'assistant',
+        content: 'Sorry, I couldn\'t refine the data model with AI. The current model is unchanged, so you can still edit or export it.',
+        timestamp: new Date()
+      }]);
+    } finally {
+      setIsInferringDataModel(false);
+    }
+  }, [architecture, isOverBudget, recordUsage]);
+
+  // An OpenAPI document adds its operations to the open architecture as endpoints
+  const handleImportOpenApi = useCallback((text: string, fileName: string) => {
+    if (!architecture) {
+      setImportIssues([{
+        path: '',
+        message: 'Open or generate an architecture first, then import the OpenAPI document to add its endpoints.',
+        severity: 'error'
+      }]);
+      return;
+    }
+
+    const result = OpenApiConverter.parse(text, architecture.screens);
+    const issueList = result.issues
+      .map(issue => `• ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+      .join('\n');
+
+    if (result.apiEndpoints.length === 0) {
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'assistant',
+        content: `❌ Couldn't import ${fileName}:\n${issueList}`,
+        timestamp: new Date()
+      }]);
+      return;
+    }
+
+    const merged = OpenApiConverter.mergeEndpoints(architecture, result.apiEndpoints);
+    const linked = result.apiEndpoints.filter(endpoint => endpoint.connectedScreens.length > 0).length;
+    setArchitecture(merged);
+    setFlow(AIFlowGenerator.architectureToFlow(merged));
+    setFlowVersion(version => version + 1);
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      type: 'assistant',
+      content: `✅ Imported ${result.apiEndpoints.length} endpoint${result.apiEndpoints.length !== 1 ? 's' : ''} from ${fileName}, ${linked} linked to screens.` +
+        (result.issues.length > 0 ? `\n\n${issueList}` : ''),
+      timestamp: new Date()
+    }]);
+  }, [architecture]);
+
+  const handleImportFile = useCallback(async (file: File) => {
+    const text = await file.text();
+    if (OpenApiConverter.isOpenApi(text, file.name)) {
+      handleImportOpenApi(text, file.name);
+      return;
+    }
+
+    const result = ArchitectureImporter.parse(text);
+    const issueList = result.issues
+      .map(issue => `• ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+      .join('\n');
+
+    if (!result.architecture) {
+      if (isProjectMode) {
+        setChatMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          type: 'assistant',
+          content: `❌ Couldn't import ${file.name}:\n${issueList}`,
+          timestamp: new Date()
+        }]);
+      } else {
+        setImportIssues(result.issues);
+      }
+      return;
+    }
+
+    // An import starts a new project rather than overwriting the open one
+    const imported = result.architecture;
+    setImportIssues([]);
+    setProjectInfo(null);
+    setProjectContext({ initialPrompt: '' });
+    setWireframes(null);
+    setWireframeMessages([]);
+    setProjectUsage(undefined);
+    setBudget(undefined);
+    setArchitecture(imported);
+    setFlow(AIFlowGenerator.architectureToFlow(imported));
+    setFlowVersion(version => version + 1);
+    setIsProjectMode(true);
+    setChatMessages([{
+      id: Date.now().toString(),
+      type: 'assistant',
+      content: `✅ Imported ${imported.name} with ${imported.screens.length} screens and ${imported.transitions.length} transitions from ${file.name}.` +
+        (result.issues.length > 0 ? `\n\nAdjusted ${result.issues.length} field${result.issues.length !== 1 ? 's' : ''} on the way:\n${issueList}` : ''),
+      timestamp: new Date()
+    }]);
+  }, [isProjectMode, handleImportOpenApi]);
+
+  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleImportFile(file);
+    }
+    // Reset so picking the same file again still triggers a change
+    e.target.value = '';
+  }, [handleImportFile]);
+
+  const handleCanvasDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleCanvasDragLeave = useCallback((e: React.DragEvent) => {
+    // Ignore leave events fired while moving between elements inside the canvas
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  }, []);
+
+  const handleCanvasDrop = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleImportFile(file);
+    }
+  }, [handleImportFile]);
+
   // Route to different tools
   if (activeTool === 'home') {
-    return <ToolsHome onToolSelect={handleToolSelect} />;
+    return <ToolsHome onToolSelect={handleToolSelect} onProjectOpen={handleProjectOpen} />;
   }
 
   if (activeTool === 'wireframer') {
+    // Saved wireframes are reused while the screens they were generated from are unchanged
+    const isWireframesCurrent = !!wireframes &&
+      screenSignature(wireframes.sourceArchitecture?.screens) === screenSignature(architecture?.screens);
     return (
       <WireframeStudio 
         sourceArchitecture={architecture}
+        initialWireframes={isWireframesCurrent ? wireframes : null}
+        initialMessages={isWireframesCurrent ? wireframeMessages : []}
+        onProjectChange={handleWireframesChange}
+        onUsage={recordUsage}
+        budgetMessage={budgetMessage}
         onBack={handleBackToHome}
       />
     );
   }
 
   // Handle other tools (coming soon)
-  if (['ui-designer', 'ux-researcher', 'component-builder'].includes(activeTool)) {
+  if (['ux-researcher', 'component-builder'].includes(activeTool)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -640,6 +1015,36 @@ export default function AppStudio() {
               </Button>
             </div>
 
+            {/* Import an exported architecture instead of generating one */}
+            <div className="text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import architecture JSON
+              </Button>
+              {importIssues.length > 0 && (
+                <div className="mt-3 text-left text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                  <p className="font-medium">This file couldn&apos;t be imported:</p>
+                  {importIssues.filter(issue => issue.severity === 'error').map((issue, index) => (
+                    <p key={index}>
+                      {issue.path && <code className="font-mono">{issue.path}</code>} {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json,application/yaml,.yaml,.yml"
+                className="hidden"
+                onChange={handleFileInputChange}
+              />
+            </div>
+
         </div>
       </div>
     );
@@ -680,6 +1085,22 @@ export default function AppStudio() {
                   >
                     <Home className="w-4 h-4 text-gray-600" />
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="h-8 w-8 p-0 hover:bg-gray-100 rounded-md"
+                    title="Import architecture JSON or OpenAPI document"
+                  >
+                    <Upload className="w-4 h-4 text-gray-600" />
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json,application/yaml,.yaml,.yml"
+                    className="hidden"
+                    onChange={handleFileInputChange}
+                  />
                   {architecture && (
                     <Button
                       variant="ghost"
@@ -690,6 +1111,28 @@ export default function AppStudio() {
                       <Download className="w-4 h-4 text-gray-600" />
                     </Button>
                   )}
+                  {architecture && architecture.apiEndpoints.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleExportBackend}
+                      className="h-8 w-8 p-0 hover:bg-gray-100 rounded-md"
+                      title="Export backend scaffold"
+                    >
+                      <Server className="w-4 h-4 text-gray-600" />
+                    </Button>
+                  )}
+                  {architecture && architecture.apiEndpoints.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleExportOpenApi}
+                      className="h-8 w-8 p-0 hover:bg-gray-100 rounded-md"
+                      title="Export OpenAPI"
+                    >
+                      <FileJson className="w-4 h-4 text-gray-600" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -710,13 +1153,26 @@ export default function AppStudio() {
                       className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
                       <div
-                        className={`max-w-[85%] rounded-lg px-4 py-3 text-sm ${
+                        className={`max-w-[85%] rounded-lg px-4 py-3 text-sm whitespace-pre-wrap ${
                           message.type === 'user'
                             ? 'bg-black text-white'
                             : 'bg-gray-50 border border-gray-200 text-gray-900'
                         }`}
                       >
                         {message.content}
+                        {message.usage && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            This generation used {UsageMeter.format(message.usage)}
+                          </p>
+                        )}
+                        {message.patch && message.patchChanges && (
+                          <PatchPreview
+                            changes={message.patchChanges}
+                            status={message.patchStatus || 'pending'}
+                            onAccept={() => handleApplyPatch(message.id, message.patch!)}
+                            onReject={() => handleRejectPatch(message.id)}
+                          />
+                        )}
                       </div>
                     </div>
                   )}
@@ -805,11 +1261,97 @@ export default function AppStudio() {
               )}
             </Button>
             <div className="flex items-center gap-2">
-              <Database className="w-4 h-4 text-gray-600" aria-hidden="true" />
-              <h2 className="font-medium text-gray-900">Flow Diagram</h2>
+              {showDataModel ? (
+                <Table2 className="w-4 h-4 text-gray-600" aria-hidden="true" />
+              ) : (
+                <Database className="w-4 h-4 text-gray-600" aria-hidden="true" />
+              )}
+              <h2 className="font-medium text-gray-900">{showDataModel ? 'Data Model' : 'Flow Diagram'}</h2>
             </div>
+            {architecture && (
+              <div className="flex items-center rounded-md border border-gray-200 bg-gray-100 p-0.5" role="group" aria-label="Canvas view">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCanvasView('flow')}
+                  className={`h-6 px-2 text-xs rounded ${!showDataModel ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600'}`}
+                  aria-pressed={!showDataModel}
+                >
+                  Flow
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleShowDataModel}
+                  className={`h-6 px-2 text-xs rounded ${showDataModel ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600'}`}
+                  aria-pressed={showDataModel}
+                >
+                  Data model
+                </Button>
+              </div>
+            )}
           </div>
           <div className="flex gap-2">
+            {architecture && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowProblems(!showProblems)}
+                className={`h-6 px-2 gap-1 text-xs rounded-md border ${
+                  lintIssues.some(issue => issue.severity === 'error')
+                    ? 'border-red-200 bg-red-50 text-red-700 hover:bg-red-100'
+                    : lintIssues.length > 0
+                      ? 'border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100'
+                      : 'border-gray-200 bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                aria-pressed={showProblems}
+              >
+                {lintIssues.length > 0 ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+                {lintIssues.length} problem{lintIssues.length !== 1 ? 's' : ''}
+              </Button>
+            )}
+            {syncError && (
+              <Badge
+                variant="secondary"
+                className="text-xs gap-1 bg-amber-50 text-amber-700 border border-amber-200 rounded-md"
+                title={`${syncError}. The project is saved in this browser and will sync on the next change.`}
+              >
+                <CloudOff className="w-3 h-3" />
+                Not synced
+              </Badge>
+            )}
+            {isProjectMode && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowUsage(!showUsage)}
+                className={`h-6 px-2 gap-1 text-xs rounded-md border ${
+                  budgetMessage
+                    ? 'border-red-200 bg-red-50 text-red-700 hover:bg-red-100'
+                    : 'border-gray-200 bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                aria-pressed={showUsage}
+                title={projectUsage ? UsageMeter.format(projectUsage) : 'No AI calls yet'}
+              >
+                <Coins className="w-3 h-3" />
+                {UsageMeter.formatEstimate(projectUsage?.costUsd || 0)}
+              </Button>
+            )}
+            {architecture?.metadata.generatedBy && (
+              <Badge
+                variant="secondary"
+                className="text-xs bg-gray-100 text-gray-700 border border-gray-200 rounded-md"
+                title={`Model: ${architecture.metadata.generatedBy.model}${
+                  architecture.metadata.generatedBy.prompt
+                    ? `, prompt: ${architecture.metadata.generatedBy.prompt.id}@${architecture.metadata.generatedBy.prompt.version}`
+                    : ''
+                }`}
+              >
+                {architecture.metadata.generatedBy.provider === 'fallback'
+                  ? 'Built-in template'
+                  : `via ${architecture.metadata.generatedBy.provider}`}
+              </Badge>
+            )}
             {flow && (
               <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-700 border border-gray-200 rounded-md">
                 {flow.nodes.length} nodes, {flow.edges.length} connections
@@ -818,13 +1360,39 @@ export default function AppStudio() {
           </div>
         </div>
 
-        {/* Diagram Content */}
-        <div className="flex-1 relative">
-          {flow ? (
+        {/* Diagram Content - drop an exported JSON file here to import it */}
+        <div
+          className="flex-1 relative"
+          onDragOver={handleCanvasDragOver}
+          onDragLeave={handleCanvasDragLeave}
+          onDrop={handleCanvasDrop}
+        >
+          {isDraggingFile && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-blue-50/80 border-2 border-dashed border-blue-400 pointer-events-none">
+              <div className="flex items-center gap-2 text-blue-700 font-medium">
+                <Upload className="w-5 h-5" />
+                Drop architecture JSON or an OpenAPI document to import
+              </div>
+            </div>
+          )}
+          {showDataModel && architecture?.dataModel ? (
+            <DataModelDiagram
+              dataModel={architecture.dataModel}
+              screens={architecture.screens}
+              appName={architecture.name}
+              isGenerating={isInferringDataModel}
+              onChange={handleDataModelChange}
+              onReinfer={handleReinferDataModel}
+              onGenerateWithAI={handleGenerateDataModel}
+            />
+          ) : flow ? (
             <FlowDiagram 
+              key={flowVersion}
               flow={flow} 
               onFlowChange={handleFlowChange}
               editable={true}
+              highlightedNodes={highlightedNodes}
+              focusedNodeIds={focusedNodeIds}
             />
           ) : (
             <div className="flex items-center justify-center h-full bg-white">
@@ -837,6 +1405,26 @@ export default function AppStudio() {
             </div>
           )}
         </div>
+
+        {architecture && showProblems && (
+          <ProblemsPanel
+            issues={lintIssues}
+            selectedIssueId={selectedIssueId}
+            onSelectIssue={handleSelectIssue}
+            onApplyFix={handleApplyQuickFix}
+            onClose={() => setShowProblems(false)}
+          />
+        )}
+
+        {showUsage && (
+          <UsagePanel
+            usage={projectUsage}
+            budget={budget}
+            budgetMessage={budgetMessage}
+            onBudgetChange={setBudget}
+            onClose={() => setShowUsage(false)}
+          />
+        )}
       </div>
 
       {/* Questions Dialog */}
@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, AlertTriangle, CheckCircle2, Wrench, X } from 'lucide-react';
+
+import { ArchitectureLintIssue } from '@/types/app-architecture';
+
+interface ProblemsPanelProps {
+  issues: ArchitectureLintIssue[];
+  selectedIssueId?: string | null;
+  onSelectIssue: (issue: ArchitectureLintIssue) => void;
+  onApplyFix: (issue: ArchitectureLintIssue) => void;
+  onClose: () => void;
+}
+
+export default function ProblemsPanel({
+  issues,
+  selectedIssueId,
+  onSelectIssue,
+  onApplyFix,
+  onClose
+}: ProblemsPanelProps) {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="border-t border-gray-200 bg-white flex flex-col max-h-64" role="region" aria-label="Problems">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-medium text-gray-900">Problems</h3>
+          <Badge variant="secondary" className="text-xs bg-red-50 text-red-700 border-0">
+            {errorCount} error{errorCount !== 1 ? 's' : ''}
+          </Badge>
+          <Badge variant="secondary" className="text-xs bg-amber-50 text-amber-700 border-0">
+            {warningCount} warning{warningCount !== 1 ? 's' : ''}
+          </Badge>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0" aria-label="Close problems">
+          <X className="w-4 h-4 text-gray-500" />
+        </Button>
+      </div>
+
+      <div className="overflow-y-auto">
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-2 px-4 py-3 text-sm text-gray-600">
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+            No problems found in this architecture
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-50">
+            {issues.map(issue => (
+              <li
+                key={issue.id}
+                className={`flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-gray-50 ${
+                  selectedIssueId === issue.id ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => onSelectIssue(issue)}
+              >
+                {issue.severity === 'error' ? (
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+                )}
+                <span className="flex-1 min-w-0 text-sm text-gray-800 truncate" title={issue.message}>
+                  {issue.message}
+                </span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{issue.rule}</span>
+                {issue.fix && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onApplyFix(issue);
+                    }}
+                    className="h-7 text-xs flex-shrink-0"
+                  >
+                    <Wrench className="w-3 h-3 mr-1" />
+                    {issue.fix.label}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
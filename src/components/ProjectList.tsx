@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FolderOpen, Pencil, Trash2, Check, X, Clock } from 'lucide-react';
+
+import { ProjectStore } from '@/lib/project-store';
+import { ProjectSummary } from '@/types/app-architecture';
+
+interface ProjectListProps {
+  onProjectOpen: (projectId: string) => void;
+}
+
+export default function ProjectList({ onProjectOpen }: ProjectListProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await ProjectStore.list());
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const handleStartRename = useCallback((project: ProjectSummary) => {
+    setEditingId(project.id);
+    setEditName(project.name);
+  }, []);
+
+  const handleRename = useCallback(async () => {
+    if (!editingId || !editName.trim()) return;
+
+    try {
+      await ProjectStore.rename(editingId, editName.trim());
+      setEditingId(null);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to rename project:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rename project');
+    }
+    await refreshProjects();
+  }, [editingId, editName, refreshProjects]);
+
+  const handleDelete = useCallback(async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+
+    try {
+      await ProjectStore.delete(project.id);
+      setProjects(prev => prev.filter(p => p.id !== project.id));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete project');
+    }
+  }, []);
+
+  if (isLoading || projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="max-w-4xl mx-auto mb-12 bg-white/80 border-gray-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <FolderOpen className="w-5 h-5 text-gray-600" />
+          Your Projects
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {error && (
+          <p className="mb-2 text-xs text-red-600" role="alert">{error}</p>
+        )}
+        <div className="divide-y divide-gray-100">
+          {projects.map((project) => (
+            <div key={project.id} className="flex items-center gap-3 py-3">
+              {editingId === project.id ? (
+                <div className="flex-1 flex items-center gap-2">
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-8 text-sm"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" onClick={handleRename} className="h-8 w-8 p-0">
+                    <Check className="w-4 h-4 text-green-600" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-8 w-8 p-0">
+                    <X className="w-4 h-4 text-gray-500" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onProjectOpen(project.id)}
+                    className="flex-1 min-w-0 text-left group"
+                  >
+                    <p className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-700">
+                      {project.name}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                      <Clock className="w-3 h-3" />
+                      {new Date(project.updatedAt).toLocaleString()}
+                    </div>
+                  </button>
+                  <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-700 border-0">
+                    {project.screenCount} screen{project.screenCount !== 1 ? 's' : ''}
+                  </Badge>
+                  {project.hasWireframes && (
+                    <Badge variant="secondary" className="text-xs bg-blue-50 text-blue-700 border-0">
+                      Wireframes
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleStartRename(project)}
+                    className="h-8 w-8 p-0 hover:bg-gray-100"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4 text-gray-600" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(project)}
+                    className="h-8 w-8 p-0 hover:bg-red-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
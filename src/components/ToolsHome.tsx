@@ -20,6 +20,8 @@ import {
   Settings
 } from 'lucide-react';
 
+import ProjectList from './ProjectList';
+
 export interface AITool {
   id: string;
   name: string;
@@ -62,11 +64,11 @@ const aiTools: AITool[] = [
     id: 'ui-designer',
     name: 'Hi-fi UI Designer',
     description: 'Generate production-ready React components with design systems',
-    longDescription: 'Convert wireframes into beautiful, coded UI components using Shadcn, Material Design, or custom design systems.',
+    longDescription: 'Convert wireframes into typed React components built from Shadcn/ui primitives and styled with Tailwind, ready to copy or download.',
     icon: <Code className="w-6 h-6" />,
-    status: 'coming_soon',
+    status: 'available',
     category: 'development',
-    features: ['React + Tailwind', 'Shadcn/ui integration', 'Design system support', 'TypeScript ready'],
+    features: ['React + Tailwind', 'Shadcn/ui integration', 'TypeScript ready', 'Zip download'],
     color: 'text-purple-600',
     bgGradient: 'from-purple-50 to-violet-50 border-purple-200',
   },
@@ -134,9 +136,10 @@ const aiTools: AITool[] = [
 
 interface ToolsHomeProps {
   onToolSelect: (toolId: string) => void;
+  onProjectOpen?: (projectId: string) => void;
 }
 
-export default function ToolsHome({ onToolSelect }: ToolsHomeProps) {
+export default function ToolsHome({ onToolSelect, onProjectOpen }: ToolsHomeProps) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
 
   const categories = [
@@ -183,6 +186,9 @@ export default function ToolsHome({ onToolSelect }: ToolsHomeProps) {
           </p>
         </div>
 
+        {/* Saved Projects */}
+        {onProjectOpen && <ProjectList onProjectOpen={onProjectOpen} />}
+
         {/* Category Filter */}
         <div className="flex justify-center mb-8">
           <div className="flex items-center gap-2 p-1 bg-white rounded-xl border border-gray-200 shadow-sm">
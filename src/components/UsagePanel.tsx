@@ -0,0 +1,115 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, X } from 'lucide-react';
+
+import { ProjectBudget, ProjectUsage } from '@/types/app-architecture';
+import { UsageMeter } from '@/lib/ai-usage';
+
+interface UsagePanelProps {
+  usage?: ProjectUsage;
+  budget?: ProjectBudget;
+  budgetMessage?: string | null;
+  onBudgetChange: (budget: ProjectBudget | undefined) => void;
+  onClose: () => void;
+}
+
+// Empty inputs clear a limit rather than setting it to zero
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+export default function UsagePanel({
+  usage,
+  budget,
+  budgetMessage,
+  onBudgetChange,
+  onClose
+}: UsagePanelProps) {
+  const models = Object.entries(usage?.byModel || {}).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+
+  const updateBudget = (update: ProjectBudget) => {
+    const next = { ...budget, ...update };
+    onBudgetChange(next.maxCostUsd === undefined && next.maxTokens === undefined ? undefined : next);
+  };
+
+  return (
+    <div className="border-t border-gray-200 bg-white flex flex-col max-h-64" role="region" aria-label="Usage">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-medium text-gray-900">Usage</h3>
+          <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-700 border-0">
+            {usage ? UsageMeter.format(usage) : 'No AI calls yet'}
+          </Badge>
+          {usage && (
+            <span className="text-xs text-gray-500">
+              {usage.calls} call{usage.calls !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0" aria-label="Close usage">
+          <X className="w-4 h-4 text-gray-500" />
+        </Button>
+      </div>
+
+      <div className="overflow-y-auto">
+        {budgetMessage && (
+          <div className="flex items-center gap-2 px-4 py-2 text-sm text-red-700 bg-red-50">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {budgetMessage} Generation is paused until the budget is raised.
+          </div>
+        )}
+
+        <div className="flex items-center gap-4 px-4 py-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            Budget (USD)
+            <Input
+              type="number"
+              min={0}
+              step={0.01}
+              value={budget?.maxCostUsd ?? ''}
+              onChange={(e) => updateBudget({ maxCostUsd: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className="h-7 w-28 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Token limit
+            <Input
+              type="number"
+              min={0}
+              step={1000}
+              value={budget?.maxTokens ?? ''}
+              onChange={(e) => updateBudget({ maxTokens: parseLimit(e.target.value) })}
+              placeholder="No limit"
+              className="h-7 w-28 text-xs"
+            />
+          </label>
+        </div>
+
+        {models.length > 0 && (
+          <ul className="divide-y divide-gray-50 border-t border-gray-100">
+            {models.map(([model, modelUsage]) => (
+              <li key={model} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <span className="flex-1 min-w-0 text-gray-800 truncate" title={model}>{model}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {modelUsage.calls} call{modelUsage.calls !== 1 ? 's' : ''}
+                </span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {UsageMeter.formatTokens(modelUsage.inputTokens)} in / {UsageMeter.formatTokens(modelUsage.outputTokens)} out
+                </span>
+                <span className="text-xs text-gray-900 flex-shrink-0 w-14 text-right">
+                  {UsageMeter.formatCost(modelUsage.costUsd)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
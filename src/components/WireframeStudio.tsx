@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -20,47 +20,172 @@ import {
   ArrowRight,
   FileText,
   Maximize2,
-  Minimize2
+  Minimize2,
+  AlertTriangle,
+  Columns3,
+  Globe,
+  Code
 } from 'lucide-react';
 
 import WireframeDiagram from './flow/WireframeDiagram';
+import WireframeVariationsDialog from './flow/WireframeVariationsDialog';
+import WireframeDeviceComparison from './flow/WireframeDeviceComparison';
+import WireframeScreenEditor from './flow/WireframeScreenEditor';
+import WireframeCodeDialog from './flow/WireframeCodeDialog';
 import ThinkingDialogue from './ui/thinking-dialogue';
-import { WireframeProject, WireframeFlow, WireframeScreen, DeviceType, AppArchitecture } from '@/types/app-architecture';
-
-interface ChatMessage {
-  id: string;
-  type: 'user' | 'assistant' | 'thinking';
-  content: string;
-  timestamp: Date;
-  isThinking?: boolean;
-  thinkingSteps?: Array<{
-    id: string;
-    title: string;
-    description?: string;
-    status: 'pending' | 'in_progress' | 'completed' | 'error';
-  }>;
-  currentThought?: string;
-}
+import { WireframeEditor } from '@/lib/wireframe-editor';
+import { UsageMeter } from '@/lib/ai-usage';
+import { readEventStream } from '@/lib/server-sent-events';
+import { MAX_VARIATIONS } from '@/lib/wireframe-generator';
+import { PrototypeExporter } from '@/lib/prototype-exporter';
+import {
+  WireframeProject,
+  WireframeFlow,
+  WireframeFlowNode,
+  WireframeEdit,
+  WireframeScreen,
+  WireframeStreamEvent,
+  DeviceType,
+  ScreenType,
+  ComplexityLevel,
+  AppArchitecture,
+  ChatMessage,
+  GenerationSource
+} from '@/types/app-architecture';
 
 interface WireframeStudioProps {
   sourceArchitecture?: AppArchitecture;
+  initialWireframes?: WireframeProject | null;
+  initialMessages?: ChatMessage[];
+  onProjectChange?: (wireframes: WireframeProject | null, messages: ChatMessage[]) => void;
+  onUsage?: (sources: (GenerationSource | undefined)[]) => void;
+  budgetMessage?: string | null;
   onBack?: () => void;
 }
 
-export default function WireframeStudio({ sourceArchitecture, onBack }: WireframeStudioProps) {
+const screenToNode = (screen: WireframeScreen, index: number): WireframeFlowNode => ({
+  id: screen.id,
+  type: 'wireframe_screen',
+  position: screen.position || { x: index * 400, y: 100 },
+  data: {
+    label: screen.name,
+    screen,
+    device: screen.device,
+  },
+});
+
+// Each device's screens are laid out in their own row, since the canvas shows one device at a time
+const wireframesToFlow = (wireframes: WireframeProject): WireframeFlow => {
+  const counts = new Map<DeviceType, number>();
+  return {
+    nodes: wireframes.screens.map(screen => {
+      const index = counts.get(screen.device) || 0;
+      counts.set(screen.device, index + 1);
+      return screenToNode(screen, index);
+    }),
+    edges: [],
+  };
+};
+
+// The same architecture screen on the same device, whatever id it was given
+const isSameScreen = (a: WireframeScreen, b: WireframeScreen) =>
+  a.id === b.id || (!!a.sourceScreenId && a.sourceScreenId === b.sourceScreenId && a.device === b.device);
+
+// Add a streamed screen to the canvas, or swap it in where an earlier version sits
+const upsertScreenNode = (flow: WireframeFlow | null, screen: WireframeScreen, index: number): WireframeFlow => {
+  const nodes = flow?.nodes || [];
+  const existing = nodes.find(node => isSameScreen(node.data.screen, screen));
+  if (existing) {
+    return {
+      edges: flow?.edges || [],
+      nodes: nodes.map(node => node === existing
+        ? { ...node, data: { ...node.data, label: screen.name, screen: { ...screen, id: node.id } } }
+        : node),
+    };
+  }
+  return { edges: flow?.edges || [], nodes: [...nodes, screenToNode(screen, index)] };
+};
+
+/**
+ * Generate wireframes over the event stream, calling `onScreen` as each
+ * screen finishes. Resolves with the finished project.
+ */
+const streamWireframes = async (
+  body: { architecture: AppArchitecture; devices: DeviceType[]; designHints?: string; screenIds?: string[] },
+  onScreen: (screen: WireframeScreen, index: number) => void
+): Promise<WireframeProject> => {
+  const response = await fetch('/api/generate-wireframes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to generate wireframes');
+  }
+
+  let wireframes: WireframeProject | null = null;
+  await readEventStream<WireframeStreamEvent>(response, (event) => {
+    switch (event.type) {
+      case 'screen':
+        onScreen(event.screen, event.index);
+        break;
+      case 'done':
+        wireframes = event.wireframes;
+        break;
+      case 'error':
+        throw new Error(event.message);
+    }
+  });
+
+  if (!wireframes) {
+    throw new Error('Wireframe stream ended before generation finished');
+  }
+  return wireframes;
+};
+
+export default function WireframeStudio({
+  sourceArchitecture,
+  initialWireframes,
+  initialMessages,
+  onProjectChange,
+  onUsage,
+  budgetMessage,
+  onBack
+}: WireframeStudioProps) {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [wireframeProject, setWireframeProject] = useState<WireframeProject | null>(null);
-  const [wireframeFlow, setWireframeFlow] = useState<WireframeFlow | null>(null);
-  const [selectedDevice, setSelectedDevice] = useState<DeviceType>(DeviceType.MOBILE);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [wireframeProject, setWireframeProject] = useState<WireframeProject | null>(initialWireframes || null);
+  const [wireframeFlow, setWireframeFlow] = useState<WireframeFlow | null>(
+    initialWireframes ? wireframesToFlow(initialWireframes) : null
+  );
+  const [selectedDevice, setSelectedDevice] = useState<DeviceType>(initialWireframes?.metadata.device || DeviceType.MOBILE);
+  // Devices a new project is generated for; more can be added later from the canvas
+  const [targetDevices, setTargetDevices] = useState<DeviceType[]>([DeviceType.MOBILE]);
+  const [comparingScreenId, setComparingScreenId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>(initialMessages || []);
   const [currentMessage, setCurrentMessage] = useState('');
-  const [isProjectMode, setIsProjectMode] = useState(!!sourceArchitecture);
+  const [isProjectMode, setIsProjectMode] = useState(!!sourceArchitecture || !!initialWireframes);
   const [sidebarWidth, setSidebarWidth] = useState(400);
   const [isDiagramFullscreen, setIsDiagramFullscreen] = useState(false);
+  const [selectedScreenId, setSelectedScreenId] = useState<string | null>(null);
+  const [regeneratingScreenId, setRegeneratingScreenId] = useState<string | null>(null);
+  const [variationChoice, setVariationChoice] = useState<{ screen: WireframeScreen; variations: WireframeScreen[] } | null>(null);
+  const [editingScreen, setEditingScreen] = useState<WireframeScreen | null>(null);
+  const [isCodeOpen, setIsCodeOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const resizingRef = useRef(false);
 
+  // Distinct providers, models and prompts that produced the current screens
+  const generatedBy = useMemo(() => {
+    const sources = new Map<string, GenerationSource>();
+    wireframeProject?.screens.forEach(screen => {
+      const { provider, model, prompt } = screen.generatedBy || {};
+      if (screen.generatedBy) sources.set(`${provider}:${model}:${prompt?.id}@${prompt?.version}`, screen.generatedBy);
+    });
+    return Array.from(sources.values());
+  }, [wireframeProject]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -69,6 +194,19 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
     scrollToBottom();
   }, [chatMessages]);
 
+  // Report changes so the parent can persist them, keeping canvas positions on the screens
+  useEffect(() => {
+    if (!onProjectChange) return;
+    const positions = new Map(wireframeFlow?.nodes.map(node => [node.id, node.position]));
+    onProjectChange(
+      wireframeProject && {
+        ...wireframeProject,
+        screens: wireframeProject.screens.map(screen => ({ ...screen, position: positions.get(screen.id) || screen.position }))
+      },
+      chatMessages.filter(message => !message.isThinking)
+    );
+  }, [wireframeProject, wireframeFlow, chatMessages, onProjectChange]);
+
   // Initialize with source architecture if provided
   useEffect(() => {
     if (sourceArchitecture && !wireframeProject) {
@@ -86,6 +224,17 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
       timestamp: new Date()
     };
     setChatMessages(prev => [...prev, userMessage]);
+
+    if (budgetMessage) {
+      setChatMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        content: `⛔ ${budgetMessage} Raise the limit under Usage in Flow Diagrams to keep generating.`,
+        timestamp: new Date()
+      }]);
+      setIsProjectMode(true);
+      return;
+    }
     
     const thinkingMessageId = (Date.now() + 1).toString();
     const initialThinkingMessage: ChatMessage = {
@@ -103,6 +252,8 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
     setIsProjectMode(true);
     
     try {
+      let thinkingSource: GenerationSource | undefined;
+
       // Get AI thinking process for wireframes
       const thinkingResponse = await fetch('/api/ai-thinking', {
         method: 'POST',
@@ -114,7 +265,8 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
       });
 
       if (thinkingResponse.ok) {
-        const { steps, thoughts } = await thinkingResponse.json();
+        const { steps, thoughts, generatedBy } = await thinkingResponse.json();
+        thinkingSource = generatedBy;
         
         setChatMessages(prev => 
           prev.map(msg => 
@@ -150,14 +302,14 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
       }
 
       // Generate wireframes
-      const architectureData = sourceArchitecture || {
+      const architectureData: AppArchitecture = sourceArchitecture || {
         id: 'temp-arch',
         name: 'Custom Wireframe Project',
         description: promptText,
         screens: [{
           id: 'main-screen',
           name: 'Main Screen',
-          type: 'home',
+          type: ScreenType.HOME,
           description: promptText,
           components: [],
           data: { requiresAuth: false },
@@ -169,45 +321,36 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
           updatedAt: new Date().toISOString(),
           version: '1.0.0',
           tags: [],
-          complexity: 'simple',
+          complexity: ComplexityLevel.SIMPLE,
           estimatedScreens: 1,
           estimatedApis: 0,
         }
       };
 
-      const wireframeResponse = await fetch('/api/generate-wireframes', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          architecture: architectureData, 
-          device: selectedDevice,
-          designHints: promptText 
-        }),
-      });
-
-      if (!wireframeResponse.ok) {
-        throw new Error('Failed to generate wireframes');
-      }
-
-      const { wireframes } = await wireframeResponse.json();
+      // Screens appear on the canvas as they finish, in whatever order that is
+      let completed = 0;
+      const total = architectureData.screens.length * targetDevices.length;
+      setWireframeFlow(null);
+      setSelectedDevice(targetDevices[0]);
+      const wireframes = await streamWireframes(
+        { architecture: architectureData, devices: targetDevices, designHints: promptText },
+        (screen, index) => {
+          completed++;
+          setWireframeFlow(prev => upsertScreenNode(prev, screen, index));
+          setChatMessages(prev =>
+            prev.map(msg =>
+              msg.id === thinkingMessageId
+                ? { ...msg, currentThought: `Drew ${screen.name} for ${screen.device} (${completed} of ${total})` }
+                : msg
+            )
+          );
+        }
+      );
+      const sources = [thinkingSource, ...wireframes.screens.map(screen => screen.generatedBy)];
+      onUsage?.(sources);
+      const failed = wireframes.screens.filter(screen => screen.generationError).length;
       
-      // Convert to flow format
-      const flow: WireframeFlow = {
-        nodes: wireframes.screens.map((screen: WireframeScreen, index: number) => ({
-          id: screen.id,
-          type: 'wireframe_screen',
-          position: { x: index * 400, y: 100 },
-          data: {
-            label: screen.name,
-            screen,
-            device: screen.device,
-          },
-        })),
-        edges: [],
-      };
-
       setWireframeProject(wireframes);
-      setWireframeFlow(flow);
       
       // Complete thinking and show success
       setChatMessages(prev => 
@@ -216,7 +359,10 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
             ? { 
                 ...msg, 
                 type: 'assistant',
-                content: `✅ Generated ${wireframes.screens.length} wireframe screen${wireframes.screens.length !== 1 ? 's' : ''} for ${selectedDevice} device. Your wireframes are ready for review and editing.`,
+                content: failed > 0
+                  ? `⚠️ Generated ${wireframes.screens.length - failed} of ${wireframes.screens.length} wireframe screens for ${targetDevices.join(', ')}. ${failed} screen${failed !== 1 ? 's' : ''} got a placeholder; use Retry failed to regenerate ${failed !== 1 ? 'them' : 'it'}.`
+                  : `✅ Generated ${wireframes.screens.length} wireframe screen${wireframes.screens.length !== 1 ? 's' : ''} for ${targetDevices.join(', ')}. Your wireframes are ready for review and editing.`,
+                usage: UsageMeter.total(sources),
                 isThinking: false,
                 currentThought: undefined,
                 thinkingSteps: undefined
@@ -246,34 +392,374 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
     } finally {
       setIsGenerating(false);
     }
-  }, [sourceArchitecture, selectedDevice]);
+  }, [sourceArchitecture, targetDevices, budgetMessage, onUsage]);
+
+  // Add a screen, or swap in a new version of it; a replaced node keeps its position and edges
+  const upsertScreen = useCallback((screen: WireframeScreen, index = 0) => {
+    setWireframeProject(prev => {
+      if (!prev) return prev;
+      const existing = prev.screens.find(s => isSameScreen(s, screen));
+      return {
+        ...prev,
+        screens: existing
+          ? prev.screens.map(s => s === existing ? { ...screen, id: existing.id } : s)
+          : [...prev.screens, screen],
+        metadata: { ...prev.metadata, updatedAt: new Date().toISOString() }
+      };
+    });
+    setWireframeFlow(prev => upsertScreenNode(prev, screen, index));
+  }, []);
+
+  // The canvas shows one device at a time
+  const deviceScreens = useMemo(
+    () => wireframeProject?.screens.filter(screen => screen.device === selectedDevice) || [],
+    [wireframeProject, selectedDevice]
+  );
+
+  const failedScreens = useMemo(
+    () => deviceScreens.filter(screen => screen.generationError),
+    [deviceScreens]
+  );
+
+  /**
+   * Generate screens into the open project for one device: the failed ones
+   * again, or every screen when the project has nothing for that device yet
+   */
+  const handleGenerateScreens = useCallback(async (device: DeviceType, screenIds?: string[]) => {
+    const architecture = wireframeProject?.sourceArchitecture;
+    if (!wireframeProject || !architecture || isGenerating) return;
+
+    if (budgetMessage) {
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'assistant',
+        content: `⛔ ${budgetMessage} Raise the limit under Usage in Flow Diagrams to keep generating.`,
+        timestamp: new Date()
+      }]);
+      return;
+    }
+
+    const retrying = !!screenIds;
+    const thinkingMessageId = Date.now().toString();
+    setChatMessages(prev => [...prev, {
+      id: thinkingMessageId,
+      type: 'thinking',
+      content: retrying ? 'Retrying failed screens...' : `Generating ${device} wireframes...`,
+      timestamp: new Date(),
+      isThinking: true,
+      thinkingSteps: [],
+      currentThought: retrying
+        ? `Regenerating ${architecture.screens.filter(s => screenIds.includes(s.id)).map(s => s.name).join(', ')}...`
+        : `Adapting ${architecture.screens.length} screen${architecture.screens.length !== 1 ? 's' : ''} to ${device}...`
+    }]);
+    setIsGenerating(true);
+
+    try {
+      const generated = await streamWireframes(
+        {
+          architecture,
+          devices: [device],
+          designHints: wireframeProject.metadata.designHints,
+          screenIds,
+        },
+        upsertScreen
+      );
+      setWireframeProject(prev => prev && {
+        ...prev,
+        metadata: {
+          ...prev.metadata,
+          devices: Array.from(new Set([...(prev.metadata.devices || [prev.metadata.device]), device]))
+        }
+      });
+      const sources = generated.screens.map(screen => screen.generatedBy);
+      onUsage?.(sources);
+      const total = generated.screens.length;
+      const failed = generated.screens.filter(screen => screen.generationError).length;
+
+      setChatMessages(prev =>
+        prev.map(msg =>
+          msg.id === thinkingMessageId
+            ? {
+                ...msg,
+                type: 'assistant',
+                content: retrying
+                  ? failed > 0
+                    ? `⚠️ Regenerated ${total - failed} of ${total} failed screens. ${failed} still failed; you can retry again.`
+                    : `✅ Regenerated ${total} screen${total !== 1 ? 's' : ''}.`
+                  : failed > 0
+                    ? `⚠️ Generated ${total - failed} of ${total} ${device} screens. ${failed} screen${failed !== 1 ? 's' : ''} got a placeholder; use Retry failed to regenerate ${failed !== 1 ? 'them' : 'it'}.`
+                    : `✅ Generated ${total} ${device} screen${total !== 1 ? 's' : ''}.`,
+                usage: UsageMeter.total(sources),
+                isThinking: false,
+                currentThought: undefined,
+                thinkingSteps: undefined
+              }
+            : msg
+        )
+      );
+    } catch (error) {
+      console.error('Failed to generate wireframe screens:', error);
+      setChatMessages(prev =>
+        prev.map(msg =>
+          msg.id === thinkingMessageId
+            ? {
+                ...msg,
+                type: 'assistant',
+                content: '❌ Failed to generate the screens. Please try again.',
+                isThinking: false,
+                currentThought: undefined,
+                thinkingSteps: undefined
+              }
+            : msg
+        )
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [wireframeProject, isGenerating, budgetMessage, onUsage, upsertScreen]);
+
+  const handleRetryFailedScreens = useCallback(() => {
+    handleGenerateScreens(selectedDevice, failedScreens.map(screen => screen.sourceScreenId || screen.id));
+  }, [handleGenerateScreens, selectedDevice, failedScreens]);
+
+  const projectDevices = useMemo(
+    () => Object.values(DeviceType).filter(device => wireframeProject?.screens.some(screen => screen.device === device)),
+    [wireframeProject]
+  );
+
+  // At least one device always stays selected
+  const toggleTargetDevice = useCallback((device: DeviceType) => {
+    setTargetDevices(prev => {
+      const next = prev.includes(device) ? prev.filter(d => d !== device) : [...prev, device];
+      return next.length > 0 ? Object.values(DeviceType).filter(d => next.includes(d)) : prev;
+    });
+  }, []);
+
+  const handleCompareGenerate = useCallback((device: DeviceType) => {
+    setComparingScreenId(null);
+    setSelectedDevice(device);
+    handleGenerateScreens(device);
+  }, [handleGenerateScreens]);
+
+  /**
+   * Regenerate one screen with the same prompt context as the full run, or
+   * fetch `variations` alternatives for the user to pick from
+   */
+  const handleRegenerateScreen = useCallback(async (screen: WireframeScreen, variations: number) => {
+    const architecture = wireframeProject?.sourceArchitecture;
+    if (!wireframeProject || !architecture || isGenerating || regeneratingScreenId) return;
+
+    const reply = (content: string, usage?: ChatMessage['usage']) => {
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        type: 'assistant',
+        content,
+        usage,
+        timestamp: new Date()
+      }]);
+    };
+
+    if (budgetMessage) {
+      reply(`⛔ ${budgetMessage} Raise the limit under Usage in Flow Diagrams to keep generating.`);
+      return;
+    }
+
+    setRegeneratingScreenId(screen.id);
+    try {
+      const response = await fetch('/api/generate-wireframe-screen', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          architecture,
+          screenId: screen.sourceScreenId || screen.id,
+          device: screen.device,
+          designHints: wireframeProject.metadata.designHints,
+          variations
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to generate wireframe screen');
+      }
+
+      const { screens }: { screens: WireframeScreen[] } = await response.json();
+      const sources = screens.map(s => s.generatedBy);
+      onUsage?.(sources);
+      // Whatever the model named it, the screen keeps its place on the canvas
+      const candidates = screens.map(s => ({ ...s, id: screen.id, position: screen.position }));
+      const generated = candidates.filter(s => !s.generationError);
+
+      if (variations > 1) {
+        if (generated.length > 0) {
+          setVariationChoice({ screen, variations: candidates });
+        }
+        reply(
+          generated.length > 0
+            ? `🎨 Generated ${generated.length} variation${generated.length !== 1 ? 's' : ''} of ${screen.name}. Pick one to replace it, or keep the current screen.`
+            : `❌ Couldn't generate variations of ${screen.name}: ${candidates[0]?.generationError}. The screen is unchanged.`,
+          UsageMeter.total(sources)
+        );
+      } else if (generated.length > 0) {
+        upsertScreen(generated[0]);
+        reply(`✅ Regenerated ${screen.name}.`, UsageMeter.total(sources));
+      } else {
+        reply(`❌ Couldn't regenerate ${screen.name}: ${candidates[0]?.generationError}. The screen is unchanged.`, UsageMeter.total(sources));
+      }
+    } catch (error) {
+      console.error('Failed to regenerate wireframe screen:', error);
+      reply(`❌ Failed to regenerate ${screen.name}. Please try again.`);
+    } finally {
+      setRegeneratingScreenId(null);
+    }
+  }, [wireframeProject, isGenerating, regeneratingScreenId, budgetMessage, onUsage, upsertScreen]);
+
+  const handleScreenRegenerate = useCallback((screen: WireframeScreen) => handleRegenerateScreen(screen, 1), [handleRegenerateScreen]);
+  const handleScreenVariations = useCallback((screen: WireframeScreen) => handleRegenerateScreen(screen, MAX_VARIATIONS), [handleRegenerateScreen]);
+
+  const handlePickVariation = useCallback((variation: WireframeScreen) => {
+    upsertScreen(variation);
+    setVariationChoice(null);
+  }, [upsertScreen]);
+
+  // Nodes can hold an older copy of the screen, so edit the project's own
+  const handleScreenEdit = useCallback((screen: WireframeScreen) => {
+    setEditingScreen(wireframeProject?.screens.find(s => s.id === screen.id) || screen);
+  }, [wireframeProject]);
+
+  const handleSaveEditedScreen = useCallback((screen: WireframeScreen) => {
+    upsertScreen(screen);
+    setEditingScreen(null);
+  }, [upsertScreen]);
 
   const handleSendMessage = useCallback(async () => {
     if (!currentMessage.trim() || isGenerating) return;
     
     if (!isProjectMode) {
       await handleGenerateWireframes(currentMessage);
-    } else {
-      // Handle modifications to existing wireframes
+    } else if (wireframeProject) {
+      // Targeted edits to the selected screen's component tree
+      const instruction = currentMessage;
       const userMessage: ChatMessage = {
         id: Date.now().toString(),
         type: 'user',
-        content: currentMessage,
+        content: instruction,
         timestamp: new Date()
       };
       setChatMessages(prev => [...prev, userMessage]);
-      
-      const responseMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: 'I understand your request for wireframe modifications. Currently, you can manually edit the wireframes in the canvas. Advanced AI-powered wireframe editing will be available in a future update.',
-        timestamp: new Date()
-      };
-      setChatMessages(prev => [...prev, responseMessage]);
+      setCurrentMessage('');
+
+      const targetScreen = wireframeProject.screens.find(s => s.id === selectedScreenId) ||
+        deviceScreens.find(s => instruction.toLowerCase().includes(s.name.toLowerCase())) ||
+        (deviceScreens.length === 1 ? deviceScreens[0] : undefined);
+
+      if (!targetScreen) {
+        setChatMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          type: 'assistant',
+          content: 'Which screen should I change? Select it on the canvas or mention it by name.',
+          timestamp: new Date()
+        }]);
+        return;
+      }
+
+      if (budgetMessage) {
+        setChatMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          type: 'assistant',
+          content: `⛔ ${budgetMessage} Raise the limit under Usage in Flow Diagrams to keep editing.`,
+          timestamp: new Date()
+        }]);
+        return;
+      }
+
+      const thinkingMessageId = (Date.now() + 1).toString();
+      setChatMessages(prev => [...prev, {
+        id: thinkingMessageId,
+        type: 'thinking',
+        content: 'AI is editing your wireframe...',
+        timestamp: new Date(),
+        isThinking: true,
+        thinkingSteps: [],
+        currentThought: `Finding the components to change on ${targetScreen.name}...`
+      }]);
+      setIsGenerating(true);
+
+      try {
+        const response = await fetch('/api/edit-wireframe', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ screen: targetScreen, instruction }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to edit wireframe');
+        }
+
+        const { edit }: { edit: WireframeEdit } = await response.json();
+        const updatedScreen = WireframeEditor.applyEdit(targetScreen, edit);
+        onUsage?.([edit.generatedBy]);
+
+        if (edit.operations.length > 0) {
+          setWireframeProject(prev => prev && {
+            ...prev,
+            screens: prev.screens.map(s => s.id === updatedScreen.id ? updatedScreen : s),
+            metadata: { ...prev.metadata, updatedAt: new Date().toISOString() }
+          });
+          setWireframeFlow(prev => prev && {
+            ...prev,
+            nodes: prev.nodes.map(node =>
+              node.data.screen.id === updatedScreen.id
+                ? { ...node, data: { ...node.data, screen: updatedScreen } }
+                : node
+            )
+          });
+        }
+
+        setChatMessages(prev =>
+          prev.map(msg =>
+            msg.id === thinkingMessageId
+              ? {
+                  ...msg,
+                  type: 'assistant',
+                  content: edit.operations.length > 0
+                    ? `✅ ${targetScreen.name}: ${edit.summary}`
+                    : edit.summary,
+                  usage: edit.generatedBy?.usage,
+                  isThinking: false,
+                  currentThought: undefined,
+                  thinkingSteps: undefined
+                }
+              : msg
+          )
+        );
+      } catch (error) {
+        console.error('Failed to edit wireframe:', error);
+        setChatMessages(prev =>
+          prev.map(msg =>
+            msg.id === thinkingMessageId
+              ? {
+                  ...msg,
+                  type: 'assistant',
+                  content: '❌ Failed to edit the wireframe. Please try rephrasing your request.',
+                  isThinking: false,
+                  currentThought: undefined,
+                  thinkingSteps: undefined
+                }
+              : msg
+          )
+        );
+      } finally {
+        setIsGenerating(false);
+      }
+      return;
     }
     
     setCurrentMessage('');
-  }, [currentMessage, isGenerating, isProjectMode, handleGenerateWireframes]);
+  }, [currentMessage, isGenerating, isProjectMode, handleGenerateWireframes, wireframeProject, selectedScreenId, deviceScreens, budgetMessage, onUsage]);
+
+  const selectedScreen = wireframeProject?.screens.find(s => s.id === selectedScreenId);
+  const visibleNodeCount = wireframeFlow?.nodes.filter(node => node.data.device === selectedDevice).length || 0;
+  const comparedVariants = wireframeProject?.screens.filter(s => (s.sourceScreenId || s.id) === comparingScreenId) || [];
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -296,6 +782,23 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
     linkElement.click();
   }, [wireframeProject]);
 
+  // Static HTML pages that link to each other, for clicking through without the app
+  const handleExportPrototype = useCallback(async () => {
+    if (!wireframeProject) return;
+
+    try {
+      const zip = await PrototypeExporter.exportZip(wireframeProject, wireframeFlow);
+      const url = URL.createObjectURL(zip);
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', url);
+      linkElement.setAttribute('download', `${wireframeProject.name.toLowerCase().replace(/\s+/g, '-')}-prototype.zip`);
+      linkElement.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error) {
+      console.error('Prototype export failed:', error);
+    }
+  }, [wireframeProject, wireframeFlow]);
+
   const getDeviceIcon = (device: DeviceType) => {
     switch (device) {
       case DeviceType.MOBILE:
@@ -364,10 +867,11 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
               {Object.values(DeviceType).map((device) => (
                 <Button
                   key={device}
-                  variant={selectedDevice === device ? "default" : "ghost"}
+                  variant={targetDevices.includes(device) ? "default" : "ghost"}
                   size="sm"
-                  onClick={() => setSelectedDevice(device)}
+                  onClick={() => toggleTargetDevice(device)}
                   className="flex items-center gap-2"
+                  aria-pressed={targetDevices.includes(device)}
                 >
                   {getDeviceIcon(device)}
                   <span className="capitalize">{device}</span>
@@ -376,6 +880,10 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
             </div>
           </div>
 
+          <p className="text-xs text-gray-500 text-center -mt-2">
+            Pick one or more devices; each screen is generated for every device you pick
+          </p>
+
           {/* Source Architecture Info */}
           {sourceArchitecture && (
             <Card className="border-blue-200 bg-blue-50">
@@ -469,6 +977,17 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
                       <Download className="w-4 h-4 text-gray-600" />
                     </Button>
                   )}
+                  {wireframeProject && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleExportPrototype}
+                      className="h-8 w-8 p-0 hover:bg-gray-100 rounded-md"
+                      title="Export HTML prototype"
+                    >
+                      <Globe className="w-4 h-4 text-gray-600" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -493,6 +1012,11 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
                         }`}
                       >
                         {message.content}
+                        {message.usage && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            This generation used {UsageMeter.format(message.usage)}
+                          </p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -505,7 +1029,7 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
             <div className="p-4 border-t border-gray-200">
               <div className="flex gap-3">
                 <Input
-                  placeholder="Describe changes to your wireframes..."
+                  placeholder={selectedScreen ? `Describe changes to ${selectedScreen.name}...` : 'Describe changes to your wireframes...'}
                   value={currentMessage}
                   onChange={(e) => setCurrentMessage(e.target.value)}
                   onKeyPress={handleKeyPress}
@@ -561,14 +1085,70 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {generatedBy.length > 0 && (
+              <Badge
+                variant="secondary"
+                className="text-xs bg-gray-100 text-gray-700 border border-gray-200 rounded-md"
+                title={generatedBy.map(source => `${source.provider}: ${source.model}${source.prompt ? ` (prompt ${source.prompt.id}@${source.prompt.version})` : ''}`).join(', ')}
+              >
+                via {Array.from(new Set(generatedBy.map(source => source.provider === 'fallback' ? 'built-in template' : source.provider))).join(', ')}
+              </Badge>
+            )}
+            {failedScreens.length > 0 && wireframeProject?.sourceArchitecture && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRetryFailedScreens}
+                disabled={isGenerating}
+                className="h-7 text-xs border-amber-200 bg-amber-50 text-amber-800 hover:bg-amber-100"
+                title={failedScreens.map(screen => `${screen.name}: ${screen.generationError}`).join('\n')}
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                Retry {failedScreens.length} failed
+              </Button>
+            )}
+            {selectedScreen && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setComparingScreenId(selectedScreen.sourceScreenId || selectedScreen.id)}
+                className="h-7 text-xs"
+              >
+                <Columns3 className="w-3 h-3 mr-1" />
+                Compare devices
+              </Button>
+            )}
+            {wireframeProject && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCodeOpen(true)}
+                className="h-7 text-xs"
+              >
+                <Code className="w-3 h-3 mr-1" />
+                React code
+              </Button>
+            )}
             {wireframeFlow && (
               <Badge variant="secondary" className="text-xs bg-gray-100 text-gray-700 border border-gray-200 rounded-md">
-                {wireframeFlow.nodes.length} screen{wireframeFlow.nodes.length !== 1 ? 's' : ''}
+                {visibleNodeCount} screen{visibleNodeCount !== 1 ? 's' : ''}
               </Badge>
             )}
-            <div className="flex items-center gap-1">
-              {getDeviceIcon(selectedDevice)}
-              <span className="text-sm text-gray-600 capitalize">{selectedDevice}</span>
+            <div className="flex items-center gap-1 p-0.5 bg-gray-50 rounded-md border border-gray-200" role="group" aria-label="Device">
+              {Object.values(DeviceType).map(device => (
+                <Button
+                  key={device}
+                  variant={selectedDevice === device ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => { setSelectedDevice(device); setSelectedScreenId(null); }}
+                  className={`h-7 px-2 text-xs capitalize ${projectDevices.includes(device) || selectedDevice === device ? '' : 'text-gray-400'}`}
+                  title={projectDevices.includes(device) ? `Show ${device} screens` : `No ${device} screens yet`}
+                  aria-pressed={selectedDevice === device}
+                >
+                  {getDeviceIcon(device)}
+                  <span className="ml-1">{device}</span>
+                </Button>
+              ))}
             </div>
           </div>
         </div>
@@ -579,6 +1159,11 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
             <WireframeDiagram 
               flow={wireframeFlow}
               onFlowChange={setWireframeFlow}
+              onScreenSelect={setSelectedScreenId}
+              onScreenEdit={handleScreenEdit}
+              onScreenRegenerate={wireframeProject?.sourceArchitecture ? handleScreenRegenerate : undefined}
+              onScreenVariations={wireframeProject?.sourceArchitecture ? handleScreenVariations : undefined}
+              regeneratingScreenId={regeneratingScreenId}
               editable={true}
               selectedDevice={selectedDevice}
             />
@@ -592,8 +1177,54 @@ export default function WireframeStudio({ sourceArchitecture, onBack }: Wirefram
               </div>
             </div>
           )}
+
+          {/* Devices the project has no screens for can be generated on demand */}
+          {wireframeProject && !isGenerating && deviceScreens.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/80">
+              <div className="text-center space-y-4">
+                <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 inline-block">
+                  {getDeviceIcon(selectedDevice)}
+                </div>
+                <p className="text-gray-600 text-sm">No {selectedDevice} wireframes yet</p>
+                {wireframeProject.sourceArchitecture && (
+                  <Button size="sm" onClick={() => handleGenerateScreens(selectedDevice)}>
+                    <Wand2 className="w-4 h-4 mr-1" />
+                    Generate {selectedDevice} wireframes
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
+
+      <WireframeDeviceComparison
+        name={comparedVariants[0]?.name || null}
+        variants={comparedVariants}
+        isGenerating={isGenerating}
+        onGenerateDevice={wireframeProject?.sourceArchitecture ? handleCompareGenerate : undefined}
+        onClose={() => setComparingScreenId(null)}
+      />
+
+      <WireframeVariationsDialog
+        screen={variationChoice?.screen || null}
+        variations={variationChoice?.variations || []}
+        onPick={handlePickVariation}
+        onClose={() => setVariationChoice(null)}
+      />
+
+      <WireframeScreenEditor
+        screen={editingScreen}
+        onSave={handleSaveEditedScreen}
+        onClose={() => setEditingScreen(null)}
+      />
+
+      <WireframeCodeDialog
+        project={wireframeProject}
+        open={isCodeOpen}
+        initialScreenId={selectedScreenId}
+        onClose={() => setIsCodeOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -74,7 +74,7 @@ const getNodeColor = (method?: HttpMethod) => {
   }
 };
 
-export default function ApiNode({ data, selected }: NodeProps<ApiNodeData>) {
+export default function ApiNode({ data, selected, targetPosition = Position.Left, sourcePosition = Position.Right }: NodeProps<ApiNodeData>) {
   const handleMenuClick = (event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -95,7 +95,7 @@ export default function ApiNode({ data, selected }: NodeProps<ApiNodeData>) {
     <div className="min-w-[240px] max-w-[300px] group">
       <Handle 
         type="target" 
-        position={Position.Left} 
+        position={targetPosition} 
         className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
       />
       
@@ -144,7 +144,7 @@ export default function ApiNode({ data, selected }: NodeProps<ApiNodeData>) {
 
       <Handle 
         type="source" 
-        position={Position.Right} 
+        position={sourcePosition} 
         className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
       />
     </div>
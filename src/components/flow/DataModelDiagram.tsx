@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo } from 'react';
+import ReactFlow, {
+  Node,
+  Edge,
+  NodeTypes,
+  MarkerType,
+  ReactFlowProvider,
+  Controls,
+  Background,
+  BackgroundVariant,
+  useNodesState,
+  useEdgesState,
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, RefreshCw, Sparkles, Table2 } from 'lucide-react';
+
+import EntityNode from './EntityNode';
+import { DataModelExporter } from '@/lib/data-model-exporter';
+import { DataEntity, DataModel, RelationCardinality, Screen } from '@/types/app-architecture';
+
+const nodeTypes: NodeTypes = {
+  entity: EntityNode,
+};
+
+const CARDINALITY_LABELS: Record<RelationCardinality, string> = {
+  [RelationCardinality.ONE_TO_ONE]: '1 : 1',
+  [RelationCardinality.ONE_TO_MANY]: '1 : n',
+  [RelationCardinality.MANY_TO_MANY]: 'n : m',
+};
+
+// Rough entity card size, for placing entities that have no saved position
+const ENTITY_WIDTH = 280;
+const HEADER_HEIGHT = 70;
+const FIELD_HEIGHT = 22;
+const GAP = 80;
+
+/**
+ * Positions for entities without one, filled into the shortest of a few
+ * columns to the right of any entities that were already placed
+ */
+function layoutEntities(entities: DataEntity[]): Record<string, { x: number; y: number }> {
+  const placed = entities.filter(entity => entity.position);
+  const unplaced = entities.filter(entity => !entity.position);
+  const originX = placed.length > 0 ? Math.max(...placed.map(entity => entity.position!.x)) + ENTITY_WIDTH + GAP : 0;
+  const heights = new Array(Math.max(1, Math.ceil(Math.sqrt(unplaced.length)))).fill(0);
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  placed.forEach(entity => {
+    positions[entity.id] = entity.position!;
+  });
+  unplaced.forEach(entity => {
+    const column = heights.indexOf(Math.min(...heights));
+    positions[entity.id] = { x: originX + column * (ENTITY_WIDTH + GAP), y: heights[column] };
+    heights[column] += HEADER_HEIGHT + entity.fields.length * FIELD_HEIGHT + GAP;
+  });
+  return positions;
+}
+
+interface DataModelDiagramProps {
+  dataModel: DataModel;
+  screens: Screen[];
+  appName: string;
+  isGenerating?: boolean;
+  onChange: (dataModel: DataModel) => void;
+  onReinfer: () => void; // Infer again from the screens and endpoints
+  onGenerateWithAI: () => void;
+}
+
+function DataModelDiagram({
+  dataModel,
+  screens,
+  appName,
+  isGenerating = false,
+  onChange,
+  onReinfer,
+  onGenerateWithAI,
+}: DataModelDiagramProps) {
+  const [nodes, setNodes, onNodesChange] = useNodesState([]);
+  const [edges, setEdges] = useEdgesState([]);
+
+  const entityNodes: Node[] = useMemo(() => {
+    const positions = layoutEntities(dataModel.entities);
+    return dataModel.entities.map(entity => ({
+      id: entity.id,
+      type: 'entity',
+      position: positions[entity.id],
+      data: {
+        label: entity.name,
+        description: entity.description,
+        fields: entity.fields,
+        foreignKeys: dataModel.relations
+          .filter(relation => relation.to === entity.id && relation.foreignKey)
+          .map(relation => relation.foreignKey as string),
+        screenNames: entity.sourceScreens
+          .map(id => screens.find(screen => screen.id === id)?.name)
+          .filter((name): name is string => !!name),
+      },
+    }));
+  }, [dataModel, screens]);
+
+  const relationEdges: Edge[] = useMemo(() => {
+    return dataModel.relations.map(relation => ({
+      id: relation.id,
+      source: relation.from,
+      target: relation.to,
+      type: 'smoothstep',
+      label: relation.foreignKey
+        ? `${CARDINALITY_LABELS[relation.cardinality]} · ${relation.foreignKey}`
+        : CARDINALITY_LABELS[relation.cardinality],
+      labelStyle: { fontSize: 11, fill: '#374151' },
+      labelBgStyle: { fill: '#ffffff' },
+      markerEnd: { type: MarkerType.ArrowClosed, color: '#6b7280' },
+      style: { stroke: '#6b7280', strokeWidth: 1.5 },
+    }));
+  }, [dataModel.relations]);
+
+  useEffect(() => {
+    setNodes(entityNodes);
+    setEdges(relationEdges);
+  }, [entityNodes, relationEdges, setNodes, setEdges]);
+
+  // Save where entities were dropped so the layout survives reloads
+  const handleNodeDragStop = useCallback((_: React.MouseEvent, node: Node) => {
+    onChange({
+      ...dataModel,
+      entities: dataModel.entities.map(entity =>
+        entity.id === node.id ? { ...entity, position: node.position } : entity
+      ),
+    });
+  }, [dataModel, onChange]);
+
+  const download = useCallback((content: string, fileName: string) => {
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', 'data:text/plain;charset=utf-8,' + encodeURIComponent(content));
+    linkElement.setAttribute('download', fileName);
+    linkElement.click();
+  }, []);
+
+  const fileName = appName.toLowerCase().replace(/\s+/g, '-');
+
+  return (
+    <div className="relative w-full h-full">
+      <div className="absolute top-3 left-3 z-10 flex items-center gap-2 bg-white border border-gray-200 rounded-lg shadow-sm p-1">
+        <Button variant="ghost" size="sm" onClick={onReinfer} disabled={isGenerating} className="h-7 px-2 text-xs" title="Infer again from form fields, lists and endpoint schemas">
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Re-infer
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onGenerateWithAI} disabled={isGenerating} className="h-7 px-2 text-xs">
+          {isGenerating ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Sparkles className="w-3 h-3 mr-1" />}
+          Refine with AI
+        </Button>
+        <div className="w-px h-5 bg-gray-200" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => download(DataModelExporter.toSql(dataModel, appName), `${fileName}-schema.sql`)}
+          disabled={dataModel.entities.length === 0}
+          className="h-7 px-2 text-xs"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          SQL
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => download(DataModelExporter.toPrisma(dataModel, appName), `${fileName}-schema.prisma`)}
+          disabled={dataModel.entities.length === 0}
+          className="h-7 px-2 text-xs"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          Prisma
+        </Button>
+      </div>
+
+      {dataModel.entities.length === 0 ? (
+        <div className="flex items-center justify-center h-full bg-white">
+          <div className="text-center space-y-4 max-w-sm">
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 inline-block">
+              <Table2 className="w-8 h-8 text-gray-400 mx-auto" />
+            </div>
+            <p className="text-gray-600 text-sm">
+              No entities found. Screens need form fields, list items or endpoint schemas to infer them from, or let the AI suggest a model.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodesChange={onNodesChange}
+          onNodeDragStop={handleNodeDragStop}
+          nodeTypes={nodeTypes}
+          nodesConnectable={false}
+          fitView
+          fitViewOptions={{ padding: 0.2, maxZoom: 1 }}
+          minZoom={0.1}
+          maxZoom={1.5}
+        >
+          <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#d1d5db" className="bg-gray-50" />
+          <Controls position="bottom-right" showInteractive={false} />
+        </ReactFlow>
+      )}
+    </div>
+  );
+}
+
+export default function DataModelDiagramWithProvider(props: DataModelDiagramProps) {
+  return (
+    <ReactFlowProvider>
+      <DataModelDiagram {...props} />
+    </ReactFlowProvider>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { Handle, Position, NodeProps } from 'reactflow';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DataField } from '@/types/app-architecture';
+import { KeyRound, Link2, Table2 } from 'lucide-react';
+
+interface EntityNodeData {
+  label: string;
+  description?: string;
+  fields: DataField[];
+  foreignKeys: string[]; // Field names that refer to another entity
+  screenNames: string[];
+}
+
+export default function EntityNode({ data, selected }: NodeProps<EntityNodeData>) {
+  return (
+    <div className="min-w-[220px] max-w-[280px]">
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm"
+      />
+
+      <Card className={`gap-0 py-0 border-gray-300 bg-white shadow-sm hover:shadow-md transition-all duration-200 ${
+        selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''
+      }`}>
+        <CardHeader className="px-3 py-2 [.border-b]:pb-2 border-b border-gray-200 bg-gray-50 rounded-t-xl">
+          <CardTitle className="text-sm font-medium flex items-center gap-2 text-gray-900" title={data.description}>
+            <Table2 className="w-4 h-4 text-gray-600" />
+            <span className="truncate">{data.label}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-0 py-1">
+          {data.fields.map(field => (
+            <div key={field.name} className="flex items-center gap-2 px-3 py-0.5 text-xs">
+              <span className="w-3 flex-shrink-0 text-gray-500">
+                {field.primaryKey ? (
+                  <KeyRound className="w-3 h-3 text-amber-600" aria-label="Primary key" />
+                ) : data.foreignKeys.includes(field.name) ? (
+                  <Link2 className="w-3 h-3 text-blue-600" aria-label="Foreign key" />
+                ) : null}
+              </span>
+              <span className={`flex-1 truncate font-mono ${field.primaryKey ? 'font-semibold text-gray-900' : 'text-gray-800'}`}>
+                {field.name}{field.required || field.primaryKey ? '' : '?'}
+              </span>
+              <span className="font-mono text-gray-500">
+                {field.type}{field.unique && !field.primaryKey ? ' · unique' : ''}
+              </span>
+            </div>
+          ))}
+          {data.screenNames.length > 0 && (
+            <p className="mt-1 px-3 py-1 border-t border-gray-100 text-[11px] text-gray-500 truncate" title={data.screenNames.join(', ')}>
+              Used by {data.screenNames.join(', ')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm"
+      />
+    </div>
+  );
+}
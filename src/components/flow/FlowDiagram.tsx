@@ -18,6 +18,7 @@ import ReactFlow, {
   useReactFlow,
   ReactFlowProvider,
   OnSelectionChangeParams,
+  Position,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
@@ -32,12 +33,15 @@ import NodeCreationPanel from './NodeCreationPanel';
 import EdgeContextMenu from './EdgeContextMenu';
 import SelectionToolbar from './SelectionToolbar';
 import QuickStartOverlay from './QuickStartOverlay';
-import { AppFlow, FlowNode, ScreenType, HttpMethod } from '@/types/app-architecture';
+import { FlowLayout } from '@/lib/flow-layout';
+import { AppFlow, FlowNode, ScreenType, HttpMethod, LayoutDirection } from '@/types/app-architecture';
 
 interface FlowDiagramProps {
   flow: AppFlow;
   onFlowChange?: (flow: AppFlow) => void;
   editable?: boolean;
+  highlightedNodes?: Record<string, 'error' | 'warning'>;
+  focusedNodeIds?: string[];
 }
 
 interface NodeTemplate {
@@ -56,6 +60,11 @@ const nodeTypes: NodeTypes = {
   end: StartEndNode,
 };
 
+const highlightClasses: Record<'error' | 'warning', string> = {
+  error: 'rounded-lg ring-2 ring-red-500 ring-offset-4',
+  warning: 'rounded-lg ring-2 ring-amber-400 ring-offset-4',
+};
+
 const edgeTypes = {
   default: CustomEdge,
   smoothstep: CustomEdge,
@@ -90,7 +99,9 @@ const defaultEdgeOptions = {
 function FlowDiagramInner({ 
   flow, 
   onFlowChange, 
-  editable = true 
+  editable = true,
+  highlightedNodes,
+  focusedNodeIds
 }: FlowDiagramProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState(flow.nodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(flow.edges);
@@ -175,14 +186,9 @@ function FlowDiagramInner({
       };
       
       saveToHistory();
-      const newEdges = addEdge(newEdge, edges);
-      setEdges(newEdges);
-      
-      if (onFlowChange) {
-        onFlowChange({ nodes, edges: newEdges });
-      }
+      setEdges(edges => addEdge(newEdge, edges));
     },
-    [edges, nodes, onFlowChange, editable, selectedTool, saveToHistory]
+    [editable, selectedTool, saveToHistory]
   );
 
   // Handle selection changes
@@ -215,6 +221,28 @@ function FlowDiagramInner({
     []
   );
 
+  // Re-run the layered layout over the whole canvas
+  const handleAutoArrange = useCallback(
+    (direction: LayoutDirection) => {
+      saveToHistory();
+      const positions = FlowLayout.layout(nodes, edges, { direction });
+      const [targetPosition, sourcePosition] = direction === 'LR'
+        ? [Position.Left, Position.Right]
+        : [Position.Top, Position.Bottom];
+
+      setNodes(nodes =>
+        nodes.map(node => ({
+          ...node,
+          position: positions[node.id] || node.position,
+          targetPosition,
+          sourcePosition
+        }))
+      );
+      setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 50);
+    },
+    [nodes, edges, setNodes, saveToHistory, reactFlowInstance]
+  );
+
   // Handle toolbar actions
   const handleToolbarAction = useCallback(
     (action: ToolbarAction) => {
@@ -261,11 +289,14 @@ function FlowDiagramInner({
         case 'show-help':
           setShowQuickStart(true);
           break;
+        case 'auto-arrange':
+          handleAutoArrange(action.layoutDirection || 'LR');
+          break;
         default:
           break;
       }
     },
-    [reactFlowInstance, showGrid, showMinimap]
+    [reactFlowInstance, showGrid, showMinimap, handleAutoArrange]
   );
 
   const handleDeleteSelected = useCallback(() => {
@@ -308,29 +339,14 @@ function FlowDiagramInner({
     setHistoryIndex(historyIndex + 1);
   }, [history, historyIndex]);
 
-  const handleNodesChange = useCallback(
-    (changes: any) => {
-      onNodesChange(changes);
-      if (onFlowChange) {
-        setTimeout(() => {
-          onFlowChange({ nodes, edges });
-        }, 0);
-      }
-    },
-    [onNodesChange, onFlowChange, nodes, edges]
-  );
+  // Report every canvas change (drags, dialogs, menus, undo) from one place,
+  // so the parent always sees the latest nodes and edges
+  const onFlowChangeRef = useRef(onFlowChange);
+  onFlowChangeRef.current = onFlowChange;
 
-  const handleEdgesChange = useCallback(
-    (changes: any) => {
-      onEdgesChange(changes);
-      if (onFlowChange) {
-        setTimeout(() => {
-          onFlowChange({ nodes, edges });
-        }, 0);
-      }
-    },
-    [onEdgesChange, onFlowChange, nodes, edges]
-  );
+  useEffect(() => {
+    onFlowChangeRef.current?.({ nodes, edges } as AppFlow);
+  }, [nodes, edges]);
 
   // Handle node context menu
   const handleNodeContextMenu = useCallback(
@@ -390,12 +406,8 @@ function FlowDiagramInner({
       
       saveToHistory();
       setNodes(nodes => [...nodes, newNode]);
-      
-      if (onFlowChange) {
-        onFlowChange({ nodes: [...nodes, newNode], edges });
-      }
     },
-    [nodes, edges, onFlowChange, saveToHistory]
+    [saveToHistory]
   );
 
   // Handle node editing
@@ -589,6 +601,26 @@ function FlowDiagramInner({
 
   const proOptions = useMemo(() => ({ hideAttribution: true }), []);
 
+  // Outline nodes with reported problems without touching the editable node state
+  const displayNodes = useMemo(
+    () => highlightedNodes
+      ? nodes.map(node => highlightedNodes[node.id]
+        ? { ...node, className: highlightClasses[highlightedNodes[node.id]] }
+        : node)
+      : nodes,
+    [nodes, highlightedNodes]
+  );
+
+  useEffect(() => {
+    if (!focusedNodeIds || focusedNodeIds.length === 0) return;
+    reactFlowInstance.fitView({
+      nodes: focusedNodeIds.map(id => ({ id })),
+      padding: 0.6,
+      maxZoom: 1,
+      duration: 300
+    });
+  }, [focusedNodeIds, reactFlowInstance]);
+
   return (
     <div className="h-full w-full bg-background rounded-lg border relative">
       {/* Toolbar */}
@@ -604,10 +636,10 @@ function FlowDiagramInner({
       />
       
       <ReactFlow
-        nodes={nodes}
+        nodes={displayNodes}
         edges={edges}
-        onNodesChange={handleNodesChange}
-        onEdgesChange={handleEdgesChange}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onSelectionChange={onSelectionChange}
         onNodeContextMenu={handleNodeContextMenu}
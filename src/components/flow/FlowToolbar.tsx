@@ -33,14 +33,18 @@ import {
   EyeOff,
   Move,
   RotateCcw,
-  HelpCircle
+  HelpCircle,
+  Network,
+  ArrowRight,
+  ArrowDown
 } from 'lucide-react';
-import { ScreenType, HttpMethod } from '@/types/app-architecture';
+import { ScreenType, HttpMethod, LayoutDirection } from '@/types/app-architecture';
 
 export interface ToolbarAction {
-  type: 'select' | 'pan' | 'add-screen' | 'add-api' | 'add-start' | 'add-end' | 'copy' | 'delete' | 'undo' | 'redo' | 'zoom-in' | 'zoom-out' | 'fit-view' | 'toggle-grid' | 'toggle-minimap' | 'show-help';
+  type: 'select' | 'pan' | 'add-screen' | 'add-api' | 'add-start' | 'add-end' | 'copy' | 'delete' | 'undo' | 'redo' | 'zoom-in' | 'zoom-out' | 'fit-view' | 'toggle-grid' | 'toggle-minimap' | 'show-help' | 'auto-arrange';
   screenType?: ScreenType;
   apiMethod?: HttpMethod;
+  layoutDirection?: LayoutDirection;
 }
 
 interface FlowToolbarProps {
@@ -72,6 +76,11 @@ const apiMethods = [
   { method: HttpMethod.DELETE, label: 'DELETE', color: 'text-red-600' },
 ];
 
+const layoutDirections = [
+  { direction: 'LR' as LayoutDirection, label: 'Left to right', icon: ArrowRight },
+  { direction: 'TB' as LayoutDirection, label: 'Top to bottom', icon: ArrowDown },
+];
+
 export default function FlowToolbar({
   selectedTool,
   onToolSelect,
@@ -84,6 +93,7 @@ export default function FlowToolbar({
 }: FlowToolbarProps) {
   const [showScreenTypes, setShowScreenTypes] = useState(false);
   const [showApiMethods, setShowApiMethods] = useState(false);
+  const [showLayoutOptions, setShowLayoutOptions] = useState(false);
 
   return (
     <div className="absolute top-4 left-4 z-10 bg-white rounded-lg shadow-lg border border-gray-200 p-2">
@@ -295,6 +305,41 @@ export default function FlowToolbar({
           >
             <Maximize className="w-4 h-4" />
           </Button>
+
+          <div className="relative">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowLayoutOptions(!showLayoutOptions)}
+              className="h-8 w-8 p-0"
+              title="Auto-arrange"
+            >
+              <Network className="w-4 h-4" />
+            </Button>
+
+            {showLayoutOptions && (
+              <div className="absolute top-full left-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-200 p-2 min-w-[160px] z-20">
+                <div className="text-xs font-medium text-gray-700 mb-2">Auto-arrange</div>
+                <div className="space-y-1">
+                  {layoutDirections.map(({ direction, label, icon: Icon }) => (
+                    <Button
+                      key={direction}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        onToolSelect({ type: 'auto-arrange', layoutDirection: direction });
+                        setShowLayoutOptions(false);
+                      }}
+                      className="h-7 w-full justify-start gap-2 text-xs"
+                    >
+                      <Icon className="w-3 h-3" />
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
 
         <Separator orientation="vertical" className="h-6 mx-1" />
@@ -84,7 +84,7 @@ const getScreenColor = (type?: ScreenType) => {
   }
 };
 
-export default function ScreenNode({ data, selected }: NodeProps<ScreenNodeData>) {
+export default function ScreenNode({ data, selected, targetPosition = Position.Left, sourcePosition = Position.Right }: NodeProps<ScreenNodeData>) {
   const handleMenuClick = (event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -112,7 +112,7 @@ export default function ScreenNode({ data, selected }: NodeProps<ScreenNodeData>
     <div className="min-w-[220px] max-w-[280px] group">
       <Handle 
         type="target" 
-        position={Position.Left} 
+        position={targetPosition} 
         className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
       />
       
@@ -154,7 +154,7 @@ export default function ScreenNode({ data, selected }: NodeProps<ScreenNodeData>
 
       <Handle 
         type="source" 
-        position={Position.Right} 
+        position={sourcePosition} 
         className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
       />
     </div>
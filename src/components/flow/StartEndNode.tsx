@@ -9,7 +9,7 @@ interface StartEndNodeData {
   isStart?: boolean;
 }
 
-export default function StartEndNode({ data, selected }: NodeProps<StartEndNodeData>) {
+export default function StartEndNode({ data, selected, targetPosition = Position.Left, sourcePosition = Position.Right }: NodeProps<StartEndNodeData>) {
   const isStart = data.isStart ?? data.label.toLowerCase().includes('start');
   
   return (
@@ -17,7 +17,7 @@ export default function StartEndNode({ data, selected }: NodeProps<StartEndNodeD
       {!isStart && (
         <Handle 
           type="target" 
-          position={Position.Left} 
+          position={targetPosition} 
           className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
         />
       )}
@@ -47,7 +47,7 @@ export default function StartEndNode({ data, selected }: NodeProps<StartEndNodeD
       {isStart && (
         <Handle 
           type="source" 
-          position={Position.Right} 
+          position={sourcePosition} 
           className="w-2 h-2 bg-gray-500 border-2 border-white shadow-sm" 
         />
       )}
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Check, Copy, Download, FileCode } from 'lucide-react';
+
+import { ReactCodeGenerator } from '@/lib/react-code-generator';
+import { WireframeProject } from '@/types/app-architecture';
+
+interface WireframeCodeDialogProps {
+  project: WireframeProject | null;
+  open: boolean;
+  initialScreenId?: string | null; // File shown first, e.g. the screen selected on the canvas
+  onClose: () => void;
+}
+
+export default function WireframeCodeDialog({
+  project,
+  open,
+  initialScreenId,
+  onClose
+}: WireframeCodeDialogProps) {
+  const files = useMemo(
+    () => (open && project ? ReactCodeGenerator.generateProject(project) : []),
+    [open, project]
+  );
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedPath(files.find(file => file.screenId === initialScreenId)?.path || files[0]?.path || null);
+    }
+  }, [open, files, initialScreenId]);
+
+  const selectedFile = files.find(file => file.path === selectedPath);
+
+  const handleCopy = async () => {
+    if (!selectedFile) return;
+    try {
+      await navigator.clipboard.writeText(selectedFile.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!project) return;
+    try {
+      const zip = await ReactCodeGenerator.exportZip(project);
+      const url = URL.createObjectURL(zip);
+      const linkElement = document.createElement('a');
+      linkElement.setAttribute('href', url);
+      linkElement.setAttribute('download', `${project.name.toLowerCase().replace(/\s+/g, '-')}-components.zip`);
+      linkElement.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error) {
+      console.error('Component export failed:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open && !!project} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>React components</DialogTitle>
+          <DialogDescription>
+            Each screen as a TypeScript component built from the shadcn/ui primitives, styled with Tailwind.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 flex-1 min-h-0">
+          <div className="w-60 flex-shrink-0 overflow-y-auto border border-gray-200 rounded-md p-1">
+            {files.map(file => (
+              <button
+                key={file.path}
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs ${
+                  file.path === selectedPath ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <FileCode className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{file.path}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-mono text-gray-600">{selectedFile?.path}</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopy} disabled={!selectedFile}>
+                  {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button size="sm" onClick={handleDownload} className="bg-blue-600 hover:bg-blue-700">
+                  <Download className="w-4 h-4 mr-1" />
+                  Download all
+                </Button>
+              </div>
+            </div>
+            <pre className="flex-1 overflow-auto rounded-md bg-gray-950 p-4 text-xs leading-relaxed text-gray-100 font-mono">
+              {selectedFile?.content}
+            </pre>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
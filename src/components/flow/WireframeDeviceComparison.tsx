@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Smartphone, Tablet, Monitor, Wand2 } from 'lucide-react';
+
+import WireframePreview from './WireframePreview';
+import { DeviceType, WireframeScreen } from '@/types/app-architecture';
+
+interface WireframeDeviceComparisonProps {
+  name: string | null;
+  variants: WireframeScreen[]; // The same screen on each device it has been generated for
+  isGenerating?: boolean;
+  onGenerateDevice?: (device: DeviceType) => void;
+  onClose: () => void;
+}
+
+const DEVICE_ICONS = {
+  [DeviceType.MOBILE]: Smartphone,
+  [DeviceType.TABLET]: Tablet,
+  [DeviceType.DESKTOP]: Monitor,
+};
+
+export default function WireframeDeviceComparison({
+  name,
+  variants,
+  isGenerating,
+  onGenerateDevice,
+  onClose
+}: WireframeDeviceComparisonProps) {
+  return (
+    <Dialog open={!!name} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{name} across devices</DialogTitle>
+          <DialogDescription>
+            The same screen as generated for each device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 items-start">
+          {Object.values(DeviceType).map(device => {
+            const variant = variants.find(screen => screen.device === device);
+            const Icon = DEVICE_ICONS[device];
+
+            return (
+              <div key={device} className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 text-sm font-medium text-gray-900 capitalize">
+                    <Icon className="w-4 h-4" />
+                    {device}
+                  </span>
+                  {variant && (
+                    <Badge variant="secondary" className="text-xs">{variant.components.length} components</Badge>
+                  )}
+                </div>
+                {variant ? (
+                  <>
+                    <WireframePreview screen={variant} />
+                    {variant.generationError && (
+                      <div className="flex items-center gap-2 text-xs text-amber-700">
+                        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                        Placeholder: {variant.generationError}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="flex flex-col items-center justify-center gap-3 rounded-md border border-dashed border-gray-300 p-6 text-center text-sm text-gray-500">
+                    Not generated for {device} yet
+                    {onGenerateDevice && (
+                      <Button size="sm" variant="outline" onClick={() => onGenerateDevice(device)} disabled={isGenerating}>
+                        <Wand2 className="w-4 h-4 mr-1" />
+                        Generate {device} screens
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
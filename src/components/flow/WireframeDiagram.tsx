@@ -38,6 +38,10 @@ interface WireframeDiagramProps {
   selectedDevice?: DeviceType;
   onScreenEdit?: (screen: WireframeScreen) => void;
   onScreenPreview?: (screen: WireframeScreen) => void;
+  onScreenSelect?: (screenId: string | null) => void;
+  onScreenRegenerate?: (screen: WireframeScreen) => void;
+  onScreenVariations?: (screen: WireframeScreen) => void;
+  regeneratingScreenId?: string | null;
 }
 
 function WireframeDiagram({
@@ -47,6 +51,10 @@ function WireframeDiagram({
   selectedDevice = DeviceType.MOBILE,
   onScreenEdit,
   onScreenPreview,
+  onScreenSelect,
+  onScreenRegenerate,
+  onScreenVariations,
+  regeneratingScreenId,
 }: WireframeDiagramProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
@@ -63,10 +71,13 @@ function WireframeDiagram({
         ...node.data,
         onEdit: onScreenEdit,
         onPreview: onScreenPreview,
+        onRegenerate: onScreenRegenerate,
+        onGenerateVariations: onScreenVariations,
+        isRegenerating: regeneratingScreenId === node.id,
       },
       selected: selectedNodes.includes(node.id),
     }));
-  }, [flow.nodes, selectedNodes, onScreenEdit, onScreenPreview]);
+  }, [flow.nodes, selectedNodes, onScreenEdit, onScreenPreview, onScreenRegenerate, onScreenVariations, regeneratingScreenId]);
 
   const reactFlowEdges: Edge[] = useMemo(() => {
     return flow.edges.map((edge) => ({
@@ -166,7 +177,8 @@ function WireframeDiagram({
   const onSelectionChange = useCallback((elements: any) => {
     const nodeIds = elements.nodes?.map((node: any) => node.id) || [];
     setSelectedNodes(nodeIds);
-  }, []);
+    onScreenSelect?.(nodeIds[0] || null);
+  }, [onScreenSelect]);
 
   // Filter nodes by device type if needed
   const filteredNodes = useMemo(() => {
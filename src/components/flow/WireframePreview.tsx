@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import WireframeComponent from './WireframeComponent';
+import { DeviceType, WireframeScreen } from '@/types/app-architecture';
+
+interface WireframePreviewProps {
+  screen: WireframeScreen;
+}
+
+// Full-size viewport each preview is scaled down from
+const getViewport = (device: DeviceType) => {
+  switch (device) {
+    case DeviceType.TABLET:
+      return { width: 768, height: 1024, scale: 0.3 };
+    case DeviceType.DESKTOP:
+      return { width: 1200, height: 800, scale: 0.2 };
+    default:
+      return { width: 320, height: 568, scale: 0.6 };
+  }
+};
+
+/**
+ * Static, scaled-down render of a screen for dialogs that show several side by side
+ */
+export default function WireframePreview({ screen }: WireframePreviewProps) {
+  const { width, height, scale } = getViewport(screen.device);
+
+  return (
+    <div
+      className="border border-gray-200 rounded-md overflow-hidden bg-white mx-auto"
+      style={{ width: width * scale, height: height * scale }}
+    >
+      <div
+        style={{
+          width,
+          height,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+          overflow: 'hidden',
+          backgroundColor: '#fafafa',
+        }}
+      >
+        {screen.components.map(component => (
+          <WireframeComponent
+            key={component.id}
+            component={component}
+            scale={1}
+            interactive={false}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Undo, Redo, Trash2, Plus, GripVertical } from 'lucide-react';
+
+import WireframePreview from './WireframePreview';
+import { WireframeEditor } from '@/lib/wireframe-editor';
+import {
+  ComponentType,
+  WireframeComponent,
+  WireframeComponentChanges,
+  WireframeEditOperation,
+  WireframeScreen
+} from '@/types/app-architecture';
+
+interface WireframeScreenEditorProps {
+  screen: WireframeScreen | null;
+  onSave: (screen: WireframeScreen) => void;
+  onClose: () => void;
+}
+
+// Always offered in the inspector; any other styles a component has are listed after these
+const STYLE_PROPERTIES = [
+  'display', 'flexDirection', 'justifyContent', 'alignItems', 'gap', 'padding', 'margin',
+  'width', 'height', 'minHeight', 'backgroundColor', 'color', 'border', 'borderRadius',
+  'fontSize', 'fontWeight', 'textAlign',
+];
+
+type DropPlacement = 'before' | 'after' | 'inside';
+
+const formatType = (type: ComponentType) => type.replace(/_/g, ' ');
+
+export default function WireframeScreenEditor({
+  screen,
+  onSave,
+  onClose
+}: WireframeScreenEditorProps) {
+  const [history, setHistory] = useState<WireframeScreen[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string | null; placement: DropPlacement } | null>(null);
+  const [propsError, setPropsError] = useState<string | null>(null);
+  const [newStyle, setNewStyle] = useState({ property: '', value: '' });
+
+  // Every screen opened starts a fresh history
+  useEffect(() => {
+    setHistory(screen ? [screen] : []);
+    setHistoryIndex(0);
+    setSelectedId(null);
+    setPropsError(null);
+  }, [screen]);
+
+  const current = history[historyIndex];
+  const selected = current && selectedId ? WireframeEditor.findComponent(current.components, selectedId) : null;
+  const canUndo = historyIndex > 0;
+  const canRedo = historyIndex < history.length - 1;
+
+  // Each change goes through the same operations as AI edits and becomes one undo step
+  const apply = useCallback((operation: WireframeEditOperation) => {
+    if (!current) return;
+    const next = WireframeEditor.applyEdit(current, { screenId: current.id, summary: '', operations: [operation] });
+    if (next === current) return;
+    setHistory(prev => [...prev.slice(0, historyIndex + 1), next]);
+    setHistoryIndex(historyIndex + 1);
+  }, [current, historyIndex]);
+
+  const handleUndo = useCallback(() => {
+    if (canUndo) setHistoryIndex(historyIndex - 1);
+  }, [canUndo, historyIndex]);
+
+  const handleRedo = useCallback(() => {
+    if (canRedo) setHistoryIndex(historyIndex + 1);
+  }, [canRedo, historyIndex]);
+
+  // Keyboard shortcuts, leaving text fields their own undo
+  useEffect(() => {
+    if (!screen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea')) return;
+      if (event.key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if (event.key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [screen, handleUndo, handleRedo]);
+
+  const update = (changes: WireframeComponentChanges) => {
+    if (selected) apply({ op: 'update_component', componentId: selected.id, changes });
+  };
+
+  // New components go inside the selected one, or at the end of the screen
+  const handleAdd = (type: ComponentType) => {
+    if (!current) return;
+    const component = WireframeEditor.createComponent(type);
+    apply({
+      op: 'add_component',
+      parentId: selected?.id ?? null,
+      index: selected ? selected.children.length : current.components.length,
+      component
+    });
+    setSelectedId(component.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    apply({ op: 'remove_component', componentId: selected.id });
+    setSelectedId(null);
+  };
+
+  // The top and bottom of a row drop beside it; the middle drops inside it
+  const handleDragOver = (event: React.DragEvent, componentId: string) => {
+    if (!draggingId || draggingId === componentId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    const placement: DropPlacement = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+    setDropTarget({ id: componentId, placement });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (current && draggingId && dropTarget) {
+      const operation: WireframeEditOperation | null = dropTarget.id
+        ? WireframeEditor.planMove(current.components, draggingId, dropTarget.id, dropTarget.placement)
+        : {
+            op: 'move_component',
+            componentId: draggingId,
+            parentId: null,
+            index: current.components.filter(component => component.id !== draggingId).length
+          };
+      if (operation) apply(operation);
+    }
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const commitProps = (value: string) => {
+    if (!selected) return;
+    if (!value.trim()) {
+      setPropsError(null);
+      if (selected.props) update({ props: undefined });
+      return;
+    }
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('Props must be a JSON object');
+      }
+      setPropsError(null);
+      update({ props: parsed as Record<string, unknown> });
+    } catch (error) {
+      setPropsError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  const addStyle = () => {
+    const property = newStyle.property.trim();
+    if (!property || !newStyle.value.trim()) return;
+    update({ styles: { [property]: newStyle.value.trim() } });
+    setNewStyle({ property: '', value: '' });
+  };
+
+  const renderTree = (components: WireframeComponent[], depth = 0): React.ReactNode =>
+    components.map(component => {
+      const isDropTarget = dropTarget?.id === component.id;
+      return (
+        <div key={component.id}>
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(component.id);
+            }}
+            onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+            onDragOver={(e) => handleDragOver(e, component.id)}
+            onDrop={handleDrop}
+            onClick={() => setSelectedId(component.id)}
+            className={`flex items-center gap-1 py-1 pr-2 text-xs rounded cursor-pointer border ${
+              selectedId === component.id ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50 text-gray-700'
+            } ${isDropTarget && dropTarget.placement === 'inside' ? 'border-blue-400' : 'border-transparent'} ${
+              isDropTarget && dropTarget.placement === 'before' ? 'border-t-blue-400' : ''
+            } ${isDropTarget && dropTarget.placement === 'after' ? 'border-b-blue-400' : ''} ${
+              draggingId === component.id ? 'opacity-50' : ''
+            }`}
+            style={{ paddingLeft: depth * 12 + 4 }}
+          >
+            <GripVertical className="w-3 h-3 text-gray-400 flex-shrink-0" />
+            <span className="font-medium capitalize">{formatType(component.type)}</span>
+            <span className="text-gray-400">&lt;{component.tag}&gt;</span>
+            {component.content && <span className="truncate text-gray-500">{component.content}</span>}
+          </div>
+          {component.children.length > 0 && renderTree(component.children, depth + 1)}
+        </div>
+      );
+    });
+
+  const extraStyles = selected ? Object.keys(selected.styles).filter(property => !STYLE_PROPERTIES.includes(property)) : [];
+  // Inputs remount on every history step so undo and redo show the restored values
+  const fieldKey = (name: string) => `${selectedId}-${historyIndex}-${name}`;
+
+  return (
+    <Dialog open={!!screen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Edit {screen?.name}</DialogTitle>
+          <DialogDescription>
+            Drag components in the outline to reorder them or move them into another component.
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && (
+          <div className="flex gap-4 min-h-0 flex-1 overflow-hidden">
+            {/* Outline and palette */}
+            <div className="w-64 flex-shrink-0 flex flex-col gap-3 min-h-0">
+              <div className="flex items-center gap-1">
+                <Button variant="outline" size="sm" onClick={handleUndo} disabled={!canUndo} className="h-7 w-7 p-0" title="Undo (Ctrl+Z)">
+                  <Undo className="w-3 h-3" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleRedo} disabled={!canRedo} className="h-7 w-7 p-0" title="Redo (Ctrl+Y)">
+                  <Redo className="w-3 h-3" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDelete} disabled={!selected} className="h-7 w-7 p-0" title="Delete component">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+
+              <div className="flex-1 min-h-0 overflow-y-auto border border-gray-200 rounded-md p-1">
+                {current.components.length > 0
+                  ? renderTree(current.components)
+                  : <p className="p-2 text-xs text-gray-500">No components yet. Add one from the palette.</p>}
+                {/* Dropping here moves a component to the end of the screen */}
+                <div
+                  onDragOver={(e) => {
+                    if (!draggingId) return;
+                    e.preventDefault();
+                    setDropTarget({ id: null, placement: 'after' });
+                  }}
+                  onDrop={handleDrop}
+                  className={`h-6 rounded ${draggingId && dropTarget?.id === null ? 'bg-blue-50 border border-dashed border-blue-300' : ''}`}
+                />
+              </div>
+
+              <div>
+                <Label className="text-xs text-gray-500">
+                  Add {selected ? `inside ${formatType(selected.type)}` : 'to screen'}
+                </Label>
+                <div className="mt-1 flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                  {Object.values(ComponentType).map(type => (
+                    <Button
+                      key={type}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAdd(type)}
+                      className="h-6 px-2 text-xs capitalize"
+                    >
+                      <Plus className="w-3 h-3 mr-0.5" />
+                      {formatType(type)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="flex-1 min-w-0 overflow-auto bg-gray-50 rounded-md p-4">
+              <WireframePreview screen={current} />
+            </div>
+
+            {/* Inspector */}
+            <div className="w-72 flex-shrink-0 overflow-y-auto space-y-3 pr-1">
+              {selected ? (
+                <>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Type</Label>
+                    <Select value={selected.type} onValueChange={(value) => update({ type: value as ComponentType })}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(ComponentType).map(type => (
+                          <SelectItem key={type} value={type} className="text-xs capitalize">{formatType(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Tag</Label>
+                    <Input
+                      key={fieldKey('tag')}
+                      defaultValue={selected.tag}
+                      onBlur={(e) => e.target.value.trim() !== selected.tag && update({ tag: e.target.value.trim() || 'div' })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Content</Label>
+                    <Textarea
+                      key={fieldKey('content')}
+                      defaultValue={selected.content || ''}
+                      onBlur={(e) => e.target.value !== (selected.content || '') && update({ content: e.target.value || undefined })}
+                      className="min-h-[60px] text-xs"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Placeholder</Label>
+                    <Input
+                      key={fieldKey('placeholder')}
+                      defaultValue={selected.placeholder || ''}
+                      onBlur={(e) => e.target.value !== (selected.placeholder || '') && update({ placeholder: e.target.value || undefined })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Styles</Label>
+                    <div className="space-y-1">
+                      {[...STYLE_PROPERTIES, ...extraStyles].map(property => (
+                        <div key={property} className="flex items-center gap-2">
+                          <span className="w-28 flex-shrink-0 truncate text-xs text-gray-600" title={property}>{property}</span>
+                          <Input
+                            key={fieldKey(`style-${property}`)}
+                            defaultValue={selected.styles[property] ?? ''}
+                            onBlur={(e) => e.target.value !== String(selected.styles[property] ?? '') && update({ styles: { [property]: e.target.value.trim() } })}
+                            className="h-7 text-xs"
+                          />
+                        </div>
+                      ))}
+                      <div className="flex items-center gap-1 pt-1">
+                        <Input
+                          value={newStyle.property}
+                          onChange={(e) => setNewStyle(prev => ({ ...prev, property: e.target.value }))}
+                          placeholder="property"
+                          className="h-7 text-xs"
+                        />
+                        <Input
+                          value={newStyle.value}
+                          onChange={(e) => setNewStyle(prev => ({ ...prev, value: e.target.value }))}
+                          onKeyDown={(e) => e.key === 'Enter' && addStyle()}
+                          placeholder="value"
+                          className="h-7 text-xs"
+                        />
+                        <Button variant="outline" size="sm" onClick={addStyle} className="h-7 w-7 p-0 flex-shrink-0" title="Add style">
+                          <Plus className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Props (JSON)</Label>
+                    <Textarea
+                      key={fieldKey('props')}
+                      defaultValue={selected.props ? JSON.stringify(selected.props, null, 2) : ''}
+                      onBlur={(e) => commitProps(e.target.value)}
+                      placeholder='{ "aria-label": "Search" }'
+                      className="min-h-[80px] font-mono text-xs"
+                    />
+                    {propsError && <p className="text-xs text-red-600">{propsError}</p>}
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">Select a component in the outline to edit it.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => current && onSave(current)}
+            disabled={!canUndo}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
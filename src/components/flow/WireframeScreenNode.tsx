@@ -11,7 +11,9 @@ import {
   Edit3, 
   Eye, 
   MoreVertical,
-  Maximize2
+  Maximize2,
+  RefreshCw,
+  Layers
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,12 +25,15 @@ interface WireframeScreenNodeProps {
     label: string;
     onEdit?: (screen: WireframeScreen) => void;
     onPreview?: (screen: WireframeScreen) => void;
+    onRegenerate?: (screen: WireframeScreen) => void;
+    onGenerateVariations?: (screen: WireframeScreen) => void;
+    isRegenerating?: boolean;
   };
   selected?: boolean;
 }
 
 export default function WireframeScreenNode({ data, selected }: WireframeScreenNodeProps) {
-  const { screen, device, onEdit, onPreview } = data;
+  const { screen, device, onEdit, onPreview, onRegenerate, onGenerateVariations, isRegenerating } = data;
   const [isHovered, setIsHovered] = useState(false);
   const [showFullPreview, setShowFullPreview] = useState(false);
 
@@ -98,8 +103,32 @@ export default function WireframeScreenNode({ data, selected }: WireframeScreenN
             <Badge variant="secondary" className="text-xs px-2 py-0.5">
               {device}
             </Badge>
-            {(isHovered || selected) && (
+            {(isHovered || selected || isRegenerating) && (
               <div className="flex items-center gap-1">
+                {onRegenerate && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 hover:bg-gray-100"
+                    onClick={() => onRegenerate(screen)}
+                    disabled={isRegenerating}
+                    title="Regenerate"
+                  >
+                    <RefreshCw className={`w-3 h-3 ${isRegenerating ? 'animate-spin' : ''}`} />
+                  </Button>
+                )}
+                {onGenerateVariations && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 hover:bg-gray-100"
+                    onClick={() => onGenerateVariations(screen)}
+                    disabled={isRegenerating}
+                    title="Generate 3 variations"
+                  >
+                    <Layers className="w-3 h-3" />
+                  </Button>
+                )}
                 <Button
                   size="sm"
                   variant="ghost"
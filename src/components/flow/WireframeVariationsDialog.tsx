@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Check } from 'lucide-react';
+
+import WireframePreview from './WireframePreview';
+import { WireframeScreen } from '@/types/app-architecture';
+
+interface WireframeVariationsDialogProps {
+  screen: WireframeScreen | null;
+  variations: WireframeScreen[];
+  onPick: (variation: WireframeScreen) => void;
+  onClose: () => void;
+}
+
+export default function WireframeVariationsDialog({
+  screen,
+  variations,
+  onPick,
+  onClose
+}: WireframeVariationsDialogProps) {
+  if (!screen) return null;
+
+  return (
+    <Dialog open={variations.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Variations of {screen.name}</DialogTitle>
+          <DialogDescription>
+            Pick a variation to replace the screen. It keeps its place and connections on the canvas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${variations.length + 1}, minmax(0, 1fr))` }}>
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">Current</span>
+              <Badge variant="secondary" className="text-xs">{screen.components.length} components</Badge>
+            </div>
+            <WireframePreview screen={screen} />
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Keep current
+            </Button>
+          </div>
+
+          {variations.map((variation, index) => (
+            <div key={index} className="flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">Variation {index + 1}</span>
+                {!variation.generationError && (
+                  <Badge variant="secondary" className="text-xs">{variation.components.length} components</Badge>
+                )}
+              </div>
+              {variation.generationError ? (
+                <div className="flex flex-1 items-center justify-center gap-2 rounded-md border border-red-200 bg-red-50 p-4 text-xs text-red-700">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {variation.generationError}
+                </div>
+              ) : (
+                <WireframePreview screen={variation} />
+              )}
+              <Button
+                size="sm"
+                onClick={() => onPick(variation)}
+                disabled={!!variation.generationError}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Use this
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ArchitecturePatchChange, PatchStatus } from '@/types/app-architecture';
+import { Check, X, Plus, Minus, Pencil } from 'lucide-react';
+
+export interface PatchPreviewProps {
+  changes: ArchitecturePatchChange[];
+  status: PatchStatus;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const TARGET_LABELS: Record<ArchitecturePatchChange['target'], string> = {
+  screen: 'Screen',
+  transition: 'Flow',
+  api: 'API'
+};
+
+const getChangeStyle = (kind: ArchitecturePatchChange['kind']) => {
+  switch (kind) {
+    case 'add':
+      return { icon: <Plus className="w-3 h-3" />, className: 'bg-green-50 text-green-800 border-green-200' };
+    case 'remove':
+      return { icon: <Minus className="w-3 h-3" />, className: 'bg-red-50 text-red-800 border-red-200' };
+    default:
+      return { icon: <Pencil className="w-3 h-3" />, className: 'bg-amber-50 text-amber-800 border-amber-200' };
+  }
+};
+
+export default function PatchPreview({ changes, status, onAccept, onReject }: PatchPreviewProps) {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="space-y-1">
+        {changes.map((change, index) => {
+          const style = getChangeStyle(change.kind);
+          return (
+            <div
+              key={index}
+              className={`flex items-center gap-2 px-2 py-1 rounded border text-xs ${style.className} ${
+                status === 'rejected' || status === 'stale' ? 'opacity-50 line-through' : ''
+              }`}
+            >
+              {style.icon}
+              <span className="font-medium">{TARGET_LABELS[change.target]}</span>
+              <span className="truncate">{change.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {status === 'pending' ? (
+        <div className="flex gap-2">
+          <Button size="sm" className="h-7 text-xs" onClick={onAccept}>
+            <Check className="w-3 h-3 mr-1" />
+            Apply changes
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onReject}>
+            <X className="w-3 h-3 mr-1" />
+            Discard
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {status === 'accepted'
+            ? 'Changes applied to the flow'
+            : status === 'stale'
+              ? 'The flow has changed since this was suggested. Ask again to redo it.'
+              : 'Changes discarded'}
+        </p>
+      )}
+    </div>
+  );
+}
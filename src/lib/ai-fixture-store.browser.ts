@@ -0,0 +1,15 @@
+// Browser stand-in for ai-fixture-store.ts, aliased in next.config.ts.
+// Recording and replay read and write fixture files, so they only run on the server.
+export class AIFixtureStore {
+  static async key(): Promise<string> {
+    throw new Error('AI fixtures are only available on the server');
+  }
+
+  static async read(): Promise<null> {
+    throw new Error('AI fixtures are only available on the server');
+  }
+
+  static async write(): Promise<void> {
+    throw new Error('AI fixtures are only available on the server');
+  }
+}
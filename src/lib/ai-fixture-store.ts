@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AIProvider, GenerateTextOptions } from './ai-providers';
+
+const FIXTURES_DIR = process.env.AI_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'ai');
+
+export interface AIFixture {
+  key: string;
+  prompt: string;
+  system?: string;
+  responseFormat?: string;
+  text: string;
+  provider: AIProvider;
+  model: string;
+  recordedAt: string;
+}
+
+/**
+ * Recorded prompt→response pairs, one JSON file per prompt hash, used by the
+ * `replay` provider and written when `AI_RECORD=true`
+ */
+export class AIFixtureStore {
+  /**
+   * Fixtures are keyed by everything that shapes the response text: the
+   * prompt, system prompt and requested response format. Sampling settings
+   * are left out so a route can be retuned without re-recording.
+   */
+  static async key(prompt: string, options: GenerateTextOptions): Promise<string> {
+    const input = JSON.stringify({ prompt, system: options.system || null, format: options.responseFormat?.name || null });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  static async read(key: string): Promise<AIFixture | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf-8');
+      return JSON.parse(content) as AIFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  static async write(fixture: AIFixture): Promise<void> {
+    await fs.mkdir(FIXTURES_DIR, { recursive: true });
+    await fs.writeFile(this.filePath(fixture.key), JSON.stringify(fixture, null, 2), 'utf-8');
+  }
+
+  private static filePath(key: string): string {
+    return path.join(FIXTURES_DIR, `${key}.json`);
+  }
+}
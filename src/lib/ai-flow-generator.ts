@@ -10,136 +10,121 @@ import {
   AppFlow,
   FlowNode,
   FlowEdge,
-  NavigationPattern
+  NavigationPattern,
+  NormalizationFallback,
+  ArchitectureStreamEvent
 } from '@/types/app-architecture';
-import { createAIService } from './ai-providers';
+import { SpecializedAIService, FALLBACK_SOURCE } from './specialized-ai-services';
+import { ARCHITECTURE_FORMAT } from './structured-output';
+import { PromptOptions, PromptRegistry } from './prompt-registry';
+import { ArchitectureStreamParser } from './architecture-stream-parser';
+import { FlowLayout } from './flow-layout';
+
+// Returns and shortcuts between screens, drawn lighter than the main flow
+const SECONDARY_EDGE_STYLE = { stroke: '#9ca3af', strokeWidth: 1.5, strokeDasharray: '6 4' };
 
 export class AIFlowGenerator {
   /**
-   * Generate app architecture from a user goal description
+   * Generate app architecture from a user goal description.
+   * When `onEvent` is given the model response is streamed and each parsed
+   * screen and transition is reported as soon as it is complete.
    */
-  static async generateArchitecture(goal: string): Promise<AppArchitecture> {
+  static async generateArchitecture(
+    goal: string,
+    onEvent?: (event: ArchitectureStreamEvent) => void,
+    promptOptions?: PromptOptions
+  ): Promise<AppArchitecture> {
     try {
       // Try AI generation first
-      const aiService = createAIService();
-      const aiResponse = await this.generateWithAI(aiService, goal);
+      const aiResponse = await this.generateWithAI(goal, onEvent, promptOptions);
+      onEvent?.({ type: 'normalized', architecture: aiResponse });
       return aiResponse;
     } catch (error) {
       console.warn('AI generation failed, falling back to mock analysis:', error);
       // Fallback to mock implementation if AI fails
-      return this.generateMockArchitecture(goal);
+      const mockArchitecture = this.generateMockArchitecture(goal);
+      mockArchitecture.metadata.generatedBy = SpecializedAIService.fallbackSource(error);
+      if (onEvent) {
+        mockArchitecture.screens.forEach((screen, index) => onEvent({ type: 'screen', index, screen }));
+        mockArchitecture.transitions.forEach((transition, index) => onEvent({ type: 'transition', index, transition }));
+        onEvent({ type: 'normalized', architecture: mockArchitecture });
+      }
+      return mockArchitecture;
     }
   }
 
   /**
    * Generate architecture using AI
    */
-  private static async generateWithAI(aiService: any, goal: string): Promise<AppArchitecture> {
-    const prompt = this.buildArchitecturePrompt(goal);
-    const response = await aiService.generateText(prompt);
-    
-    try {
-      // Clean response of markdown code blocks and whitespace
-      const cleanResponse = response
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .replace(/^[\s\n]*/, '')
-        .replace(/[\s\n]*$/, '');
-      
-      console.log('Cleaned AI response:', cleanResponse.substring(0, 200) + '...');
-      const parsed = JSON.parse(cleanResponse);
-      return this.validateAndNormalizeArchitecture(parsed, goal);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      console.error('Raw response:', response.substring(0, 500));
-      throw new Error('AI returned invalid JSON');
-    }
+  private static async generateWithAI(
+    goal: string,
+    onEvent?: (event: ArchitectureStreamEvent) => void,
+    promptOptions?: PromptOptions
+  ): Promise<AppArchitecture> {
+    const prompt = await PromptRegistry.render(
+      SpecializedAIService.usesCompactPrompts('architecture') ? 'architecture-compact' : 'architecture',
+      { goal },
+      promptOptions
+    );
+    const { data, provider, model, usage } = await SpecializedAIService.generateStructured(
+      'architecture',
+      prompt.text,
+      ARCHITECTURE_FORMAT,
+      onEvent ? { onToken: this.createStreamHandler(onEvent) } : {}
+    );
+
+    const architecture = this.validateAndNormalizeArchitecture(data, goal);
+    return { ...architecture, metadata: { ...architecture.metadata, generatedBy: { provider, model, prompt: prompt.ref, usage } } };
   }
 
   /**
-   * Build the AI prompt for architecture generation
+   * Turn raw token deltas into token, screen and transition events
    */
-  private static buildArchitecturePrompt(goal: string): string {
-    return `You are Marcus Rodriguez, Lead Product Designer at Stripe with 15+ years designing user flows for apps used by millions. You've designed for DoorDash, Spotify, and Figma. You understand what makes apps truly usable vs just pretty.
-
-USER REQUEST: "${goal}"
-
-METHODOLOGY: Follow the Jobs-to-be-Done framework
-1. IDENTIFY THE JOB: What job is the user "hiring" this app to do?
-2. MAP THE JOURNEY: Complete path from awareness to task completion
-3. DESIGN FOR SUCCESS: Each screen moves user closer to their goal
-4. REMOVE FRICTION: Eliminate unnecessary steps and cognitive load
-
-MOBILE APP ARCHITECTURE PRINCIPLES:
-🎯 FOCUS: One primary action per screen
-📱 MOBILE-FIRST: Thumb-friendly, one-handed use
-⚡ FAST: 2-3 taps to core value
-🧠 SIMPLE: Reduce cognitive load at every step
-🔄 CONNECTED: Every screen has clear entry/exit paths
-♿ ACCESSIBLE: Works for everyone, all abilities
-
-REQUIRED FLOW STRUCTURE:
-Generate exactly 10-12 screens that follow this pattern:
-
-1. ENTRY (1-2 screens)
-   - Welcome/Splash
-   - Authentication (if needed)
-
-2. SETUP (1-2 screens)  
-   - Onboarding/Permissions
-   - Initial configuration
-
-3. CORE VALUE (6-8 screens)
-   - Home/Dashboard
-   - Primary task screens
-   - Detail/Action screens
-   - Confirmation/Success
-
-4. SUPPORTING (2-3 screens)
-   - Profile/Settings  
-   - Help/Support
-
-TRANSITION REQUIREMENTS:
-Every screen transition must be:
-- Triggered by specific user action
-- Motivated by clear user intent  
-- Connected to user's main goal
-- Recoverable (user can go back)
-
-COMPONENT SPECIFICATION:
-For each screen, specify 4-8 concrete UI components:
-✅ "Search Bar with Voice Input" 
-✅ "Restaurant Cards with Photos and Ratings"
-❌ "Content Area" or "UI Elements" (too vague)
-
-Return ONLY this JSON structure with NO additional text:
-
-{
-  "appName": "string - descriptive app name",
-  "description": "string - value proposition in one sentence", 
-  "complexity": "simple|moderate|complex",
-  "tags": ["relevant", "domain", "keywords"],
-  "screens": [
-    {
-      "name": "exact screen title",
-      "type": "home|auth|onboarding|list|detail|form|profile|settings|cart|checkout|search",
-      "description": "what user accomplishes here",
-      "components": ["Specific UI Component Name", "Another Component", "Clear Button Labels"],
-      "requiresAuth": true/false,
-      "userIntent": "clear goal user has on this screen"
-    }
-  ],
-  "transitions": [
-    {
-      "from": "exact screen name",
-      "to": "exact screen name", 
-      "trigger": "user_action",
-      "description": "specific action like 'taps Sign In button'"
-    }
-  ]
-}
+  private static createStreamHandler(onEvent: (event: ArchitectureStreamEvent) => void) {
+    const parser = new ArchitectureStreamParser();
+    const screens: Screen[] = [];
+    let transitionCount = 0;
+
+    return (delta: string) => {
+      onEvent({ type: 'token', delta });
+
+      for (const item of parser.push(delta)) {
+        if (item.key === 'screens') {
+          const screen = this.normalizeScreen(item.value, item.index);
+          screens.push(screen);
+          onEvent({ type: 'screen', index: item.index, screen });
+        } else {
+          const transition = this.normalizeTransition(item.value, item.index, screens);
+          if (transition) {
+            onEvent({ type: 'transition', index: transitionCount++, transition });
+          }
+        }
+      }
+    };
+  }
 
-CRITICAL: Create complete user journey from app launch to task completion. Every screen must connect logically. Use specific component names, not generic terms.`;
+  /**
+   * Wrap partially generated screens and transitions in an architecture shell
+   * so they can be rendered before generation finishes
+   */
+  static createDraftArchitecture(goal: string, screens: Screen[], transitions: Transition[]): AppArchitecture {
+    return {
+      id: 'draft',
+      name: 'Generating...',
+      description: goal,
+      screens,
+      transitions,
+      apiEndpoints: [],
+      metadata: {
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        version: '0.0.0',
+        tags: [],
+        complexity: ComplexityLevel.SIMPLE,
+        estimatedScreens: screens.length,
+        estimatedApis: 0
+      }
+    };
   }
 
   /**
@@ -189,7 +174,88 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
     const id = `app_${Date.now()}`;
     
     // Normalize screens with enhanced UX data
-    const screens: Screen[] = (parsed.screens || []).map((screen: any, index: number) => ({
+    const screens: Screen[] = (parsed.screens || []).map((screen: unknown, index: number) => this.normalizeScreen(screen, index));
+
+    // No API endpoints in UX flow phase - focus on user experience only
+    const apiEndpoints: ApiEndpoint[] = [];
+
+    // Normalize transitions with enhanced context and validation
+    let transitions: Transition[] = (parsed.transitions || [])
+      .map((transition: unknown, index: number) => this.normalizeTransition(transition, index, screens))
+      .filter(Boolean) as Transition[];
+
+    // Ensure minimum connectivity - if we have disconnected screens, create basic flow
+    if (transitions.length < screens.length - 1) {
+      console.log('Adding missing transitions to ensure connectivity');
+      transitions = this.ensureConnectedFlow(screens, transitions);
+    }
+
+    return {
+      id,
+      name: parsed.appName || 'Generated App',
+      description: parsed.description || originalGoal,
+      screens,
+      transitions,
+      apiEndpoints,
+      metadata: {
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        version: '1.0.0',
+        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+        complexity: this.normalizeComplexity(parsed.complexity),
+        estimatedScreens: screens.length,
+        estimatedApis: 0, // No APIs in UX flow phase
+        normalizationFallbacks: this.findNormalizationFallbacks(parsed, screens)
+      }
+    };
+  }
+
+  /**
+   * Values the model returned that normalization replaced with a default or
+   * dropped; a rough measure of how well a prompt keeps to the schema
+   */
+  private static findNormalizationFallbacks(
+    parsed: {
+      screens?: ({ type?: unknown } | null)[];
+      transitions?: ({ from?: unknown; to?: unknown; trigger?: unknown } | null)[];
+      complexity?: unknown;
+    },
+    screens: Screen[]
+  ): NormalizationFallback[] {
+    const fallbacks: NormalizationFallback[] = [];
+    const isDefaulted = (value: unknown, normalized: string) =>
+      typeof value !== 'string' || value.toLowerCase() !== normalized;
+
+    (parsed.screens || []).forEach((screen, index) => {
+      if (isDefaulted(screen?.type, screens[index].type)) {
+        fallbacks.push({ field: 'screen.type', value: String(screen?.type), replacement: screens[index].type });
+      }
+    });
+
+    (parsed.transitions || []).forEach(transition => {
+      if (!screens.some(s => s.name === transition?.from) || !screens.some(s => s.name === transition?.to)) {
+        fallbacks.push({ field: 'transition', value: `${transition?.from} -> ${transition?.to}`, replacement: 'dropped' });
+      } else if (transition?.trigger) {
+        const trigger = this.normalizeTransitionTrigger(String(transition.trigger));
+        if (isDefaulted(transition.trigger, trigger)) {
+          fallbacks.push({ field: 'transition.trigger', value: String(transition.trigger), replacement: trigger });
+        }
+      }
+    });
+
+    const complexity = this.normalizeComplexity(String(parsed.complexity));
+    if (parsed.complexity && isDefaulted(parsed.complexity, complexity)) {
+      fallbacks.push({ field: 'complexity', value: String(parsed.complexity), replacement: complexity });
+    }
+
+    return fallbacks;
+  }
+
+  /**
+   * Normalize a single AI-generated screen with enhanced UX data
+   */
+  static normalizeScreen(screen: any, index: number): Screen {
+    return {
       id: `screen_${index}`,
       name: screen.name || `Screen ${index}`,
       type: this.normalizeScreenType(screen.type),
@@ -221,54 +287,30 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
         })) : undefined,
         navigationPattern: screen.navigationPattern ? this.normalizeNavigationPattern(screen.navigationPattern) : undefined
       }
-    }));
-
-    // No API endpoints in UX flow phase - focus on user experience only
-    const apiEndpoints: ApiEndpoint[] = [];
-
-    // Normalize transitions with enhanced context and validation
-    let transitions: Transition[] = (parsed.transitions || []).map((transition: any, index: number) => {
-      const fromScreen = screens.find(s => s.name === transition.from);
-      const toScreen = screens.find(s => s.name === transition.to);
-      
-      // Skip invalid transitions
-      if (!fromScreen || !toScreen) {
-        console.warn(`Invalid transition: ${transition.from} -> ${transition.to}`);
-        return null;
-      }
-      
-      return {
-        id: `transition_${index}`,
-        from: fromScreen.id,
-        to: toScreen.id,
-        trigger: this.normalizeTransitionTrigger(transition.trigger || 'user_action'),
-        description: transition.description || 'User navigates',
-        condition: transition.userMotivation
-      };
-    }).filter(Boolean) as Transition[];
+    };
+  }
 
-    // Ensure minimum connectivity - if we have disconnected screens, create basic flow
-    if (transitions.length < screens.length - 1) {
-      console.log('Adding missing transitions to ensure connectivity');
-      transitions = this.ensureConnectedFlow(screens, transitions);
+  /**
+   * Resolve an AI-generated transition's screen names to ids, or null if
+   * either end does not match a known screen
+   */
+  private static normalizeTransition(transition: any, index: number, screens: Screen[]): Transition | null {
+    const fromScreen = screens.find(s => s.name === transition.from);
+    const toScreen = screens.find(s => s.name === transition.to);
+    
+    // Skip invalid transitions
+    if (!fromScreen || !toScreen) {
+      console.warn(`Invalid transition: ${transition.from} -> ${transition.to}`);
+      return null;
     }
-
+    
     return {
-      id,
-      name: parsed.appName || 'Generated App',
-      description: parsed.description || originalGoal,
-      screens,
-      transitions,
-      apiEndpoints,
-      metadata: {
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        version: '1.0.0',
-        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-        complexity: this.normalizeComplexity(parsed.complexity),
-        estimatedScreens: screens.length,
-        estimatedApis: 0 // No APIs in UX flow phase
-      }
+      id: `transition_${index}`,
+      from: fromScreen.id,
+      to: toScreen.id,
+      trigger: this.normalizeTransitionTrigger(transition.trigger || 'user_action'),
+      description: transition.description || 'User navigates',
+      condition: transition.userMotivation
     };
   }
 
@@ -296,7 +338,8 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
         tags: analysis.tags,
         complexity: analysis.complexity,
         estimatedScreens: screens.length,
-        estimatedApis: 0 // No APIs in UX flow phase
+        estimatedApis: 0, // No APIs in UX flow phase
+        generatedBy: FALLBACK_SOURCE
       }
     };
   }
@@ -308,100 +351,19 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
     const nodes: FlowNode[] = [];
     const edges: FlowEdge[] = [];
 
-    // Add start node - positioned to the left of the main flow
+    // Positions are filled in by the layout engine once all edges are known
     nodes.push({
       id: 'start',
       type: 'start',
-      position: { x: 100, y: 250 }, // Align with main flow BASE_Y
+      position: { x: 100, y: 250 },
       data: { label: 'Start' }
     });
 
-    // Create clean flow based on user's mock diagram - linear with proper branching
-    const STEP_SPACING = 500; // Increased horizontal spacing to prevent overlapping
-    const BRANCH_SPACING = 300; // Increased vertical spacing for parallel branches
-    const BASE_Y = 250; // Starting Y position for main flow
-    
-    // Define positions based on logical flow progression like mock diagram
-    const flowPositions: { [key: string]: { x: number; y: number } } = {};
-    
-    // Find key screen types for modern app flows
-    const launchScreen = architecture.screens.find(s => s.type === ScreenType.LOADING);
-    const authScreens = architecture.screens.filter(s => s.type === ScreenType.AUTH);
-    const onboardingScreen = architecture.screens.find(s => s.type === ScreenType.ONBOARDING);
-    const dashboardScreen = architecture.screens.find(s => s.type === ScreenType.DASHBOARD || s.type === ScreenType.HOME);
-    const listScreen = architecture.screens.find(s => s.type === ScreenType.LIST || s.type === ScreenType.GRID);
-    const detailScreen = architecture.screens.find(s => s.type === ScreenType.DETAIL);
-    const formScreen = architecture.screens.find(s => s.type === ScreenType.FORM);
-    const profileScreen = architecture.screens.find(s => s.type === ScreenType.PROFILE);
-    const settingsScreen = architecture.screens.find(s => s.type === ScreenType.SETTINGS);
-    
-    let currentX = 400; // Start position
-    
-    // Step 1: App Launch screen (if present)
-    if (launchScreen) {
-      flowPositions[launchScreen.id] = { x: currentX, y: BASE_Y };
-      currentX += STEP_SPACING;
-    }
-    
-    // Step 2: Auth screens - parallel branches that converge
-    if (authScreens.length > 0) {
-      const authCenterX = currentX;
-      authScreens.forEach((screen, index) => {
-        const branchY = BASE_Y + (index - (authScreens.length - 1) / 2) * BRANCH_SPACING;
-        flowPositions[screen.id] = { x: authCenterX, y: branchY };
-      });
-      currentX += STEP_SPACING;
-    }
-    
-    // Step 3: Onboarding (after auth or directly after launch)
-    if (onboardingScreen) {
-      flowPositions[onboardingScreen.id] = { x: currentX, y: BASE_Y };
-      currentX += STEP_SPACING;
-    }
-    
-    // Step 4: Dashboard/Home - main app entry point
-    if (dashboardScreen) {
-      flowPositions[dashboardScreen.id] = { x: currentX, y: BASE_Y };
-      currentX += STEP_SPACING;
-    }
-    
-    // Step 5: Organize feature screens in clean layout to avoid arrow mess
-    
-    // Main list screen on main flow
-    if (listScreen) {
-      flowPositions[listScreen.id] = { x: currentX, y: BASE_Y };
-      currentX += STEP_SPACING;
-    }
-    
-    // Detail and form screens in organized sub-flow
-    const subFlowY = BASE_Y + BRANCH_SPACING; // Below main flow
-    let subFlowX = currentX - STEP_SPACING; // Align with list screen
-    
-    if (detailScreen) {
-      flowPositions[detailScreen.id] = { x: subFlowX, y: subFlowY };
-      subFlowX += STEP_SPACING;
-    }
-    
-    if (formScreen) {
-      flowPositions[formScreen.id] = { x: subFlowX, y: subFlowY };
-    }
-    
-    // Step 5: User screens - continue main flow after features
-    const userScreens = [profileScreen, settingsScreen].filter(Boolean);
-    userScreens.forEach((screen, index) => {
-      if (screen) {
-        flowPositions[screen.id] = { x: currentX + (index * STEP_SPACING), y: BASE_Y };
-      }
-    });
-    
-    // Apply positions to all screens
     architecture.screens.forEach((screen) => {
-      const position = flowPositions[screen.id] || { x: currentX, y: BASE_Y };
-      
       nodes.push({
         id: screen.id,
         type: 'screen',
-        position: screen.position || position,
+        position: screen.position || { x: 0, y: 0 },
         data: {
           label: screen.name,
           description: screen.description,
@@ -411,13 +373,26 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
       });
     });
 
-    // No API nodes in UX flow phase - focus on user experience screens only
+    architecture.apiEndpoints.forEach(endpoint => {
+      nodes.push({
+        id: endpoint.id,
+        type: 'api',
+        position: endpoint.position || { x: 0, y: 0 },
+        data: {
+          label: endpoint.name,
+          description: endpoint.description,
+          method: endpoint.method,
+          path: endpoint.path,
+          authentication: endpoint.authentication
+        }
+      });
+    });
 
-    // Generate edges based on the transitions from AI + logical flow patterns
+    // Edges are the architecture's own transitions, so editing the canvas never adds any
     const addedEdges = new Set<string>(); // Prevent duplicate edges
     
     // 1. Always start with Start → First Screen (App Launch Flow)
-    const firstScreen = launchScreen || authScreens[0] || onboardingScreen || dashboardScreen || architecture.screens[0];
+    const firstScreen = this.findEntryScreen(architecture.screens);
     if (firstScreen) {
       const edgeId = `start-to-${firstScreen.id}`;
       if (!addedEdges.has(edgeId)) {
@@ -431,15 +406,10 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
       }
     }
     
-    // 2. Add essential forward-flow edges only (reduce clutter)
-    const essentialTransitions = architecture.transitions.filter(transition => {
-      const sourceScreen = architecture.screens.find(s => s.id === transition.from);
-      const targetScreen = architecture.screens.find(s => s.id === transition.to);
-      
-      // Only include forward-moving transitions and essential returns
-      if (!sourceScreen || !targetScreen) return false;
-      
-      // Include main flow progression (updated for app launch patterns)
+    // 2. Draw every transition; the main forward flow gets a short label and
+    // the rest (returns, shortcuts) a lighter dashed line to reduce clutter
+    const isMainFlow = (sourceScreen: Screen, targetScreen: Screen): boolean => {
+      // Main flow progression (updated for app launch patterns)
       if (sourceScreen.type === ScreenType.LOADING && targetScreen.type === ScreenType.AUTH) return true;
       if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.ONBOARDING) return true;
       if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.DASHBOARD) return true;
@@ -447,116 +417,222 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
       if (sourceScreen.type === ScreenType.DASHBOARD && targetScreen.type === ScreenType.LIST) return true;
       if (sourceScreen.type === ScreenType.HOME && targetScreen.type === ScreenType.LIST) return true;
       
-      // Include essential CRUD actions (but limit returns)
+      // Essential CRUD actions
       if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.DETAIL) return true;
       if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.FORM) return true;
       
-      // Skip most return arrows to reduce clutter - they're implied
       return false;
-    });
+    };
     
-    essentialTransitions.forEach(transition => {
+    architecture.transitions.forEach(transition => {
       const edgeId = `${transition.from}-to-${transition.to}`;
-      if (!addedEdges.has(edgeId)) {
-        const sourceScreen = architecture.screens.find(s => s.id === transition.from);
-        const targetScreen = architecture.screens.find(s => s.id === transition.to);
-        
-        let label = 'Continue';
-        
-        // Smart labeling based on screen types (updated for app launch patterns)
-        if (sourceScreen && targetScreen) {
-          if (sourceScreen.type === ScreenType.LOADING && targetScreen.type === ScreenType.AUTH) {
-            label = targetScreen.name.toLowerCase().includes('login') ? 'Login' : 'Sign Up';
-          } else if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.ONBOARDING) {
-            label = 'Get Started';
-          } else if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.DASHBOARD) {
-            label = 'Continue';
-          } else if (sourceScreen.type === ScreenType.ONBOARDING && targetScreen.type === ScreenType.DASHBOARD) {
-            label = 'Enter App';
-          } else if (sourceScreen.type === ScreenType.DASHBOARD && targetScreen.type === ScreenType.LIST) {
-            label = 'View Items';
-          } else if (sourceScreen.type === ScreenType.HOME && targetScreen.type === ScreenType.LIST) {
-            label = 'View Items';
-          } else if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.DETAIL) {
-            label = 'View Details';
-          } else if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.FORM) {
-            label = 'Add New';
-          }
-        }
-        
+      const sourceScreen = architecture.screens.find(s => s.id === transition.from);
+      const targetScreen = architecture.screens.find(s => s.id === transition.to);
+      if (addedEdges.has(edgeId) || !sourceScreen || !targetScreen) return;
+
+      const data = { trigger: transition.trigger, condition: transition.condition };
+      if (!isMainFlow(sourceScreen, targetScreen)) {
         edges.push({
           id: edgeId,
           source: transition.from,
           target: transition.to,
-          label: label
+          label: transition.description || 'Navigate',
+          data,
+          style: SECONDARY_EDGE_STYLE
         });
         addedEdges.add(edgeId);
+        return;
+      }
+        
+      let label = 'Continue';
+      
+      // Smart labeling based on screen types (updated for app launch patterns)
+      if (sourceScreen.type === ScreenType.LOADING && targetScreen.type === ScreenType.AUTH) {
+        label = targetScreen.name.toLowerCase().includes('login') ? 'Login' : 'Sign Up';
+      } else if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.ONBOARDING) {
+        label = 'Get Started';
+      } else if (sourceScreen.type === ScreenType.AUTH && targetScreen.type === ScreenType.DASHBOARD) {
+        label = 'Continue';
+      } else if (sourceScreen.type === ScreenType.ONBOARDING && targetScreen.type === ScreenType.DASHBOARD) {
+        label = 'Enter App';
+      } else if (sourceScreen.type === ScreenType.DASHBOARD && targetScreen.type === ScreenType.LIST) {
+        label = 'View Items';
+      } else if (sourceScreen.type === ScreenType.HOME && targetScreen.type === ScreenType.LIST) {
+        label = 'View Items';
+      } else if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.DETAIL) {
+        label = 'View Details';
+      } else if (sourceScreen.type === ScreenType.LIST && targetScreen.type === ScreenType.FORM) {
+        label = 'Add New';
       }
+      
+      edges.push({
+        id: edgeId,
+        source: transition.from,
+        target: transition.to,
+        label: label,
+        data
+      });
+      addedEdges.add(edgeId);
     });
     
-    // 3. Add missing logical connections if AI missed them
-    
-    // Launch to Auth (if missing)
-    if (launchScreen && authScreens.length > 0) {
-      authScreens.forEach(authScreen => {
-        const edgeId = `${launchScreen.id}-to-${authScreen.id}`;
-        if (!addedEdges.has(edgeId)) {
+    // Link each endpoint to the screens that call it
+    architecture.apiEndpoints.forEach(endpoint => {
+      endpoint.connectedScreens
+        .filter(screenId => architecture.screens.some(s => s.id === screenId))
+        .forEach(screenId => {
           edges.push({
-            id: edgeId,
-            source: launchScreen.id,
-            target: authScreen.id,
-            label: authScreen.name.toLowerCase().includes('login') ? 'Login' : 'Sign Up'
+            id: `${screenId}-to-${endpoint.id}`,
+            source: screenId,
+            target: endpoint.id,
+            label: endpoint.method
           });
-          addedEdges.add(edgeId);
-        }
-      });
-    }
-    
-    // Launch to Onboarding (if no auth required)
-    if (launchScreen && onboardingScreen && authScreens.length === 0) {
-      const edgeId = `${launchScreen.id}-to-${onboardingScreen.id}`;
-      if (!addedEdges.has(edgeId)) {
-        edges.push({
-          id: edgeId,
-          source: launchScreen.id,
-          target: onboardingScreen.id,
-          label: 'Get Started'
         });
-        addedEdges.add(edgeId);
+    });
+
+    // Lay out anything without a saved position; the start node stays next
+    // to the first screen when that screen has been placed by hand
+    const layout = FlowLayout.layout(nodes, edges);
+    const saved = new Map<string, { x: number; y: number } | undefined>([
+      ...architecture.screens.map(screen => [screen.id, screen.position] as const),
+      ...architecture.apiEndpoints.map(endpoint => [endpoint.id, endpoint.position] as const)
+    ]);
+    nodes.forEach(node => {
+      const position = saved.get(node.id);
+      if (!position && layout[node.id]) {
+        node.position = layout[node.id];
       }
+    });
+    if (firstScreen?.position) {
+      nodes[0].position = { x: firstScreen.position.x - 300, y: firstScreen.position.y };
     }
-    
-    // Auth to Dashboard convergence (if missing)
-    if (dashboardScreen && authScreens.length > 0) {
-      authScreens.forEach(authScreen => {
-        const edgeId = `${authScreen.id}-to-${dashboardScreen.id}`;
-        if (!addedEdges.has(edgeId)) {
-          edges.push({
-            id: edgeId,
-            source: authScreen.id,
-            target: dashboardScreen.id,
-            label: 'Continue'
-          });
-          addedEdges.add(edgeId);
-        }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * The screen the app opens on: launch, then auth, onboarding and home
+   */
+  static findEntryScreen(screens: Screen[]): Screen | undefined {
+    return screens.find(s => s.type === ScreenType.LOADING) ||
+      screens.find(s => s.type === ScreenType.AUTH) ||
+      screens.find(s => s.type === ScreenType.ONBOARDING) ||
+      screens.find(s => s.type === ScreenType.DASHBOARD || s.type === ScreenType.HOME) ||
+      screens[0];
+  }
+
+  /**
+   * Rebuild screens, transitions and API endpoints from an edited canvas.
+   * Data the canvas doesn't show (components, schemas) is carried over from
+   * `base`. A transition survives only if its edge does; one that was never
+   * on the canvas is kept as long as both screens still exist.
+   */
+  static flowToArchitecture(
+    flow: AppFlow,
+    base: AppArchitecture,
+    previousFlow: AppFlow = this.architectureToFlow(base)
+  ): AppArchitecture {
+    const screenNodes = flow.nodes.filter(node => node.type === 'screen');
+    const apiNodes = flow.nodes.filter(node => node.type === 'api');
+    const screenIds = new Set(screenNodes.map(node => node.id));
+    const apiIds = new Set(apiNodes.map(node => node.id));
+
+    const screens: Screen[] = screenNodes.map(node => {
+      const existing = base.screens.find(s => s.id === node.id);
+      return {
+        id: node.id,
+        name: node.data.label || existing?.name || 'Untitled Screen',
+        type: node.data.screenType || existing?.type || ScreenType.DASHBOARD,
+        description: node.data.description ?? existing?.description ?? '',
+        components: existing?.components || [],
+        data: { ...existing?.data, requiresAuth: !!node.data.requiresAuth },
+        position: node.position
+      };
+    });
+
+    const pairKey = (from: string, to: string) => `${from}->${to}`;
+    const drawnPairs = new Set(previousFlow.edges.map(edge => pairKey(edge.source, edge.target)));
+    const screenEdges = flow.edges.filter(edge => screenIds.has(edge.source) && screenIds.has(edge.target));
+    const currentPairs = new Set(screenEdges.map(edge => pairKey(edge.source, edge.target)));
+
+    const transitions = base.transitions.filter(transition => {
+      if (!screenIds.has(transition.from) || !screenIds.has(transition.to)) return false;
+      const key = pairKey(transition.from, transition.to);
+      return currentPairs.has(key) || !drawnPairs.has(key);
+    });
+
+    // Connections drawn on the canvas without a matching transition become new ones
+    let nextTransition = base.transitions.length + 1;
+    screenEdges.forEach(edge => {
+      if (transitions.some(t => t.from === edge.source && t.to === edge.target)) return;
+      while (transitions.some(t => t.id === `transition_${nextTransition}`)) nextTransition++;
+      transitions.push({
+        id: `transition_${nextTransition}`,
+        from: edge.source,
+        to: edge.target,
+        trigger: edge.data?.trigger || TransitionTrigger.USER_ACTION,
+        description: typeof edge.label === 'string' && edge.label ? edge.label : 'Navigate',
+        condition: edge.data?.condition
       });
+    });
+
+    const apiEndpoints: ApiEndpoint[] = apiNodes.map(node => {
+      const existing = base.apiEndpoints.find(e => e.id === node.id);
+      // Screens may be linked to an endpoint in either direction
+      const connectedScreens = flow.edges
+        .filter(edge => apiIds.has(edge.target) || apiIds.has(edge.source))
+        .map(edge => edge.target === node.id ? edge.source : edge.source === node.id ? edge.target : null)
+        .filter((id): id is string => !!id && screenIds.has(id));
+
+      return {
+        id: node.id,
+        name: node.data.label || existing?.name || 'Untitled Endpoint',
+        method: node.data.method || existing?.method || HttpMethod.GET,
+        path: node.data.path || existing?.path || '/',
+        description: node.data.description ?? existing?.description ?? '',
+        requestSchema: existing?.requestSchema,
+        responseSchema: existing?.responseSchema,
+        authentication: !!node.data.authentication,
+        connectedScreens: Array.from(new Set(connectedScreens)),
+        position: node.position
+      };
+    });
+
+    const rebuilt = { ...base, screens, transitions, apiEndpoints };
+    // Compared with sorted keys, since imported and rebuilt objects list their fields in different orders
+    const withoutPositions = (architecture: AppArchitecture) => JSON.stringify(this.sortKeys({
+      screens: architecture.screens.map(screen => ({ ...screen, position: undefined })),
+      transitions: architecture.transitions,
+      apiEndpoints: architecture.apiEndpoints.map(endpoint => ({ ...endpoint, position: undefined }))
+    }));
+
+    if (withoutPositions(rebuilt) === withoutPositions(base)) {
+      // Moving nodes around is not a structural change, so keep `updatedAt`
+      // and skip no-op updates
+      const moved = screens.some((s, i) => !this.samePosition(s.position, base.screens[i]?.position)) ||
+        apiEndpoints.some((e, i) => !this.samePosition(e.position, base.apiEndpoints[i]?.position));
+      return moved ? rebuilt : base;
     }
-    
-    // Dashboard to List (if missing)
-    if (dashboardScreen && listScreen) {
-      const edgeId = `${dashboardScreen.id}-to-${listScreen.id}`;
-      if (!addedEdges.has(edgeId)) {
-        edges.push({
-          id: edgeId,
-          source: dashboardScreen.id,
-          target: listScreen.id,
-          label: 'View Items'
-        });
-        addedEdges.add(edgeId);
+
+    return {
+      ...rebuilt,
+      metadata: {
+        ...base.metadata,
+        updatedAt: new Date().toISOString(),
+        estimatedScreens: screens.length,
+        estimatedApis: apiEndpoints.length
       }
-    }
+    };
+  }
 
-    return { nodes, edges };
+  private static sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.sortKeys(item));
+    if (!value || typeof value !== 'object') return value;
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, this.sortKeys(record[key])]));
+  }
+
+  private static samePosition(a?: { x: number; y: number }, b?: { x: number; y: number }): boolean {
+    return a?.x === b?.x && a?.y === b?.y;
   }
 
   private static analyzeGoal(goal: string) {
@@ -1213,10 +1289,16 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
   }
 
   // Helper methods for normalization
-  private static normalizeScreenType(type: string): ScreenType {
+  static normalizeScreenType(type: string): ScreenType {
     const typeMap: Record<string, ScreenType> = {
       // Authentication & Access
       'auth': ScreenType.AUTH,
+      'login': ScreenType.AUTH,
+      'signin': ScreenType.AUTH,
+      'sign_in': ScreenType.AUTH,
+      'signup': ScreenType.AUTH,
+      'sign_up': ScreenType.AUTH,
+      'register': ScreenType.AUTH,
       'onboarding': ScreenType.ONBOARDING,
       'verification': ScreenType.VERIFICATION,
       
@@ -1273,10 +1355,10 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
       'analytics': ScreenType.ANALYTICS,
       'reports': ScreenType.REPORTS
     };
-    return typeMap[type?.toLowerCase()] || ScreenType.HOME;
+    return typeMap[this.toEnumKey(type)] || ScreenType.HOME;
   }
 
-  private static normalizeHttpMethod(method: string): HttpMethod {
+  static normalizeHttpMethod(method: string): HttpMethod {
     const methodMap: Record<string, HttpMethod> = {
       'GET': HttpMethod.GET,
       'POST': HttpMethod.POST,
@@ -1287,7 +1369,7 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
     return methodMap[method?.toUpperCase()] || HttpMethod.GET;
   }
 
-  private static normalizeTransitionTrigger(trigger: string): TransitionTrigger {
+  static normalizeTransitionTrigger(trigger: string): TransitionTrigger {
     const triggerMap: Record<string, TransitionTrigger> = {
       'user_action': TransitionTrigger.USER_ACTION,
       'api_success': TransitionTrigger.API_SUCCESS,
@@ -1296,16 +1378,21 @@ CRITICAL: Create complete user journey from app launch to task completion. Every
       'condition': TransitionTrigger.CONDITION,
       'navigation': TransitionTrigger.NAVIGATION
     };
-    return triggerMap[trigger?.toLowerCase()] || TransitionTrigger.USER_ACTION;
+    return triggerMap[this.toEnumKey(trigger)] || TransitionTrigger.USER_ACTION;
   }
 
-  private static normalizeComplexity(complexity: string): ComplexityLevel {
+  static normalizeComplexity(complexity: string): ComplexityLevel {
     const complexityMap: Record<string, ComplexityLevel> = {
       'simple': ComplexityLevel.SIMPLE,
       'moderate': ComplexityLevel.MODERATE,
       'complex': ComplexityLevel.COMPLEX
     };
-    return complexityMap[complexity?.toLowerCase()] || ComplexityLevel.SIMPLE;
+    return complexityMap[this.toEnumKey(complexity)] || ComplexityLevel.SIMPLE;
+  }
+
+  // "Sign-In", "User Action" and "order history" match snake_case enum values
+  private static toEnumKey(value: string): string {
+    return String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
   }
 
   private static normalizeNavigationPattern(pattern: string): NavigationPattern {
@@ -0,0 +1,141 @@
+import {
+  AI_PROVIDERS,
+  AIGenerationResult,
+  AIProvider,
+  AIProviderError,
+  GeneratedText,
+  GenerateTextOptions,
+  createAIService,
+  getProviderSettings
+} from './ai-providers';
+import { UsageMeter } from './ai-usage';
+
+export interface ChainLink {
+  provider: AIProvider;
+  model?: string;
+}
+
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// A provider that keeps failing is skipped for a while instead of being retried on every request
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 30_000;
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Tries providers in order until one answers. Transient errors are retried
+ * with exponential backoff; each provider has a circuit breaker that opens
+ * after repeated failures and lets a single trial request through once the
+ * cooldown has passed.
+ */
+export class ProviderChain {
+  private static circuits = new Map<AIProvider, CircuitState>();
+
+  /**
+   * Build the chain for a request. `preferred` (and `model`) come from the
+   * task route; the rest follow `AI_PROVIDER_CHAIN`, or `AI_PROVIDER` then any
+   * other provider with an API key. Providers without a key are left out.
+   * `AI_PROVIDER=replay` without a chain uses recorded responses only.
+   */
+  static resolve(preferred?: AIProvider, model?: string): ChainLink[] {
+    const configured = (process.env.AI_PROVIDER_CHAIN || '')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter((provider): provider is AIProvider => AI_PROVIDERS.includes(provider as AIProvider));
+    const primary = (process.env.AI_PROVIDER as AIProvider) || 'openai';
+    // Replay answers every task, whatever its route, so runs stay offline
+    if (primary === 'replay' && configured.length === 0) {
+      return [{ provider: 'replay' }];
+    }
+    const defaults = [primary, ...AI_PROVIDERS];
+
+    const order = Array.from(new Set([
+      ...(preferred ? [preferred] : []),
+      ...(configured.length > 0 ? configured : defaults)
+    ]));
+
+    return order
+      .filter(provider => AI_PROVIDERS.includes(provider) && getProviderSettings(provider).apiKey)
+      .map((provider, index) => ({ provider, model: index === 0 && order[0] === provider ? model : undefined }));
+  }
+
+  static async generate(chain: ChainLink[], prompt: string, options: GenerateTextOptions = {}): Promise<AIGenerationResult> {
+    if (chain.length === 0) {
+      throw new Error('No AI provider is configured. Set an API key for at least one provider.');
+    }
+
+    const failures: string[] = [];
+    for (const link of chain) {
+      // A cancelled request stops here rather than moving on to the next provider
+      options.signal?.throwIfAborted();
+      if (this.isOpen(link.provider)) {
+        failures.push(`${link.provider}: skipped while its circuit is open`);
+        continue;
+      }
+
+      // Once tokens have been streamed to the caller a retry would repeat them
+      let streamed = false;
+      const attemptOptions: GenerateTextOptions = options.onToken
+        ? { ...options, onToken: delta => { streamed = true; options.onToken?.(delta); } }
+        : options;
+
+      try {
+        const service = createAIService({ provider: link.provider, model: link.model });
+        const { text, usage } = await this.withRetries(
+          () => service.generateText(prompt, attemptOptions),
+          () => streamed || !!options.signal?.aborted
+        );
+        this.recordSuccess(link.provider);
+        return { text, provider: link.provider, model: service.model, usage: UsageMeter.forCall(link.provider, service.model, usage) };
+      } catch (error) {
+        // Cancelling says nothing about the provider's health
+        if (options.signal?.aborted) throw options.signal.reason;
+        // Nor does a missing replay fixture, which only affects that one prompt
+        if (link.provider !== 'replay') this.recordFailure(link.provider);
+        failures.push(`${link.provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (streamed) break;
+        console.warn(`AI provider ${link.provider} failed, trying the next one`);
+      }
+    }
+
+    throw new Error(`All AI providers failed (${failures.join('; ')})`);
+  }
+
+  private static async withRetries(run: () => Promise<GeneratedText>, isFinal: () => boolean): Promise<GeneratedText> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        const retryable = error instanceof AIProviderError && error.retryable;
+        if (!retryable || attempt >= MAX_RETRIES || isFinal()) throw error;
+
+        const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) + Math.random() * BASE_DELAY_MS / 2;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private static isOpen(provider: AIProvider): boolean {
+    const circuit = this.circuits.get(provider);
+    return !!circuit && circuit.failures >= FAILURE_THRESHOLD && Date.now() < circuit.openUntil;
+  }
+
+  private static recordFailure(provider: AIProvider) {
+    const circuit = this.circuits.get(provider) || { failures: 0, openUntil: 0 };
+    circuit.failures++;
+    if (circuit.failures >= FAILURE_THRESHOLD) {
+      circuit.openUntil = Date.now() + COOLDOWN_MS;
+    }
+    this.circuits.set(provider, circuit);
+  }
+
+  private static recordSuccess(provider: AIProvider) {
+    this.circuits.delete(provider);
+  }
+}
@@ -1,13 +1,118 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { EnhancedGenerateContentResponse, GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import type { AIUsage } from '@/types/app-architecture';
 
-export type AIProvider = 'openai' | 'anthropic' | 'google';
+// 'local' is any OpenAI-compatible server, such as Ollama or llama.cpp;
+// 'replay' answers from responses recorded with AI_RECORD=true
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'local' | 'replay';
+
+export const AI_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'google', 'local', 'replay'];
 
 export interface AIConfig {
   provider: AIProvider;
   apiKey: string;
   model: string;
+  /** Server URL for OpenAI-compatible providers, including the `/v1` prefix */
+  baseURL?: string;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * The subset of JSON Schema every provider's structured output mode accepts:
+ * no `$ref`, and objects always list their properties.
+ */
+export interface JsonSchema {
+  type: JsonSchemaType;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface ResponseFormat {
+  /** Sent to the provider as the schema or tool name, so letters, digits and underscores only */
+  name: string;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface GenerateTextOptions {
+  /**
+   * Stream the response from the provider, calling this with each text delta
+   * as it arrives. The full text is still returned once the stream ends.
+   */
+  onToken?: (delta: string) => void;
+  temperature?: number;
+  maxTokens?: number;
+  /** System prompt sent alongside the user prompt */
+  system?: string;
+  /** Sequences that end generation early */
+  stop?: string[];
+  /**
+   * Ask for JSON matching a schema, using the provider's native mode: JSON
+   * schema response format (OpenAI), a forced tool call (Anthropic) or a
+   * response schema (Google). The returned text is the JSON document.
+   */
+  responseFormat?: ResponseFormat;
+  /** Cancels the request, e.g. when the caller's time limit runs out */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GeneratedText {
+  text: string;
+  /** As reported by the provider; zero when it reports nothing */
+  usage: TokenUsage;
+}
+
+export interface AIGenerationResult {
+  text: string;
+  provider: AIProvider;
+  model: string;
+  usage: AIUsage;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const REPLAY_CHUNK_SIZE = 24;
+const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+// First model reported by each local server, so discovery runs once per server
+const discoveredModels = new Map<string, string>();
+
+/**
+ * A failed provider call. `status` is the HTTP status reported by the SDK,
+ * when there was one.
+ */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProvider,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+
+  /**
+   * Rate limits, server errors and dropped connections are worth retrying;
+   * bad requests and auth failures are not
+   */
+  get retryable(): boolean {
+    if (this.status !== undefined) {
+      return this.status === 408 || this.status === 429 || this.status >= 500;
+    }
+    return /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|fetch failed|network|connection error|overloaded/i.test(this.message);
+  }
 }
 
 export class AIService {
@@ -21,6 +126,14 @@ export class AIService {
     this.initializeProvider();
   }
 
+  get provider(): AIProvider {
+    return this.config.provider;
+  }
+
+  get model(): string {
+    return this.config.model;
+  }
+
   private initializeProvider() {
     switch (this.config.provider) {
       case 'openai':
@@ -36,91 +149,349 @@ export class AIService {
       case 'google':
         this.google = new GoogleGenerativeAI(this.config.apiKey);
         break;
+      case 'local':
+        this.openai = new OpenAI({
+          apiKey: this.config.apiKey,
+          baseURL: this.config.baseURL || DEFAULT_LOCAL_BASE_URL,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Models served by an OpenAI-compatible endpoint (`GET /v1/models`)
+   */
+  async listModels(): Promise<string[]> {
+    if (!this.openai) {
+      throw new Error(`Model discovery is not supported for provider: ${this.config.provider}`);
     }
+    const models = await this.openai.models.list();
+    return models.data.map(model => model.id);
   }
 
-  async generateText(prompt: string): Promise<string> {
+  /**
+   * Use the first model a local server reports when none is configured
+   */
+  private async resolveLocalModel(): Promise<void> {
+    if (this.config.model) return;
+
+    const baseURL = this.config.baseURL || DEFAULT_LOCAL_BASE_URL;
+    let model = discoveredModels.get(baseURL);
+    if (!model) {
+      [model] = await this.listModels();
+      if (!model) throw new Error(`No models are available on ${baseURL}. Pull a model or set LOCAL_AI_MODEL.`);
+      discoveredModels.set(baseURL, model);
+    }
+    this.config.model = model;
+  }
+
+  async generateText(prompt: string, options: GenerateTextOptions = {}): Promise<GeneratedText> {
     try {
-      switch (this.config.provider) {
-        case 'openai':
-          return await this.generateWithOpenAI(prompt);
-        case 'anthropic':
-          return await this.generateWithAnthropic(prompt);
-        case 'google':
-          return await this.generateWithGoogle(prompt);
-        default:
-          throw new Error(`Unsupported AI provider: ${this.config.provider}`);
+      const generated = await this.generateWithProvider(prompt, options);
+      if (process.env.AI_RECORD === 'true' && this.config.provider !== 'replay') {
+        await this.record(prompt, options, generated.text);
       }
+      return generated;
     } catch (error) {
       console.error(`AI generation failed with ${this.config.provider}:`, error);
-      throw new Error(`Failed to generate response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+        ? error.status
+        : undefined;
+      throw new AIProviderError(
+        `Failed to generate response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.config.provider,
+        status
+      );
     }
   }
 
-  private async generateWithOpenAI(prompt: string): Promise<string> {
+  private async generateWithProvider(prompt: string, options: GenerateTextOptions): Promise<GeneratedText> {
+    switch (this.config.provider) {
+      case 'openai':
+        return await this.generateWithOpenAI(prompt, options);
+      case 'anthropic':
+        return await this.generateWithAnthropic(prompt, options);
+      case 'google':
+        return await this.generateWithGoogle(prompt, options);
+      case 'local':
+        await this.resolveLocalModel();
+        return await this.generateWithOpenAI(prompt, options);
+      case 'replay':
+        return await this.generateWithReplay(prompt, options);
+      default:
+        throw new Error(`Unsupported AI provider: ${this.config.provider}`);
+    }
+  }
+
+  /**
+   * Save a live response as a fixture for the replay provider. Failing to
+   * record never fails the request.
+   */
+  private async record(prompt: string, options: GenerateTextOptions, text: string): Promise<void> {
+    try {
+      // Loaded on demand; the browser bundle gets a stand-in (see next.config.ts)
+      const { AIFixtureStore } = await import('@/lib/ai-fixture-store');
+      await AIFixtureStore.write({
+        key: await AIFixtureStore.key(prompt, options),
+        prompt,
+        system: options.system,
+        responseFormat: options.responseFormat?.name,
+        text,
+        provider: this.config.provider,
+        model: this.config.model,
+        recordedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn('Failed to record AI response:', error);
+    }
+  }
+
+  // Replayed responses cost nothing, so they report no usage
+  private async generateWithReplay(prompt: string, options: GenerateTextOptions): Promise<GeneratedText> {
+    const { AIFixtureStore } = await import('@/lib/ai-fixture-store');
+    const key = await AIFixtureStore.key(prompt, options);
+    const fixture = await AIFixtureStore.read(key);
+    if (!fixture) {
+      throw new Error(`No recorded response for this prompt (fixture ${key}). Record one by running with AI_RECORD=true.`);
+    }
+
+    // Stream in small chunks so streaming callers behave as they do with a live model
+    if (options.onToken) {
+      for (let i = 0; i < fixture.text.length; i += REPLAY_CHUNK_SIZE) {
+        options.onToken(fixture.text.slice(i, i + REPLAY_CHUNK_SIZE));
+      }
+    }
+    return { text: fixture.text, usage: NO_USAGE };
+  }
+
+  private async generateWithOpenAI(prompt: string, options: GenerateTextOptions): Promise<GeneratedText> {
     if (!this.openai) throw new Error('OpenAI not initialized');
-    
-    const completion = await this.openai.chat.completions.create({
+
+    const request = {
       model: this.config.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-      max_tokens: 2000,
-    });
+      messages: [
+        ...(options.system ? [{ role: 'system' as const, content: options.system }] : []),
+        { role: 'user' as const, content: prompt }
+      ],
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stop: options.stop?.length ? options.stop : undefined,
+      response_format: options.responseFormat ? {
+        type: 'json_schema' as const,
+        json_schema: {
+          name: options.responseFormat.name,
+          description: options.responseFormat.description,
+          schema: toJsonSchema(options.responseFormat.schema),
+          strict: false,
+        },
+      } : undefined,
+    };
+
+    if (options.onToken) {
+      // Usage arrives in a final chunk with no choices
+      const stream = await this.openai.chat.completions.create({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: options.signal });
+
+      let text = '';
+      let usage = NO_USAGE;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onToken(delta);
+        }
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+      }
+      return { text, usage };
+    }
+    
+    const completion = await this.openai.chat.completions.create(request, { signal: options.signal });
 
-    return completion.choices[0]?.message?.content || '';
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : NO_USAGE,
+    };
   }
 
-  private async generateWithAnthropic(prompt: string): Promise<string> {
+  private async generateWithAnthropic(prompt: string, options: GenerateTextOptions): Promise<GeneratedText> {
     if (!this.anthropic) throw new Error('Anthropic not initialized');
-    
-    const message = await this.anthropic.messages.create({
+
+    // Structured output is a forced call to a tool whose input schema is the response schema
+    const format = options.responseFormat;
+    const request = {
       model: this.config.model,
-      max_tokens: 2000,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }],
-    });
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      system: options.system,
+      stop_sequences: options.stop?.length ? options.stop : undefined,
+      messages: [{ role: 'user' as const, content: prompt }],
+      tools: format ? [{
+        name: format.name,
+        description: format.description,
+        input_schema: { ...toJsonSchema(format.schema), type: 'object' as const },
+      }] : undefined,
+      tool_choice: format ? { type: 'tool' as const, name: format.name } : undefined,
+    };
+
+    if (options.onToken) {
+      const stream = this.anthropic.messages.stream(request, { signal: options.signal });
+
+      stream.on('text', options.onToken);
+      stream.on('inputJson', options.onToken);
+      return this.readAnthropicMessage(await stream.finalMessage());
+    }
+    
+    const message = await this.anthropic.messages.create(request, { signal: options.signal });
+
+    return this.readAnthropicMessage(message);
+  }
+
+  private readAnthropicMessage(message: Anthropic.Message): GeneratedText {
+    const usage = { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens };
+
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    if (toolUse?.type === 'tool_use') return { text: JSON.stringify(toolUse.input), usage };
 
     const textContent = message.content.find(block => block.type === 'text');
-    return textContent?.type === 'text' ? textContent.text : '';
+    return { text: textContent?.type === 'text' ? textContent.text : '', usage };
   }
 
-  private async generateWithGoogle(prompt: string): Promise<string> {
+  private async generateWithGoogle(prompt: string, options: GenerateTextOptions): Promise<GeneratedText> {
     if (!this.google) throw new Error('Google AI not initialized');
     
-    const model = this.google.getGenerativeModel({ model: this.config.model });
-    const result = await model.generateContent(prompt);
+    const model = this.google.getGenerativeModel({
+      model: this.config.model,
+      systemInstruction: options.system,
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stopSequences: options.stop?.length ? options.stop : undefined,
+        responseMimeType: options.responseFormat ? 'application/json' : undefined,
+        responseSchema: options.responseFormat ? toGeminiSchema(options.responseFormat.schema) : undefined,
+      },
+    });
+
+    if (options.onToken) {
+      const result = await model.generateContentStream(prompt, { signal: options.signal });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          options.onToken(delta);
+        }
+      }
+      return { text, usage: this.readGoogleUsage(await result.response) };
+    }
+
+    const result = await model.generateContent(prompt, { signal: options.signal });
     const response = await result.response;
     
-    return response.text();
+    return { text: response.text(), usage: this.readGoogleUsage(response) };
+  }
+
+  private readGoogleUsage(response: EnhancedGenerateContentResponse): TokenUsage {
+    const metadata = response.usageMetadata;
+    return metadata
+      ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount }
+      : NO_USAGE;
   }
 }
 
-export function createAIService(): AIService {
-  const provider = (process.env.AI_PROVIDER as AIProvider) || 'openai';
-  
-  let apiKey: string;
-  let model: string;
+/**
+ * Standard JSON Schema, with `nullable` spelled as a type union
+ */
+function toJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: nullable ? [schema.type, 'null'] : schema.type,
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)]))
+    }),
+    ...(items && { items: toJsonSchema(items) }),
+  };
+}
 
+/**
+ * Gemini's OpenAPI-style schema
+ */
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const base = { description: schema.description, nullable: schema.nullable };
+  switch (schema.type) {
+    case 'object':
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, toGeminiSchema(value)])),
+        required: schema.required,
+      };
+    case 'array':
+      return { ...base, type: SchemaType.ARRAY, items: toGeminiSchema(schema.items || { type: 'string' }) };
+    case 'string':
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+  }
+}
+
+/**
+ * API key and default model for a provider, read from the environment
+ */
+export function getProviderSettings(provider: AIProvider): { apiKey: string; model: string; baseURL?: string } {
   switch (provider) {
     case 'openai':
-      apiKey = process.env.OPENAI_API_KEY || '';
-      model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
-      break;
+      return { apiKey: process.env.OPENAI_API_KEY || '', model: process.env.OPENAI_MODEL || 'gpt-4o-mini' };
     case 'anthropic':
-      apiKey = process.env.ANTHROPIC_API_KEY || '';
-      model = process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307';
-      break;
+      return { apiKey: process.env.ANTHROPIC_API_KEY || '', model: process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307' };
     case 'google':
-      apiKey = process.env.GOOGLE_API_KEY || '';
-      model = process.env.GOOGLE_MODEL || 'gemini-1.5-flash';
-      break;
+      return { apiKey: process.env.GOOGLE_API_KEY || '', model: process.env.GOOGLE_MODEL || 'gemini-1.5-flash' };
+    case 'local': {
+      // Local servers are configured by URL rather than key. The OpenAI client
+      // still needs a key, and most servers accept any value. An empty model
+      // is discovered from the server on first use.
+      const baseURL = process.env.LOCAL_AI_BASE_URL || (process.env.AI_PROVIDER === 'local' ? DEFAULT_LOCAL_BASE_URL : '');
+      return {
+        apiKey: baseURL ? process.env.LOCAL_AI_API_KEY || 'local' : '',
+        model: process.env.LOCAL_AI_MODEL || '',
+        baseURL,
+      };
+    }
+    case 'replay': {
+      // Only part of the chain when asked for, so it never silently stands in for a live provider
+      const enabled = process.env.AI_PROVIDER === 'replay' || (process.env.AI_PROVIDER_CHAIN || '').split(',').some(p => p.trim() === 'replay');
+      return { apiKey: enabled ? 'replay' : '', model: 'fixtures' };
+    }
     default:
       throw new Error(`Unsupported AI provider: ${provider}`);
   }
+}
+
+/**
+ * Create a service for the configured provider. `overrides` picks a different
+ * provider or model, e.g. from the per-task routing table.
+ */
+export function createAIService(overrides: Partial<Pick<AIConfig, 'provider' | 'model'>> = {}): AIService {
+  const provider = overrides.provider || (process.env.AI_PROVIDER as AIProvider) || 'openai';
+  const { apiKey, model, baseURL } = getProviderSettings(provider);
 
   if (!apiKey) {
     throw new Error(`API key not found for provider: ${provider}. Please set the appropriate environment variable.`);
   }
 
-  return new AIService({ provider, apiKey, model });
+  return new AIService({ provider, apiKey, model: overrides.model || model, baseURL });
 }
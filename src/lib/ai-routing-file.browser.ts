@@ -0,0 +1,7 @@
+// Browser stand-in for ai-routing-file.ts, aliased in next.config.ts.
+// The routing table can hold system prompts, so it stays on the server.
+export class AIRoutingFile {
+  static read(): undefined {
+    return undefined;
+  }
+}
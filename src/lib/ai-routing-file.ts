@@ -0,0 +1,17 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * The per-task routing table on disk, `ai-routing.json` or `AI_ROUTING_FILE`.
+ * Read on every lookup, so edits apply without rebuilding the app.
+ */
+export class AIRoutingFile {
+  static read(file: string = process.env.AI_ROUTING_FILE || path.join(process.cwd(), 'ai-routing.json')): string | undefined {
+    try {
+      return fs.readFileSync(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,7 @@
-import { createAIService } from './ai-providers';
+import { SpecializedAIService } from './specialized-ai-services';
+import { THINKING_FORMAT } from './structured-output';
+import { PromptRegistry } from './prompt-registry';
+import { GenerationSource } from '@/types/app-architecture';
 
 export interface ThinkingStep {
   id: string;
@@ -8,6 +11,12 @@ export interface ThinkingStep {
   status: 'pending' | 'in_progress' | 'completed' | 'error';
 }
 
+// Shape of THINKING_FORMAT; steps get their status once parsed
+interface ThinkingResponse {
+  thoughts: string[];
+  steps: Omit<ThinkingStep, 'status'>[];
+}
+
 export class AIThinking {
   /**
    * Generate real AI thinking process for a user request
@@ -15,96 +24,24 @@ export class AIThinking {
   static async generateThinkingProcess(userRequest: string): Promise<{
     steps: ThinkingStep[];
     thoughts: string[];
+    generatedBy?: GenerationSource;
   }> {
     try {
-      const aiService = createAIService();
-      const thinkingPrompt = this.buildThinkingPrompt(userRequest);
-      const response = await aiService.generateText(thinkingPrompt);
-      
-      return this.parseThinkingResponse(response);
-    } catch (error) {
-      console.warn('AI thinking failed, using fallback:', error);
-      return this.generateFallbackThinking(userRequest);
-    }
-  }
-
-  private static buildThinkingPrompt(userRequest: string): string {
-    return `You are an expert UX designer and app architect. A user has asked you to: "${userRequest}"
-
-Think through this request step by step and share your actual thought process. Be genuine and specific about how you would approach this.
-
-Respond with a JSON object in this exact format:
-{
-  "thoughts": [
-    "Your first genuine thought about their request...",
-    "Your second thought as you analyze deeper...",
-    "Your third thought about the solution approach...",
-    "Your fourth thought about implementation details...",
-    "Your final thought about the outcome..."
-  ],
-  "steps": [
-    {
-      "id": "analyze",
-      "title": "Analyzing the request",
-      "description": "Understanding what the user wants to build",
-      "thought": "I need to break down what type of app this is and what the core user journey should be..."
-    },
-    {
-      "id": "identify",
-      "title": "Identifying key screens",
-      "description": "Determining essential screens and flows",
-      "thought": "Based on their description, I'm thinking they'll need these main screens..."
-    },
-    {
-      "id": "structure",
-      "title": "Structuring the flow",
-      "description": "Organizing screens into logical user paths",
-      "thought": "The user journey should flow like this to minimize friction..."
-    },
-    {
-      "id": "optimize",
-      "title": "Optimizing UX",
-      "description": "Ensuring smooth user experience",
-      "thought": "I should make sure the navigation is intuitive and follows modern ux principles..."
-    }
-  ]
-}
-
-Make your thoughts specific to their request. Don't be generic - actually think about their specific app idea and share genuine insights about the UX challenges and solutions.
-
-Return ONLY the JSON object, no other text.`;
-  }
-
-  private static parseThinkingResponse(response: string): {
-    steps: ThinkingStep[];
-    thoughts: string[];
-  } {
-    try {
-      // Clean the response to handle markdown code blocks
-      let cleanResponse = response.trim();
-      if (cleanResponse.startsWith('```json')) {
-        cleanResponse = cleanResponse.replace(/```json\s*/, '').replace(/```\s*$/, '');
-      } else if (cleanResponse.startsWith('```')) {
-        cleanResponse = cleanResponse.replace(/```\s*/, '').replace(/```\s*$/, '');
-      }
-
-      const parsed = JSON.parse(cleanResponse);
-      
-      const steps: ThinkingStep[] = (parsed.steps || []).map((step: any) => ({
-        id: step.id,
-        title: step.title,
-        description: step.description,
-        thought: step.thought,
-        status: 'pending' as const
-      }));
+      const thinkingPrompt = await PromptRegistry.render('thinking', { userRequest });
+      const { data, provider, model, usage } = await SpecializedAIService.generateStructured<ThinkingResponse>(
+        'thinking',
+        thinkingPrompt.text,
+        THINKING_FORMAT
+      );
 
       return {
-        steps,
-        thoughts: parsed.thoughts || []
+        steps: data.steps.map(step => ({ ...step, status: 'pending' as const })),
+        thoughts: data.thoughts,
+        generatedBy: { provider, model, prompt: thinkingPrompt.ref, usage }
       };
     } catch (error) {
-      console.error('Failed to parse thinking response:', error);
-      throw new Error('Invalid thinking response format');
+      console.warn('AI thinking failed, using fallback:', error);
+      return { ...this.generateFallbackThinking(userRequest), generatedBy: SpecializedAIService.fallbackSource(error) };
     }
   }
 
@@ -0,0 +1,149 @@
+import type { AIProvider, TokenUsage } from './ai-providers';
+import { AIUsage, GenerationSource, ProjectBudget, ProjectUsage } from '@/types/app-architecture';
+
+interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// List prices; the longest matching prefix wins, so dated model versions are covered
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+// Providers that run without per-token charges
+const FREE_PROVIDERS: AIProvider[] = ['local', 'replay'];
+
+export const EMPTY_USAGE: AIUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0, calls: 0 };
+
+/**
+ * Token and cost accounting for AI calls: prices a single call, adds usage
+ * up per request and per project, and checks project budgets
+ */
+export class UsageMeter {
+  /**
+   * Usage of one call, with the cost estimated from the model's list price.
+   * Models without a known price count as free; `AI_PRICING` can add them.
+   */
+  static forCall(provider: AIProvider, model: string, tokens: TokenUsage): AIUsage {
+    const price = FREE_PROVIDERS.includes(provider) ? undefined : this.findPrice(model);
+    const costUsd = price
+      ? (tokens.inputTokens * price.input + tokens.outputTokens * price.output) / 1_000_000
+      : 0;
+    return { ...tokens, costUsd, calls: 1 };
+  }
+
+  static add(a: AIUsage | undefined, b: AIUsage | undefined): AIUsage {
+    return {
+      inputTokens: (a?.inputTokens || 0) + (b?.inputTokens || 0),
+      outputTokens: (a?.outputTokens || 0) + (b?.outputTokens || 0),
+      costUsd: (a?.costUsd || 0) + (b?.costUsd || 0),
+      calls: (a?.calls || 0) + (b?.calls || 0),
+    };
+  }
+
+  /**
+   * Total usage of the sources that report it, e.g. every screen of a wireframe set
+   */
+  static total(sources: (GenerationSource | undefined)[]): AIUsage | undefined {
+    const reported = sources.filter((source): source is GenerationSource & { usage: AIUsage } => !!source?.usage);
+    return reported.length > 0 ? reported.reduce<AIUsage>((sum, source) => this.add(sum, source.usage), EMPTY_USAGE) : undefined;
+  }
+
+  static addToProject(project: ProjectUsage | undefined, sources: (GenerationSource | undefined)[]): ProjectUsage {
+    const updated: ProjectUsage = { ...EMPTY_USAGE, ...project, byModel: { ...project?.byModel } };
+    sources.forEach(source => {
+      if (!source?.usage) return;
+      const key = `${source.provider}:${source.model}`;
+      updated.byModel[key] = this.add(updated.byModel[key], source.usage);
+      Object.assign(updated, this.add(updated, source.usage));
+    });
+    return updated;
+  }
+
+  /**
+   * A message explaining which budget limit has been reached, or null while
+   * generation may continue
+   */
+  static checkBudget(usage: AIUsage | undefined, budget: ProjectBudget | undefined): string | null {
+    if (!usage || !budget) return null;
+    if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+      return `This project has used ${this.formatEstimate(usage.costUsd)} of its ${this.formatCost(budget.maxCostUsd)} budget.`;
+    }
+    const tokens = usage.inputTokens + usage.outputTokens;
+    if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+      return `This project has used ${this.formatTokens(tokens)} of its ${this.formatTokens(budget.maxTokens)} budget.`;
+    }
+    return null;
+  }
+
+  /**
+   * e.g. "3.2k tokens, ~$0.01"
+   */
+  static format(usage: AIUsage): string {
+    return `${this.formatTokens(usage.inputTokens + usage.outputTokens)}, ${this.formatEstimate(usage.costUsd)}`;
+  }
+
+  /**
+   * An estimated cost, e.g. "~$0.42", or "<$0.01" for fractions of a cent
+   */
+  static formatEstimate(costUsd: number): string {
+    const cost = this.formatCost(costUsd);
+    return cost.startsWith('<') ? cost : `~${cost}`;
+  }
+
+  static formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M tokens`;
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k tokens`;
+    return `${tokens} token${tokens !== 1 ? 's' : ''}`;
+  }
+
+  static formatCost(costUsd: number): string {
+    return costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`;
+  }
+
+  private static findPrice(model: string): ModelPrice | undefined {
+    const prices = { ...MODEL_PRICES, ...this.readPricingOverrides() };
+    const match = Object.keys(prices)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? prices[match] : undefined;
+  }
+
+  private static readPricingOverrides(): Record<string, ModelPrice> {
+    const raw = process.env.AI_PRICING;
+    if (!raw) return {};
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (typeof parsed !== 'object' || parsed === null) return {};
+      return Object.fromEntries(
+        Object.entries(parsed as Record<string, unknown>).filter((entry): entry is [string, ModelPrice] => {
+          const price = entry[1] as Partial<ModelPrice> | null;
+          return typeof price?.input === 'number' && typeof price?.output === 'number';
+        })
+      );
+    } catch (error) {
+      console.warn('Ignoring invalid AI_PRICING configuration:', error);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  AppArchitecture,
+  ApiEndpoint,
+  ArchitectureImportIssue,
+  ArchitectureImportResult,
+  ComplexityLevel,
+  HttpMethod,
+  Screen,
+  ScreenType,
+  Transition,
+  TransitionTrigger
+} from '@/types/app-architecture';
+import { AIFlowGenerator } from './ai-flow-generator';
+import { DataModelGenerator } from './data-model-generator';
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// The entry's id, or a generated one when it has none; null when the id is already taken
+type ClaimId = (rawId: unknown, generated: string, path: string) => string | null;
+
+export class ArchitectureImporter {
+  /**
+   * Parse an exported architecture file, reporting JSON syntax errors as issues
+   */
+  static parse(text: string): ArchitectureImportResult {
+    try {
+      return this.validate(JSON.parse(text));
+    } catch (error) {
+      return {
+        architecture: null,
+        issues: [{
+          path: '',
+          message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}`,
+          severity: 'error'
+        }]
+      };
+    }
+  }
+
+  /**
+   * Check a parsed value against the `AppArchitecture` shape. Enum values go
+   * through the same normalizers as AI output; ids and positions are kept
+   * so the saved layout can be restored.
+   */
+  static validate(data: unknown): ArchitectureImportResult {
+    const issues: ArchitectureImportIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ path, message, severity: 'error' });
+    const warn = (path: string, message: string) => issues.push({ path, message, severity: 'warning' });
+
+    // Accept the `{ architecture }` payload returned by the generate API as well
+    const root = isRecord(data) && isRecord(data.architecture) && !Array.isArray(data.screens) ? data.architecture : data;
+    if (!isRecord(root)) {
+      error('', 'Expected a JSON object describing an app architecture');
+      return { architecture: null, issues };
+    }
+
+    if (!Array.isArray(root.screens)) {
+      error('screens', 'Expected an array of screens');
+      return { architecture: null, issues };
+    }
+
+    // Screens and endpoints share the canvas's node ids, so ids must be unique
+    // across all three lists. Generated ids skip any id the file uses.
+    const fileIds = new Set([root.screens, root.transitions, root.apiEndpoints]
+      .flatMap(list => Array.isArray(list) ? list : [])
+      .map(raw => isRecord(raw) && isNonEmptyString(raw.id) ? raw.id : '')
+      .filter(Boolean));
+    const owners = new Map<string, string>();
+    const claimId: ClaimId = (rawId, generated, path) => {
+      let id = generated;
+      if (isNonEmptyString(rawId)) {
+        id = rawId;
+        const owner = owners.get(id);
+        if (owner) {
+          error(`${path}.id`, `Duplicate id "${id}", already used by ${owner}`);
+          return null;
+        }
+      } else {
+        for (let n = 2; fileIds.has(id) || owners.has(id); n++) id = `${generated}_${n}`;
+      }
+      owners.set(id, path);
+      return id;
+    };
+
+    const screens = this.validateScreens(root.screens, claimId, error, warn);
+    const transitions = this.validateTransitions(root.transitions, screens, claimId, error, warn);
+    const apiEndpoints = this.validateApiEndpoints(root.apiEndpoints, screens, claimId, error, warn);
+
+    if (root.dataModel !== undefined && !isRecord(root.dataModel)) {
+      warn('dataModel', 'Expected an object describing the data model, it will be inferred again');
+    }
+
+    if (!isNonEmptyString(root.name)) {
+      warn('name', 'Missing app name, using "Imported App"');
+    }
+
+    const metadata = isRecord(root.metadata) ? root.metadata : {};
+    if (metadata.complexity !== undefined && !Object.values(ComplexityLevel).includes(metadata.complexity as ComplexityLevel)) {
+      warn('metadata.complexity', `Unknown complexity "${metadata.complexity}", using "${AIFlowGenerator.normalizeComplexity(String(metadata.complexity))}"`);
+    }
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return { architecture: null, issues };
+    }
+
+    const now = new Date().toISOString();
+    const architecture: AppArchitecture = {
+      id: isNonEmptyString(root.id) ? root.id : `app_${Date.now()}`,
+      name: isNonEmptyString(root.name) ? root.name : 'Imported App',
+      description: typeof root.description === 'string' ? root.description : '',
+      screens,
+      transitions,
+      apiEndpoints,
+      ...(isRecord(root.dataModel) ? { dataModel: DataModelGenerator.normalize(root.dataModel, screens) } : {}),
+      metadata: {
+        createdAt: typeof metadata.createdAt === 'string' ? metadata.createdAt : now,
+        updatedAt: now,
+        version: typeof metadata.version === 'string' ? metadata.version : '1.0.0',
+        tags: Array.isArray(metadata.tags) ? metadata.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+        complexity: AIFlowGenerator.normalizeComplexity(String(metadata.complexity ?? '')),
+        estimatedScreens: screens.length,
+        estimatedApis: apiEndpoints.length
+      }
+    };
+
+    return { architecture, issues };
+  }
+
+  private static validateScreens(
+    rawScreens: unknown[],
+    claimId: ClaimId,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void
+  ): Screen[] {
+    const screens: Screen[] = [];
+
+    rawScreens.forEach((raw, index) => {
+      const path = `screens[${index}]`;
+      if (!isRecord(raw)) {
+        error(path, 'Expected a screen object');
+        return;
+      }
+      if (!isNonEmptyString(raw.name)) {
+        error(`${path}.name`, 'Screen name is required');
+        return;
+      }
+
+      const id = claimId(raw.id, `screen_${index}`, path);
+      if (!id) return;
+      if (!isNonEmptyString(raw.id)) {
+        warn(`${path}.id`, `Missing id, using "${id}"`);
+      }
+
+      const type = AIFlowGenerator.normalizeScreenType(String(raw.type ?? ''));
+      if (!Object.values(ScreenType).includes(raw.type as ScreenType)) {
+        warn(`${path}.type`, `Unknown screen type "${raw.type}", using "${type}"`);
+      }
+
+      let components: string[] = [];
+      if (Array.isArray(raw.components)) {
+        components = raw.components.filter((component): component is string => typeof component === 'string');
+      } else if (raw.components !== undefined) {
+        warn(`${path}.components`, 'Expected an array of component names, ignoring');
+      }
+
+      const data = isRecord(raw.data) ? raw.data : {};
+      if (data.requiresAuth !== undefined && typeof data.requiresAuth !== 'boolean') {
+        warn(`${path}.data.requiresAuth`, 'Expected true or false, using false');
+      }
+
+      screens.push({
+        id,
+        name: raw.name,
+        type,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        components,
+        data: { ...data, requiresAuth: data.requiresAuth === true },
+        position: this.validatePosition(raw.position, `${path}.position`, warn)
+      });
+    });
+
+    return screens;
+  }
+
+  private static validateTransitions(
+    rawTransitions: unknown,
+    screens: Screen[],
+    claimId: ClaimId,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void
+  ): Transition[] {
+    if (rawTransitions === undefined) {
+      warn('transitions', 'No transitions found; screens will not be connected');
+      return [];
+    }
+    if (!Array.isArray(rawTransitions)) {
+      error('transitions', 'Expected an array of transitions');
+      return [];
+    }
+
+    const transitions: Transition[] = [];
+    rawTransitions.forEach((raw, index) => {
+      const path = `transitions[${index}]`;
+      if (!isRecord(raw)) {
+        error(path, 'Expected a transition object');
+        return;
+      }
+
+      const from = this.resolveScreen(raw.from, screens);
+      const to = this.resolveScreen(raw.to, screens);
+      if (!from) error(`${path}.from`, `Unknown screen "${raw.from}"`);
+      if (!to) error(`${path}.to`, `Unknown screen "${raw.to}"`);
+      if (!from || !to) return;
+
+      const id = claimId(raw.id, `transition_${index}`, path);
+      if (!id) return;
+
+      const trigger = AIFlowGenerator.normalizeTransitionTrigger(String(raw.trigger ?? ''));
+      if (raw.trigger !== undefined && !Object.values(TransitionTrigger).includes(raw.trigger as TransitionTrigger)) {
+        warn(`${path}.trigger`, `Unknown trigger "${raw.trigger}", using "${trigger}"`);
+      }
+
+      transitions.push({
+        id,
+        from: from.id,
+        to: to.id,
+        trigger,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        condition: typeof raw.condition === 'string' ? raw.condition : undefined
+      });
+    });
+
+    return transitions;
+  }
+
+  private static validateApiEndpoints(
+    rawEndpoints: unknown,
+    screens: Screen[],
+    claimId: ClaimId,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void
+  ): ApiEndpoint[] {
+    if (rawEndpoints === undefined) return [];
+    if (!Array.isArray(rawEndpoints)) {
+      error('apiEndpoints', 'Expected an array of API endpoints');
+      return [];
+    }
+
+    const endpoints: ApiEndpoint[] = [];
+    rawEndpoints.forEach((raw, index) => {
+      const path = `apiEndpoints[${index}]`;
+      if (!isRecord(raw)) {
+        error(path, 'Expected an API endpoint object');
+        return;
+      }
+      if (!isNonEmptyString(raw.path)) {
+        error(`${path}.path`, 'Endpoint path is required');
+        return;
+      }
+
+      const id = claimId(raw.id, `api_${index}`, path);
+      if (!id) return;
+
+      const method = AIFlowGenerator.normalizeHttpMethod(String(raw.method ?? ''));
+      if (!Object.values(HttpMethod).includes(String(raw.method).toUpperCase() as HttpMethod)) {
+        warn(`${path}.method`, `Unknown HTTP method "${raw.method}", using "${method}"`);
+      }
+
+      const connectedScreens: string[] = [];
+      (Array.isArray(raw.connectedScreens) ? raw.connectedScreens : []).forEach((ref, refIndex) => {
+        const screen = this.resolveScreen(ref, screens);
+        if (screen) {
+          connectedScreens.push(screen.id);
+        } else {
+          warn(`${path}.connectedScreens[${refIndex}]`, `Unknown screen "${ref}", removing link`);
+        }
+      });
+
+      endpoints.push({
+        id,
+        name: isNonEmptyString(raw.name) ? raw.name : raw.path,
+        method,
+        path: raw.path,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        requestSchema: isRecord(raw.requestSchema) ? raw.requestSchema : undefined,
+        responseSchema: isRecord(raw.responseSchema) ? raw.responseSchema : undefined,
+        authentication: raw.authentication === true,
+        connectedScreens,
+        position: this.validatePosition(raw.position, `${path}.position`, warn)
+      });
+    });
+
+    return endpoints;
+  }
+
+  /**
+   * Match a transition or endpoint reference by screen id, falling back to name
+   */
+  private static resolveScreen(ref: unknown, screens: Screen[]): Screen | undefined {
+    if (typeof ref !== 'string') return undefined;
+    return screens.find(s => s.id === ref) || screens.find(s => s.name === ref);
+  }
+
+  private static validatePosition(
+    position: unknown,
+    path: string,
+    warn: (path: string, message: string) => void
+  ): { x: number; y: number } | undefined {
+    if (position === undefined) return undefined;
+    if (isRecord(position) && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+      return { x: position.x as number, y: position.y as number };
+    }
+    warn(path, 'Expected { x, y } coordinates, using automatic layout');
+    return undefined;
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  AppArchitecture,
+  ArchitectureLintIssue,
+  ArchitecturePatchOperation,
+  Screen,
+  ScreenType,
+  Transition,
+  TransitionTrigger
+} from '@/types/app-architecture';
+import { AIFlowGenerator } from './ai-flow-generator';
+
+const SEVERITY_ORDER: Record<ArchitectureLintIssue['severity'], number> = { error: 0, warning: 1 };
+
+// Screens an app can open on
+const ENTRY_TYPES: ScreenType[] = [ScreenType.LOADING, ScreenType.AUTH, ScreenType.ONBOARDING];
+
+/**
+ * Rule-based checks over an `AppArchitecture`. Every issue points at the
+ * screen, transition or endpoint it concerns, and common problems carry a
+ * quick-fix expressed as an `ArchitecturePatch`.
+ */
+export class ArchitectureLinter {
+  static lint(architecture: AppArchitecture): ArchitectureLintIssue[] {
+    const screenIds = new Set(architecture.screens.map(screen => screen.id));
+    const transitions = architecture.transitions.filter(t => screenIds.has(t.from) && screenIds.has(t.to));
+
+    const issues = [
+      ...this.checkDanglingTransitions(architecture, screenIds),
+      ...this.checkConnectedScreens(architecture, screenIds),
+      ...this.checkReachability(architecture, transitions),
+      ...this.checkDeadEnds(architecture, transitions),
+      ...this.checkAuthentication(architecture, transitions),
+      ...this.checkDuplicateNames(architecture)
+    ];
+
+    return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }
+
+  /**
+   * Ids of the canvas nodes an issue should highlight
+   */
+  static nodeIdsFor(issue: ArchitectureLintIssue, architecture: AppArchitecture): string[] {
+    if (issue.screenId) return [issue.screenId];
+    if (issue.endpointId) return [issue.endpointId];
+    const transition = architecture.transitions.find(t => t.id === issue.transitionId);
+    return transition ? [transition.from, transition.to] : [];
+  }
+
+  private static checkDanglingTransitions(architecture: AppArchitecture, screenIds: Set<string>): ArchitectureLintIssue[] {
+    return architecture.transitions
+      .filter(t => !screenIds.has(t.from) || !screenIds.has(t.to))
+      .map((t): ArchitectureLintIssue => ({
+        id: `dangling-transition:${t.id}`,
+        rule: 'dangling-transition',
+        severity: 'error',
+        message: `Transition "${t.id}" points to a missing screen (${!screenIds.has(t.from) ? t.from : t.to})`,
+        transitionId: t.id,
+        fix: {
+          label: 'Remove transition',
+          patch: { summary: `Remove transition ${t.id}`, operations: [{ op: 'remove_transition', transitionId: t.id }] }
+        }
+      }));
+  }
+
+  private static checkConnectedScreens(architecture: AppArchitecture, screenIds: Set<string>): ArchitectureLintIssue[] {
+    return architecture.apiEndpoints.flatMap((endpoint): ArchitectureLintIssue[] => {
+      const missing = endpoint.connectedScreens.filter(id => !screenIds.has(id));
+      if (missing.length === 0) return [];
+
+      return [{
+        id: `missing-connected-screen:${endpoint.id}`,
+        rule: 'missing-connected-screen',
+        severity: 'error',
+        message: `${endpoint.method} ${endpoint.path} is connected to unknown screen${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`,
+        endpointId: endpoint.id,
+        fix: {
+          label: 'Remove missing links',
+          patch: {
+            summary: `Unlink missing screens from ${endpoint.name}`,
+            operations: [{
+              op: 'update_api_endpoint',
+              endpointId: endpoint.id,
+              changes: { connectedScreens: endpoint.connectedScreens.filter(id => screenIds.has(id)) }
+            }]
+          }
+        }
+      }];
+    });
+  }
+
+  /**
+   * Apps can open on more than one screen (a welcome tour and a sign-in, say),
+   * so every launch, auth or onboarding screen nothing leads to is a root
+   * alongside the entry screen
+   */
+  private static checkReachability(architecture: AppArchitecture, transitions: Transition[]): ArchitectureLintIssue[] {
+    const entry = AIFlowGenerator.findEntryScreen(architecture.screens);
+    if (!entry) return [];
+
+    const hasIncoming = new Set(transitions.map(t => t.to));
+    const roots = [entry, ...architecture.screens.filter(screen => screen.id !== entry.id && !hasIncoming.has(screen.id) &&
+      ENTRY_TYPES.includes(screen.type))];
+    const rootNames = roots.map(root => root.name).join(' or ');
+
+    const reachable = this.reachableFrom(roots.map(root => root.id), transitions);
+    const hub = this.findHub(architecture.screens, reachable) || entry;
+    let nextTransition = this.nextIndex(architecture.transitions);
+
+    return architecture.screens
+      .filter(screen => !reachable.has(screen.id))
+      .map((screen): ArchitectureLintIssue => ({
+        id: `unreachable-screen:${screen.id}`,
+        rule: 'unreachable-screen',
+        severity: 'error',
+        message: `${screen.name} can't be reached from ${rootNames}`,
+        screenId: screen.id,
+        fix: {
+          label: `Link from ${hub.name}`,
+          patch: {
+            summary: `Navigate from ${hub.name} to ${screen.name}`,
+            operations: [{ op: 'add_transition', transition: this.createTransition(nextTransition++, hub, screen) }]
+          }
+        }
+      }));
+  }
+
+  private static checkDeadEnds(architecture: AppArchitecture, transitions: Transition[]): ArchitectureLintIssue[] {
+    if (architecture.screens.length < 2) return [];
+
+    const hasExit = new Set(transitions.map(t => t.from));
+    let nextTransition = this.nextIndex(architecture.transitions);
+
+    return architecture.screens
+      .filter(screen => !hasExit.has(screen.id))
+      .map((screen): ArchitectureLintIssue => {
+        const target = this.findHub(architecture.screens, undefined, screen.id);
+        return {
+          id: `dead-end-screen:${screen.id}`,
+          rule: 'dead-end-screen',
+          severity: 'warning',
+          message: `${screen.name} has no way to navigate anywhere else`,
+          screenId: screen.id,
+          fix: target ? {
+            label: `Add way back to ${target.name}`,
+            patch: {
+              summary: `Navigate from ${screen.name} back to ${target.name}`,
+              operations: [{ op: 'add_transition', transition: this.createTransition(nextTransition++, screen, target) }]
+            }
+          } : undefined
+        };
+      });
+  }
+
+  /**
+   * Protected screens must only be reachable through an auth screen. The walk
+   * from the entry screen stops at auth screens; any protected screen it
+   * still reaches is a bypass.
+   */
+  private static checkAuthentication(architecture: AppArchitecture, transitions: Transition[]): ArchitectureLintIssue[] {
+    const protectedScreens = architecture.screens.filter(s => s.data.requiresAuth && s.type !== ScreenType.AUTH);
+    if (protectedScreens.length === 0) return [];
+
+    const entry = AIFlowGenerator.findEntryScreen(architecture.screens);
+    const authScreen = architecture.screens.find(s => s.type === ScreenType.AUTH);
+    if (!authScreen) {
+      const login: Screen = {
+        id: `screen_${this.nextIndex(architecture.screens)}`,
+        name: 'Login',
+        type: ScreenType.AUTH,
+        description: 'Sign in to access protected screens',
+        components: ['Email Input', 'Password Input', 'Sign In Button'],
+        data: { requiresAuth: false }
+      };
+      // Send users through the new login screen on the way to the main screen
+      let nextTransition = this.nextIndex(architecture.transitions);
+      const operations: ArchitecturePatchOperation[] = [{ op: 'add_screen', screen: login }];
+      if (entry?.type === ScreenType.LOADING) {
+        operations.push({ op: 'add_transition', transition: this.createTransition(nextTransition++, entry, login) });
+      }
+      const target = this.findHub(architecture.screens) || protectedScreens[0];
+      operations.push({ op: 'add_transition', transition: this.createTransition(nextTransition++, login, target) });
+
+      return [{
+        id: 'missing-auth-screen',
+        rule: 'missing-auth-screen',
+        severity: 'warning',
+        message: `${protectedScreens.length} screen${protectedScreens.length > 1 ? 's require' : ' requires'} authentication but there is no auth screen`,
+        screenId: protectedScreens[0].id,
+        fix: { label: 'Add login screen', patch: { summary: 'Add a login screen', operations } }
+      }];
+    }
+
+    if (!entry) return [];
+
+    // Breadth-first from the entry screen, without walking past auth screens
+    const via = new Map<string, Transition | null>([[entry.id, null]]);
+    const queue = [entry];
+    while (queue.length > 0) {
+      const screen = queue.shift() as Screen;
+      if (screen.type === ScreenType.AUTH) continue;
+      transitions.filter(t => t.from === screen.id && !via.has(t.to)).forEach(t => {
+        via.set(t.to, t);
+        const next = architecture.screens.find(s => s.id === t.to);
+        if (next) queue.push(next);
+      });
+    }
+
+    return protectedScreens
+      .filter(screen => via.has(screen.id))
+      .map((screen): ArchitectureLintIssue => {
+        const transition = via.get(screen.id);
+        const from = transition ? architecture.screens.find(s => s.id === transition.from) : undefined;
+        return {
+          id: `auth-bypass:${screen.id}`,
+          rule: 'auth-bypass',
+          severity: 'error',
+          message: from
+            ? `${screen.name} requires authentication but is reachable from ${from.name} without signing in`
+            : `${screen.name} requires authentication but is the first screen users see`,
+          screenId: screen.id,
+          transitionId: transition?.id,
+          // Only the transition crossing from a public screen needs rerouting;
+          // protected screens behind it are fixed along with it
+          fix: transition && from && !from.data.requiresAuth
+            ? this.routeThroughAuth(architecture, transition, authScreen, screen)
+            : undefined
+        };
+      });
+  }
+
+  private static routeThroughAuth(
+    architecture: AppArchitecture,
+    transition: Transition,
+    authScreen: Screen,
+    target: Screen
+  ): ArchitectureLintIssue['fix'] {
+    const operations: ArchitecturePatchOperation[] = architecture.transitions.some(t => t.from === transition.from && t.to === authScreen.id)
+      ? [{ op: 'remove_transition', transitionId: transition.id }]
+      : [{ op: 'update_transition', transitionId: transition.id, changes: { to: authScreen.id } }];
+
+    if (!architecture.transitions.some(t => t.from === authScreen.id && t.to === target.id)) {
+      operations.push({
+        op: 'add_transition',
+        transition: this.createTransition(this.nextIndex(architecture.transitions), authScreen, target)
+      });
+    }
+
+    return {
+      label: `Route through ${authScreen.name}`,
+      patch: { summary: `Require ${authScreen.name} before ${target.name}`, operations }
+    };
+  }
+
+  private static checkDuplicateNames(architecture: AppArchitecture): ArchitectureLintIssue[] {
+    const seen = new Map<string, Screen>();
+    const issues: ArchitectureLintIssue[] = [];
+
+    architecture.screens.forEach(screen => {
+      const key = screen.name.trim().toLowerCase();
+      const first = seen.get(key);
+      if (first) {
+        issues.push({
+          id: `duplicate-screen-name:${screen.id}`,
+          rule: 'duplicate-screen-name',
+          severity: 'warning',
+          message: `More than one screen is named "${screen.name}"; chat edits and wireframes may pick the wrong one`,
+          screenId: screen.id,
+          fix: {
+            label: `Rename to "${screen.name} 2"`,
+            patch: {
+              summary: `Rename duplicate ${screen.name}`,
+              operations: [{ op: 'update_screen', screenId: screen.id, changes: { name: `${screen.name} 2` } }]
+            }
+          }
+        });
+      } else {
+        seen.set(key, screen);
+      }
+    });
+
+    return issues;
+  }
+
+  private static reachableFrom(startIds: string[], transitions: Transition[]): Set<string> {
+    const reachable = new Set(startIds);
+    const queue = [...startIds];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      transitions.filter(t => t.from === id && !reachable.has(t.to)).forEach(t => {
+        reachable.add(t.to);
+        queue.push(t.to);
+      });
+    }
+    return reachable;
+  }
+
+  /**
+   * The main screen users return to, preferring dashboard and home screens
+   */
+  private static findHub(screens: Screen[], within?: Set<string>, excludeId?: string): Screen | undefined {
+    const candidates = screens.filter(s => s.id !== excludeId && (!within || within.has(s.id)));
+    return candidates.find(s => s.type === ScreenType.DASHBOARD || s.type === ScreenType.HOME) ||
+      AIFlowGenerator.findEntryScreen(candidates.filter(s => s.type !== ScreenType.LOADING && s.type !== ScreenType.AUTH));
+  }
+
+  private static createTransition(index: number, from: Screen, to: Screen): Transition {
+    return {
+      id: `transition_${index}`,
+      from: from.id,
+      to: to.id,
+      trigger: TransitionTrigger.USER_ACTION,
+      description: `Navigate to ${to.name}`
+    };
+  }
+
+  private static nextIndex(items: { id: string }[]): number {
+    const indices = items
+      .map(item => parseInt(item.id.replace(/^\D+/, ''), 10))
+      .filter(index => Number.isFinite(index));
+    return indices.length > 0 ? Math.max(...indices) + 1 : items.length;
+  }
+}
@@ -0,0 +1,461 @@
+import {
+  AppArchitecture,
+  ApiEndpoint,
+  ArchitecturePatch,
+  ArchitecturePatchChange,
+  ArchitecturePatchOperation,
+  Screen,
+  ScreenType,
+  Transition,
+  TransitionTrigger
+} from '@/types/app-architecture';
+import { SpecializedAIService, FALLBACK_SOURCE } from './specialized-ai-services';
+import { AIFlowGenerator } from './ai-flow-generator';
+import { PromptRegistry, RenderedPrompt } from './prompt-registry';
+
+export class ArchitectureModifier {
+  /**
+   * Turn a natural-language change request into a structured patch against
+   * the given architecture. Nothing is applied here; see `applyPatch`.
+   */
+  static async generatePatch(architecture: AppArchitecture, instruction: string): Promise<ArchitecturePatch> {
+    try {
+      const prompt = await this.buildModificationPrompt(architecture, instruction);
+      const { text: response, provider, model, usage } = await SpecializedAIService.generate('architecture', prompt.text);
+
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON found in response');
+      }
+      return { ...this.normalizePatch(JSON.parse(jsonMatch[0]), architecture), generatedBy: { provider, model, prompt: prompt.ref, usage } };
+    } catch (error) {
+      console.warn('AI modification failed, falling back to keyword analysis:', error);
+      return { ...this.generateFallbackPatch(architecture, instruction), generatedBy: FALLBACK_SOURCE };
+    }
+  }
+
+  /**
+   * Apply a patch and return the updated architecture. Removing a screen also
+   * drops its transitions and unlinks it from API endpoints. New items whose
+   * ids were taken since the patch was made are renumbered, so check
+   * `isStale` first for patches that were left pending.
+   */
+  static applyPatch(architecture: AppArchitecture, patch: ArchitecturePatch): AppArchitecture {
+    let screens = [...architecture.screens];
+    let transitions = [...architecture.transitions];
+    let apiEndpoints = [...architecture.apiEndpoints];
+
+    const screenIds = new Map<string, string>();
+    const newId = <T extends { id: string }>(items: T[], id: string, prefix: string) =>
+      items.some(item => item.id === id) ? `${prefix}${this.nextIndex(items.map(item => item.id), prefix)}` : id;
+    const screenId = (id: string) => screenIds.get(id) ?? id;
+
+    for (const operation of patch.operations) {
+      switch (operation.op) {
+        case 'add_screen': {
+          const id = newId(screens, operation.screen.id, 'screen_');
+          screenIds.set(operation.screen.id, id);
+          screens.push({ ...operation.screen, id });
+          break;
+        }
+        case 'remove_screen': {
+          const id = screenId(operation.screenId);
+          screens = screens.filter(s => s.id !== id);
+          transitions = transitions.filter(t => t.from !== id && t.to !== id);
+          apiEndpoints = apiEndpoints.map(endpoint => ({
+            ...endpoint,
+            connectedScreens: endpoint.connectedScreens.filter(connected => connected !== id)
+          }));
+          break;
+        }
+        case 'update_screen':
+          screens = screens.map(s => s.id === screenId(operation.screenId) ? { ...s, ...operation.changes } : s);
+          break;
+        case 'add_transition':
+          transitions.push({
+            ...operation.transition,
+            id: newId(transitions, operation.transition.id, 'transition_'),
+            from: screenId(operation.transition.from),
+            to: screenId(operation.transition.to)
+          });
+          break;
+        case 'remove_transition':
+          transitions = transitions.filter(t => t.id !== operation.transitionId);
+          break;
+        case 'update_transition':
+          transitions = transitions.map(t => t.id === operation.transitionId ? { ...t, ...operation.changes } : t);
+          break;
+        case 'add_api_endpoint':
+          apiEndpoints.push({
+            ...operation.endpoint,
+            id: newId(apiEndpoints, operation.endpoint.id, 'api_'),
+            connectedScreens: operation.endpoint.connectedScreens.map(screenId)
+          });
+          break;
+        case 'remove_api_endpoint':
+          apiEndpoints = apiEndpoints.filter(e => e.id !== operation.endpointId);
+          break;
+        case 'update_api_endpoint':
+          apiEndpoints = apiEndpoints.map(e => e.id === operation.endpointId ? { ...e, ...operation.changes } : e);
+          break;
+      }
+    }
+
+    return {
+      ...architecture,
+      screens,
+      transitions,
+      apiEndpoints,
+      metadata: {
+        ...architecture.metadata,
+        updatedAt: new Date().toISOString(),
+        estimatedScreens: screens.length,
+        estimatedApis: apiEndpoints.length
+      }
+    };
+  }
+
+  /**
+   * Whether a patch refers to screens, transitions or endpoints that no
+   * longer exist, e.g. because the flow was edited while it was pending
+   */
+  static isStale(architecture: AppArchitecture, patch: ArchitecturePatch): boolean {
+    const screenIds = new Set(architecture.screens.map(s => s.id));
+    const transitionIds = new Set(architecture.transitions.map(t => t.id));
+    const endpointIds = new Set(architecture.apiEndpoints.map(e => e.id));
+    const addedScreens = new Set<string>();
+    const hasScreen = (id: string) => screenIds.has(id) || addedScreens.has(id);
+
+    return patch.operations.some(operation => {
+      switch (operation.op) {
+        case 'add_screen':
+          addedScreens.add(operation.screen.id);
+          return false;
+        case 'remove_screen':
+        case 'update_screen':
+          return !hasScreen(operation.screenId);
+        case 'add_transition':
+          return !hasScreen(operation.transition.from) || !hasScreen(operation.transition.to);
+        case 'remove_transition':
+        case 'update_transition':
+          return !transitionIds.has(operation.transitionId);
+        case 'add_api_endpoint':
+          return !operation.endpoint.connectedScreens.every(hasScreen);
+        case 'remove_api_endpoint':
+        case 'update_api_endpoint':
+          return !endpointIds.has(operation.endpointId);
+      }
+    });
+  }
+
+  /**
+   * Describe each operation in human terms for the diff preview
+   */
+  static describePatch(architecture: AppArchitecture, patch: ArchitecturePatch): ArchitecturePatchChange[] {
+    const screens = [...architecture.screens];
+    patch.operations.forEach(operation => {
+      if (operation.op === 'add_screen') screens.push(operation.screen);
+    });
+    const screenName = (id: string) => screens.find(s => s.id === id)?.name || id;
+    const transitionLabel = (id: string) => {
+      const transition = architecture.transitions.find(t => t.id === id);
+      return transition ? `${screenName(transition.from)} → ${screenName(transition.to)}` : id;
+    };
+    const endpointLabel = (id: string) => {
+      const endpoint = architecture.apiEndpoints.find(e => e.id === id);
+      return endpoint ? `${endpoint.method} ${endpoint.path}` : id;
+    };
+    const changedFields = (changes: object) =>
+      Object.keys(changes).map(key => key === 'data' ? 'requiresAuth' : key).join(', ');
+
+    return patch.operations.map((operation): ArchitecturePatchChange => {
+      switch (operation.op) {
+        case 'add_screen':
+          return { kind: 'add', target: 'screen', label: `${operation.screen.name} (${operation.screen.type})` };
+        case 'remove_screen':
+          return { kind: 'remove', target: 'screen', label: screenName(operation.screenId) };
+        case 'update_screen':
+          return { kind: 'update', target: 'screen', label: `${screenName(operation.screenId)}: ${changedFields(operation.changes)}` };
+        case 'add_transition':
+          return {
+            kind: 'add',
+            target: 'transition',
+            label: `${screenName(operation.transition.from)} → ${screenName(operation.transition.to)}`
+          };
+        case 'remove_transition':
+          return { kind: 'remove', target: 'transition', label: transitionLabel(operation.transitionId) };
+        case 'update_transition':
+          return {
+            kind: 'update',
+            target: 'transition',
+            label: `${transitionLabel(operation.transitionId)}: ${changedFields(operation.changes)}`
+          };
+        case 'add_api_endpoint':
+          return { kind: 'add', target: 'api', label: `${operation.endpoint.method} ${operation.endpoint.path}` };
+        case 'remove_api_endpoint':
+          return { kind: 'remove', target: 'api', label: endpointLabel(operation.endpointId) };
+        case 'update_api_endpoint':
+          return {
+            kind: 'update',
+            target: 'api',
+            label: `${endpointLabel(operation.endpointId)}: ${changedFields(operation.changes)}`
+          };
+      }
+    });
+  }
+
+  private static buildModificationPrompt(architecture: AppArchitecture, instruction: string): Promise<RenderedPrompt> {
+    const currentState = {
+      screens: architecture.screens.map(s => ({
+        id: s.id,
+        name: s.name,
+        type: s.type,
+        description: s.description,
+        requiresAuth: s.data.requiresAuth
+      })),
+      transitions: architecture.transitions.map(t => ({
+        id: t.id,
+        from: t.from,
+        to: t.to,
+        trigger: t.trigger,
+        description: t.description
+      })),
+      apiEndpoints: architecture.apiEndpoints.map(e => ({
+        id: e.id,
+        name: e.name,
+        method: e.method,
+        path: e.path,
+        authentication: e.authentication,
+        connectedScreens: e.connectedScreens
+      }))
+    };
+
+    return PromptRegistry.render('architecture-modification', {
+      appName: architecture.name,
+      appDescription: architecture.description,
+      currentState: JSON.stringify(currentState, null, 2),
+      instruction,
+    });
+  }
+
+  /**
+   * Validate raw model operations, resolve names to ids and assign ids to new items
+   */
+  private static normalizePatch(parsed: { summary?: unknown; operations?: unknown }, architecture: AppArchitecture): ArchitecturePatch {
+    const screens = [...architecture.screens];
+    const transitions = [...architecture.transitions];
+    const apiEndpoints = [...architecture.apiEndpoints];
+    let nextScreenIndex = this.nextIndex(screens.map(s => s.id), 'screen_');
+    let nextTransitionIndex = this.nextIndex(transitions.map(t => t.id), 'transition_');
+    let nextApiIndex = this.nextIndex(apiEndpoints.map(e => e.id), 'api_');
+
+    const findByRef = <T extends { id: string; name?: string }>(items: T[], ref: unknown) =>
+      items.find(item => item.id === ref) ||
+      items.find(item => typeof ref === 'string' && item.name?.toLowerCase() === ref.toLowerCase());
+
+    const operations: ArchitecturePatchOperation[] = [];
+
+    for (const raw of Array.isArray(parsed.operations) ? parsed.operations : []) {
+      switch (raw?.op) {
+        case 'add_screen': {
+          if (!raw.screen?.name) break;
+          const screen = AIFlowGenerator.normalizeScreen(raw.screen, nextScreenIndex++);
+          screens.push(screen);
+          operations.push({ op: 'add_screen', screen });
+          break;
+        }
+        case 'remove_screen': {
+          const screen = findByRef(screens, raw.screen ?? raw.screenId);
+          if (screen) operations.push({ op: 'remove_screen', screenId: screen.id });
+          break;
+        }
+        case 'update_screen': {
+          const screen = findByRef(screens, raw.screen ?? raw.screenId);
+          if (!screen || !raw.changes) break;
+          const changes: Partial<Omit<Screen, 'id'>> = {};
+          if (typeof raw.changes.name === 'string') changes.name = raw.changes.name;
+          if (typeof raw.changes.description === 'string') changes.description = raw.changes.description;
+          if (raw.changes.type) changes.type = AIFlowGenerator.normalizeScreenType(raw.changes.type);
+          if (Array.isArray(raw.changes.components)) changes.components = raw.changes.components;
+          if (typeof raw.changes.requiresAuth === 'boolean') {
+            changes.data = { ...screen.data, requiresAuth: raw.changes.requiresAuth };
+          }
+          if (Object.keys(changes).length > 0) {
+            operations.push({ op: 'update_screen', screenId: screen.id, changes });
+          }
+          break;
+        }
+        case 'add_transition': {
+          const from = findByRef(screens, raw.from);
+          const to = findByRef(screens, raw.to);
+          if (!from || !to) {
+            console.warn(`Invalid transition in patch: ${raw.from} -> ${raw.to}`);
+            break;
+          }
+          const transition: Transition = {
+            id: `transition_${nextTransitionIndex++}`,
+            from: from.id,
+            to: to.id,
+            trigger: AIFlowGenerator.normalizeTransitionTrigger(raw.trigger || 'user_action'),
+            description: raw.description || `Navigate to ${to.name}`,
+            condition: raw.condition
+          };
+          transitions.push(transition);
+          operations.push({ op: 'add_transition', transition });
+          break;
+        }
+        case 'remove_transition': {
+          const transition = transitions.find(t => t.id === (raw.transition ?? raw.transitionId)) ||
+            transitions.find(t => t.from === findByRef(screens, raw.from)?.id && t.to === findByRef(screens, raw.to)?.id);
+          if (transition) operations.push({ op: 'remove_transition', transitionId: transition.id });
+          break;
+        }
+        case 'update_transition': {
+          const transition = transitions.find(t => t.id === (raw.transition ?? raw.transitionId));
+          if (!transition || !raw.changes) break;
+          const changes: Partial<Omit<Transition, 'id'>> = {};
+          if (typeof raw.changes.description === 'string') changes.description = raw.changes.description;
+          if (typeof raw.changes.condition === 'string') changes.condition = raw.changes.condition;
+          if (raw.changes.trigger) changes.trigger = AIFlowGenerator.normalizeTransitionTrigger(raw.changes.trigger);
+          if (Object.keys(changes).length > 0) {
+            operations.push({ op: 'update_transition', transitionId: transition.id, changes });
+          }
+          break;
+        }
+        case 'add_api_endpoint': {
+          if (!raw.endpoint?.path) break;
+          const endpoint: ApiEndpoint = {
+            id: `api_${nextApiIndex++}`,
+            name: raw.endpoint.name || raw.endpoint.path,
+            method: AIFlowGenerator.normalizeHttpMethod(raw.endpoint.method),
+            path: raw.endpoint.path,
+            description: raw.endpoint.description || '',
+            requestSchema: raw.endpoint.requestSchema,
+            responseSchema: raw.endpoint.responseSchema,
+            authentication: !!raw.endpoint.authentication,
+            connectedScreens: (Array.isArray(raw.endpoint.connectedScreens) ? raw.endpoint.connectedScreens : [])
+              .map((ref: unknown) => findByRef(screens, ref)?.id)
+              .filter(Boolean)
+          };
+          apiEndpoints.push(endpoint);
+          operations.push({ op: 'add_api_endpoint', endpoint });
+          break;
+        }
+        case 'remove_api_endpoint': {
+          const endpoint = findByRef(apiEndpoints, raw.endpoint ?? raw.endpointId);
+          if (endpoint) operations.push({ op: 'remove_api_endpoint', endpointId: endpoint.id });
+          break;
+        }
+        case 'update_api_endpoint': {
+          const endpoint = findByRef(apiEndpoints, raw.endpoint ?? raw.endpointId);
+          if (!endpoint || !raw.changes) break;
+          const changes: Partial<Omit<ApiEndpoint, 'id'>> = {};
+          if (typeof raw.changes.name === 'string') changes.name = raw.changes.name;
+          if (typeof raw.changes.path === 'string') changes.path = raw.changes.path;
+          if (typeof raw.changes.description === 'string') changes.description = raw.changes.description;
+          if (raw.changes.method) changes.method = AIFlowGenerator.normalizeHttpMethod(raw.changes.method);
+          if (typeof raw.changes.authentication === 'boolean') changes.authentication = raw.changes.authentication;
+          if (Object.keys(changes).length > 0) {
+            operations.push({ op: 'update_api_endpoint', endpointId: endpoint.id, changes });
+          }
+          break;
+        }
+        default:
+          console.warn('Skipping unknown patch operation:', raw?.op);
+      }
+    }
+
+    return {
+      summary: typeof parsed.summary === 'string' && parsed.summary ? parsed.summary : 'Updated the user flow',
+      operations
+    };
+  }
+
+  /**
+   * Keyword-based fallback for simple "add X screen" / "remove X" requests
+   */
+  private static generateFallbackPatch(architecture: AppArchitecture, instruction: string): ArchitecturePatch {
+    const lowerInstruction = instruction.toLowerCase().trim();
+    const findScreenByMention = (mention: string) => {
+      const term = mention.replace(/\b(the|screen|page)\b/g, '').trim();
+      return term ? architecture.screens.find(s => s.name.toLowerCase().includes(term)) : undefined;
+    };
+
+    const removeMatch = lowerInstruction.match(/^(?:remove|delete|drop)\s+(.+)$/);
+    if (removeMatch) {
+      const screen = findScreenByMention(removeMatch[1]);
+      if (screen) {
+        return {
+          summary: `Removed the ${screen.name} screen and its connections.`,
+          operations: [{ op: 'remove_screen', screenId: screen.id }]
+        };
+      }
+    }
+
+    const addMatch = lowerInstruction.match(/^add\s+(?:an?\s+)?(.+?)\s+(?:screen|page)(?:\s+(after|from|before)\s+(.+))?$/);
+    if (addMatch) {
+      const [, rawName, relation, anchorMention] = addMatch;
+      const name = rawName.replace(/\b\w/g, letter => letter.toUpperCase());
+      const screen: Screen = {
+        id: `screen_${this.nextIndex(architecture.screens.map(s => s.id), 'screen_')}`,
+        name,
+        type: this.guessScreenType(rawName),
+        description: `${name} screen`,
+        components: [],
+        data: { requiresAuth: false }
+      };
+      const operations: ArchitecturePatchOperation[] = [{ op: 'add_screen', screen }];
+
+      const anchor = anchorMention ? findScreenByMention(anchorMention) : undefined;
+      if (anchor) {
+        const isBefore = relation === 'before';
+        operations.push({
+          op: 'add_transition',
+          transition: {
+            id: `transition_${this.nextIndex(architecture.transitions.map(t => t.id), 'transition_')}`,
+            from: isBefore ? screen.id : anchor.id,
+            to: isBefore ? anchor.id : screen.id,
+            trigger: TransitionTrigger.USER_ACTION,
+            description: `Navigate to ${isBefore ? anchor.name : name}`
+          }
+        });
+      }
+
+      return { summary: `Added a ${name} screen${anchor ? ` ${relation} ${anchor.name}` : ''}.`, operations };
+    }
+
+    return {
+      summary: "I couldn't work out a concrete change from that request. Try something like \"add a password reset screen after login\" or \"remove the cart\".",
+      operations: []
+    };
+  }
+
+  private static guessScreenType(name: string): ScreenType {
+    const keywordTypes: Array<[RegExp, ScreenType]> = [
+      [/login|sign ?in|sign ?up|register|password|auth/, ScreenType.AUTH],
+      [/verif|otp|code/, ScreenType.VERIFICATION],
+      [/onboard|welcome|intro/, ScreenType.ONBOARDING],
+      [/setting/, ScreenType.SETTINGS],
+      [/profile|account/, ScreenType.PROFILE],
+      [/cart|basket/, ScreenType.CART],
+      [/checkout/, ScreenType.CHECKOUT],
+      [/payment/, ScreenType.PAYMENT],
+      [/search/, ScreenType.SEARCH],
+      [/notification/, ScreenType.NOTIFICATIONS],
+      [/chat|message/, ScreenType.CHAT],
+      [/list|history|favorites/, ScreenType.LIST],
+      [/detail/, ScreenType.DETAIL],
+      [/form|create|edit|new/, ScreenType.FORM],
+      [/dashboard/, ScreenType.DASHBOARD]
+    ];
+    return keywordTypes.find(([pattern]) => pattern.test(name))?.[1] || ScreenType.HOME;
+  }
+
+  private static nextIndex(ids: string[], prefix: string): number {
+    const indices = ids
+      .filter(id => id.startsWith(prefix))
+      .map(id => parseInt(id.slice(prefix.length), 10))
+      .filter(index => !isNaN(index));
+    return indices.length > 0 ? Math.max(...indices) + 1 : ids.length;
+  }
+}
@@ -0,0 +1,110 @@
+export type StreamedArrayKey = 'screens' | 'transitions';
+
+export interface StreamedItem {
+  key: StreamedArrayKey;
+  index: number;
+  value: Record<string, unknown>;
+}
+
+const STREAMED_ARRAYS: StreamedArrayKey[] = ['screens', 'transitions'];
+
+/**
+ * Incrementally scans a streamed architecture JSON response and yields each
+ * object in the top-level "screens" and "transitions" arrays as soon as its
+ * closing brace arrives, without waiting for the full document.
+ */
+export class ArchitectureStreamParser {
+  private buffer = '';
+  private position = 0;
+  private stack: Array<'{' | '['> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: string | null = null;
+  private pendingKey: string | null = null;
+  private activeArray: { key: StreamedArrayKey; depth: number; count: number } | null = null;
+  private itemStart = -1;
+
+  /**
+   * Feed the next chunk of model output and return any items completed by it
+   */
+  push(delta: string): StreamedItem[] {
+    this.buffer += delta;
+    const items: StreamedItem[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.buffer.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          this.pendingKey = this.lastString;
+          break;
+        case ',':
+          this.pendingKey = null;
+          break;
+        case '{':
+          this.stack.push('{');
+          if (this.activeArray && this.stack.length === this.activeArray.depth + 1) {
+            this.itemStart = this.position;
+          }
+          this.pendingKey = null;
+          break;
+        case '[':
+          this.stack.push('[');
+          // Only arrays directly on the root object are streamed
+          if (
+            this.stack.length === 2 &&
+            this.pendingKey &&
+            STREAMED_ARRAYS.includes(this.pendingKey as StreamedArrayKey)
+          ) {
+            this.activeArray = { key: this.pendingKey as StreamedArrayKey, depth: this.stack.length, count: 0 };
+          }
+          this.pendingKey = null;
+          break;
+        case '}':
+          this.stack.pop();
+          if (this.activeArray && this.itemStart >= 0 && this.stack.length === this.activeArray.depth) {
+            const item = this.parseItem(this.buffer.slice(this.itemStart, this.position + 1));
+            if (item) {
+              items.push({ key: this.activeArray.key, index: this.activeArray.count++, value: item });
+            }
+            this.itemStart = -1;
+          }
+          break;
+        case ']':
+          if (this.activeArray && this.stack.length === this.activeArray.depth) {
+            this.activeArray = null;
+          }
+          this.stack.pop();
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  private parseItem(json: string): Record<string, unknown> | null {
+    try {
+      const value = JSON.parse(json);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+}
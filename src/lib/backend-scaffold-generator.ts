@@ -0,0 +1,474 @@
+import JSZip from 'jszip';
+import { ApiEndpoint, AppArchitecture, GeneratedCodeFile, HttpMethod } from '@/types/app-architecture';
+
+type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// The JSON Schema subset the generated validator understands
+export interface JsonSchema {
+  type: SchemaType;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  format?: string;
+}
+
+const SCHEMA_TYPES: SchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+// Methods whose input comes from the query string rather than a JSON body
+export const QUERY_METHODS: HttpMethod[] = [HttpMethod.GET, HttpMethod.DELETE];
+
+// Used when an endpoint has no response schema
+const DEFAULT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean' } },
+  required: ['success'],
+};
+
+const VALIDATION_MODULE = `// Generated request validation for the API route handlers
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  format?: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Check a request body against its schema. Query parameters are always
+ * strings, so with \`fromQuery\` numbers and booleans are converted first.
+ */
+export function validate<T>(schema: JsonSchema, value: unknown, fromQuery = false): ValidationResult<T> {
+  const errors: string[] = [];
+  const data = check(schema, value, '', errors, fromQuery);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: data as T };
+}
+
+function check(schema: JsonSchema, input: unknown, path: string, errors: string[], coerce: boolean): unknown {
+  const at = path || 'request';
+  let value = input;
+
+  if (coerce && typeof value === 'string') {
+    if ((schema.type === 'number' || schema.type === 'integer') && value.trim() !== '' && !isNaN(Number(value))) {
+      value = Number(value);
+    } else if (schema.type === 'boolean' && (value === 'true' || value === 'false')) {
+      value = value === 'true';
+    }
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(\`\${at} must be an object\`);
+        return value;
+      }
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...record };
+      for (const name of schema.required || []) {
+        if (record[name] === undefined || record[name] === null) {
+          errors.push(\`\${path ? \`\${path}.\` : ''}\${name} is required\`);
+        }
+      }
+      for (const [name, property] of Object.entries(schema.properties || {})) {
+        if (record[name] !== undefined && record[name] !== null) {
+          result[name] = check(property, record[name], path ? \`\${path}.\${name}\` : name, errors, coerce);
+        }
+      }
+      return result;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(\`\${at} must be an array\`);
+        return value;
+      }
+      return schema.items
+        ? value.map((item, index) => check(schema.items!, item, \`\${at}[\${index}]\`, errors, coerce))
+        : value;
+    case 'integer':
+      if (!Number.isInteger(value)) errors.push(\`\${at} must be an integer\`);
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(\`\${at} must be a number\`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(\`\${at} must be true or false\`);
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(\`\${at} must be a string\`);
+      } else if (schema.format === 'email' && !/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/.test(value)) {
+        errors.push(\`\${at} must be an email address\`);
+      } else if ((schema.format === 'date-time' || schema.format === 'date') && isNaN(Date.parse(value))) {
+        errors.push(\`\${at} must be a date\`);
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(\`\${at} must be one of \${schema.enum.join(', ')}\`);
+  }
+  return value;
+}
+`;
+
+const AUTH_MODULE = `import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Guard for endpoints that need a signed-in user. Returns the response to
+ * send when the request isn't authenticated, or null to carry on.
+ */
+export function requireAuth(request: NextRequest): NextResponse | null {
+  const header = request.headers.get('authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+  // TODO: verify the token with your auth provider instead of only checking it is present
+  if (!token) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  return null;
+}
+`;
+
+// An endpoint with the names its own path gave the parameters of its route file
+interface RoutedEndpoint {
+  endpoint: ApiEndpoint;
+  paramNames: Record<string, string>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const words = (value: string) => value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+// Identifiers can't start with a digit, so "2FA Verify" becomes "Endpoint2FaVerify"
+const joinWords = (value: string, fallback: string) => {
+  const joined = words(value).map(word => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^[0-9]/.test(joined) ? `${fallback}${joined}` : joined || fallback;
+};
+
+const toPascalCase = (value: string) => joinWords(value, 'Endpoint');
+
+const toCamelCase = (value: string) => {
+  const pascal = joinWords(value, 'Param');
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const propertyKey = (name: string) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+
+/**
+ * Scaffolds a Next.js API from the architecture's endpoints: a route handler
+ * per endpoint with request validation derived from its `requestSchema`,
+ * mock responses shaped by its `responseSchema`, and an auth guard where
+ * `authentication` is set. Endpoints sharing a path share a route file.
+ *
+ * Schemas may be JSON Schema or a shorthand map of field names to types,
+ * e.g. `{ title: 'string', dueDate: 'date?', tags: ['string'] }`, where a
+ * trailing `?` marks a field optional.
+ */
+export class BackendScaffoldGenerator {
+  /**
+   * Route handlers plus the shared validation and auth helpers they import
+   */
+  static generate(architecture: AppArchitecture): GeneratedCodeFile[] {
+    const routes = new Map<string, RoutedEndpoint[]>();
+    const slugs = new Map<string, string>();
+    architecture.apiEndpoints.forEach(endpoint => {
+      const { file, paramNames } = this.getRouteFile(endpoint.path, slugs);
+      routes.set(file, [...(routes.get(file) || []), { endpoint, paramNames }]);
+    });
+
+    const routeFiles = [...routes.entries()].map(([path, endpoints]) => this.generateRouteFile(path, endpoints));
+    const usesAuth = architecture.apiEndpoints.some(endpoint => endpoint.authentication);
+    const usesValidation = architecture.apiEndpoints.some(endpoint => endpoint.requestSchema);
+
+    return [
+      ...routeFiles,
+      ...(usesValidation ? [{ path: 'src/lib/api/validation.ts', content: VALIDATION_MODULE }] : []),
+      ...(usesAuth ? [{ path: 'src/lib/api/auth.ts', content: AUTH_MODULE }] : []),
+    ];
+  }
+
+  /**
+   * Zip the scaffold so it can be unpacked over a Next.js app
+   */
+  static async exportZip(architecture: AppArchitecture): Promise<Blob> {
+    const zip = new JSZip();
+    this.generate(architecture).forEach(file => zip.file(file.path, file.content));
+    return zip.generateAsync({ type: 'blob' });
+  }
+
+  /**
+   * Read a request or response schema, either JSON Schema or the shorthand field map
+   */
+  static normalizeSchema(raw: unknown): JsonSchema {
+    if (typeof raw === 'string') return this.parseShorthandType(raw);
+    if (Array.isArray(raw)) return { type: 'array', items: raw.length > 0 ? this.normalizeSchema(raw[0]) : undefined };
+    if (!isRecord(raw)) return { type: 'object', properties: {} };
+
+    const type = Array.isArray(raw.type) ? raw.type.find(t => t !== 'null') : raw.type;
+    if ((typeof type === 'string' && SCHEMA_TYPES.includes(type as SchemaType)) || isRecord(raw.properties)) {
+      const schema: JsonSchema = { type: (SCHEMA_TYPES.includes(type as SchemaType) ? type : 'object') as SchemaType };
+      if (isRecord(raw.properties)) {
+        schema.properties = Object.fromEntries(
+          Object.entries(raw.properties).map(([name, property]) => [name, this.normalizeSchema(property)])
+        );
+      }
+      const required = Array.isArray(raw.required) ? raw.required.filter((name): name is string => typeof name === 'string') : [];
+      if (required.length > 0) schema.required = required;
+      if (raw.items !== undefined) schema.items = this.normalizeSchema(raw.items);
+      if (Array.isArray(raw.enum)) schema.enum = raw.enum.filter((v): v is string | number => typeof v === 'string' || typeof v === 'number');
+      if (typeof raw.format === 'string') schema.format = raw.format;
+      return schema;
+    }
+
+    // Shorthand: every key is a field
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    Object.entries(raw).forEach(([name, value]) => {
+      const optional = name.endsWith('?') || (typeof value === 'string' && value.trim().endsWith('?'));
+      const field = name.replace(/\?$/, '');
+      properties[field] = this.normalizeSchema(typeof value === 'string' ? value.trim().replace(/\?$/, '') : value);
+      if (!optional) required.push(field);
+    });
+    return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+  }
+
+  /**
+   * `/api/tasks/:id` and `/tasks/{id}` both become `src/app/api/tasks/[id]/route.ts`.
+   * Next.js needs sibling dynamic folders to share a name, so the first
+   * parameter name seen under a parent, kept in `slugs`, is used for all of
+   * them; `paramNames` maps it back to the name this path gave it.
+   */
+  private static getRouteFile(path: string, slugs: Map<string, string>): { file: string; paramNames: Record<string, string> } {
+    const raw = path.split(/[?#]/)[0].split('/').filter(Boolean);
+    if (raw[0]?.toLowerCase() !== 'api') raw.unshift('api');
+
+    const segments: string[] = [];
+    const paramNames: Record<string, string> = {};
+    raw.forEach(segment => {
+      const param = /^(?::(.+)|\{(.+)\}|\[(.+)\])$/.exec(segment);
+      if (!param) {
+        segments.push(segment.toLowerCase().replace(/[^a-z0-9._-]+/g, '-'));
+        return;
+      }
+      const name = toCamelCase(param[1] || param[2] || param[3]);
+      const parent = segments.join('/');
+      const slug = slugs.get(parent) || name;
+      slugs.set(parent, slug);
+      paramNames[slug] = name;
+      segments.push(`[${slug}]`);
+    });
+    return { file: `src/app/${segments.join('/')}/route.ts`, paramNames };
+  }
+
+  private static getParams(routeFile: string): string[] {
+    return [...routeFile.matchAll(/\[([^\]]+)\]/g)].map(match => match[1]);
+  }
+
+  private static generateRouteFile(path: string, routed: RoutedEndpoint[]): GeneratedCodeFile {
+    const params = this.getParams(path);
+    const endpoints = routed.map(({ endpoint }) => endpoint);
+    const seenMethods = new Set<HttpMethod>();
+    const usedNames = new Set<string>();
+    const sections: string[] = [];
+    const skipped: ApiEndpoint[] = [];
+
+    routed.forEach(({ endpoint, paramNames }) => {
+      // A route file can only export one handler per method
+      if (seenMethods.has(endpoint.method)) {
+        skipped.push(endpoint);
+        return;
+      }
+      seenMethods.add(endpoint.method);
+
+      let name = toPascalCase(endpoint.name);
+      if (usedNames.has(name)) name += toPascalCase(endpoint.method);
+      usedNames.add(name);
+      sections.push(this.generateHandler(endpoint, name, params, paramNames));
+    });
+
+    const needsAuth = endpoints.some(endpoint => endpoint.authentication && !skipped.includes(endpoint));
+    const needsValidation = endpoints.some(endpoint => endpoint.requestSchema && !skipped.includes(endpoint));
+    const imports = [
+      `import { ${sections.some(section => section.includes('NextRequest')) ? 'NextRequest, ' : ''}NextResponse } from 'next/server';`,
+      ...(needsAuth ? ["import { requireAuth } from '@/lib/api/auth';"] : []),
+      ...(needsValidation ? ["import { JsonSchema, validate } from '@/lib/api/validation';"] : []),
+    ];
+    const notes = skipped.map(endpoint =>
+      `// Not generated: "${endpoint.name}" is a second ${endpoint.method} handler for ${endpoint.path}; give it its own path to scaffold it`
+    );
+
+    const content = [imports.join('\n'), ...(notes.length > 0 ? [notes.join('\n')] : []), ...sections].join('\n\n') + '\n';
+    return {
+      path,
+      content,
+      endpointIds: endpoints.filter(endpoint => !skipped.includes(endpoint)).map(endpoint => endpoint.id),
+    };
+  }
+
+  private static generateHandler(endpoint: ApiEndpoint, name: string, params: string[], paramNames: Record<string, string>): string {
+    const camel = name[0].toLowerCase() + name.slice(1);
+    const fromQuery = QUERY_METHODS.includes(endpoint.method);
+    const requestSchema = endpoint.requestSchema ? this.normalizeSchema(endpoint.requestSchema) : null;
+    const responseSchema = endpoint.responseSchema ? this.normalizeSchema(endpoint.responseSchema) : DEFAULT_RESPONSE_SCHEMA;
+    const mock = this.mockValue(responseSchema, '');
+
+    // Top-level string fields named after a path parameter echo its value,
+    // under the name this endpoint's path gave the parameter
+    const ownName = (param: string) => paramNames[param] || param;
+    const echoedSlugs = responseSchema.type === 'object'
+      ? params.filter(param => {
+          const property = responseSchema.properties?.[ownName(param)];
+          return property?.type === 'string' && !property.enum;
+        })
+      : [];
+    const echoedParams = echoedSlugs.map(ownName);
+    const usesRequest = endpoint.authentication || !!requestSchema;
+    const args = [
+      usesRequest || echoedParams.length > 0 ? `${usesRequest ? '' : '_'}request: NextRequest` : '',
+      echoedParams.length > 0 ? `{ params }: { params: Promise<{ ${params.map(p => `${propertyKey(p)}: string`).join('; ')} }> }` : '',
+    ].filter(Boolean).join(', ');
+
+    const lines: string[] = [];
+    lines.push(`// ${endpoint.method} ${endpoint.path} - ${endpoint.name}${endpoint.description ? `: ${endpoint.description.replace(/\s+/g, ' ')}` : ''}`);
+    if (requestSchema) {
+      lines.push(`const ${camel}Schema: JsonSchema = ${this.toLiteral(requestSchema)};`, '');
+      lines.push(`type ${name}Request = ${this.toTypeScript(requestSchema, '')};`, '');
+    }
+    lines.push(`type ${name}Response = ${this.toTypeScript(responseSchema, '')};`, '');
+
+    lines.push(`export async function ${endpoint.method}(${args}) {`);
+    if (endpoint.authentication) {
+      lines.push('  const unauthorized = requireAuth(request);', '  if (unauthorized) return unauthorized;', '');
+    }
+    lines.push('  try {');
+    if (requestSchema) {
+      lines.push(fromQuery
+        ? `    const input = Object.fromEntries(request.nextUrl.searchParams);`
+        : `    const input = await request.json().catch(() => null);`);
+      lines.push(`    const validation = validate<${name}Request>(${camel}Schema, input${fromQuery ? ', true' : ''});`);
+      lines.push('    if (!validation.success) {');
+      lines.push(`      return NextResponse.json({ error: 'Invalid request', details: validation.errors }, { status: 400 });`);
+      lines.push('    }', '');
+    }
+    if (echoedParams.length > 0) {
+      const bindings = echoedSlugs.map(param => ownName(param) === param ? param : `${param}: ${ownName(param)}`);
+      lines.push(`    const { ${bindings.join(', ')} } = await params;`, '');
+    }
+    lines.push(`    // TODO: replace the mock data with the real implementation${requestSchema ? ' using validation.data' : ''}`);
+    const mockLiteral = this.indent(this.toLiteral(mock, echoedParams), '    ');
+    lines.push(`    const response: ${name}Response = ${mockLiteral};`, '');
+    lines.push(`    return NextResponse.json(response${endpoint.method === HttpMethod.POST ? ', { status: 201 }' : ''});`);
+    lines.push('  } catch (error) {');
+    lines.push(`    console.error(${quote(`${endpoint.name} failed:`)}, error);`);
+    lines.push(`    return NextResponse.json({ error: ${quote(`Failed to ${endpoint.name.toLowerCase()}`)} }, { status: 500 });`);
+    lines.push('  }');
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  private static parseShorthandType(raw: string): JsonSchema {
+    const value = raw.trim();
+    if (value.endsWith('[]')) return { type: 'array', items: this.parseShorthandType(value.slice(0, -2)) };
+    if (value.includes('|')) {
+      return { type: 'string', enum: value.split('|').map(option => option.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean) };
+    }
+    switch (value.toLowerCase()) {
+      case 'number': case 'float': case 'decimal': return { type: 'number' };
+      case 'integer': case 'int': return { type: 'integer' };
+      case 'boolean': case 'bool': return { type: 'boolean' };
+      case 'date': case 'datetime': case 'date-time': case 'timestamp': return { type: 'string', format: 'date-time' };
+      case 'email': return { type: 'string', format: 'email' };
+      case 'url': case 'uri': return { type: 'string', format: 'uri' };
+      case 'object': return { type: 'object', properties: {} };
+      case 'array': return { type: 'array' };
+      default: return { type: 'string' };
+    }
+  }
+
+  private static toTypeScript(schema: JsonSchema, indent: string): string {
+    switch (schema.type) {
+      case 'object': {
+        const properties = Object.entries(schema.properties || {});
+        if (properties.length === 0) return 'Record<string, unknown>';
+        const inner = `${indent}  `;
+        const fields = properties.map(([name, property]) =>
+          `${inner}${propertyKey(name)}${schema.required?.includes(name) ? '' : '?'}: ${this.toTypeScript(property, inner)};`
+        );
+        return `{\n${fields.join('\n')}\n${indent}}`;
+      }
+      case 'array': {
+        const item = schema.items ? this.toTypeScript(schema.items, indent) : 'unknown';
+        return item.includes('|') ? `(${item})[]` : `${item}[]`;
+      }
+      case 'integer':
+      case 'number':
+        return schema.enum ? schema.enum.map(v => JSON.stringify(v)).join(' | ') : 'number';
+      case 'boolean':
+        return 'boolean';
+      default:
+        return schema.enum ? schema.enum.map(v => JSON.stringify(String(v))).join(' | ') : 'string';
+    }
+  }
+
+  // Plausible example data, guessed from field names where the schema says little
+  private static mockValue(schema: JsonSchema, name: string): unknown {
+    if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+    const field = name.toLowerCase();
+
+    switch (schema.type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {}).map(([key, property]) => [key, this.mockValue(property, key)])
+        );
+      case 'array':
+        return schema.items ? [this.mockValue(schema.items, field.replace(/s$/, ''))] : [];
+      case 'integer':
+        return field === 'page' ? 1 : field.includes('count') || field.includes('total') ? 10 : 1;
+      case 'number':
+        return /price|amount|cost|total/.test(field) ? 9.99 : 1;
+      case 'boolean':
+        return true;
+      default:
+        if (schema.format === 'email' || field.includes('email')) return 'user@example.com';
+        if (schema.format === 'date-time' || schema.format === 'date' || /(^date|date$|at$|time$)/.test(field)) return '2024-01-01T00:00:00.000Z';
+        if (schema.format === 'uri' || /url|link|href/.test(field)) return 'https://example.com';
+        if (field === 'id' || field.endsWith('id')) return `${field === 'id' ? 'item' : field.replace(/_?id$/, '')}_1`;
+        if (field.includes('token')) return 'token_example';
+        if (field.includes('status')) return 'active';
+        return name ? `Example ${words(name).join(' ').toLowerCase()}` : 'Example';
+    }
+  }
+
+  // Object literal source for mock data; echoed path parameters are referenced by name
+  private static toLiteral(value: unknown, echoed: string[] = [], depth = 0): string {
+    const indent = '  '.repeat(depth);
+    if (Array.isArray(value)) {
+      if (value.length === 0) return '[]';
+      return `[\n${value.map(item => `${indent}  ${this.toLiteral(item, [], depth + 1)}`).join(',\n')},\n${indent}]`;
+    }
+    if (isRecord(value)) {
+      const entries = Object.entries(value);
+      if (entries.length === 0) return '{}';
+      const fields = entries.map(([key, item]) =>
+        depth === 0 && echoed.includes(key)
+          ? `${indent}  ${key},`
+          : `${indent}  ${propertyKey(key)}: ${this.toLiteral(item, [], depth + 1)},`
+      );
+      return `{\n${fields.join('\n')}\n${indent}}`;
+    }
+    return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+  }
+
+  private static indent(text: string, indent: string): string {
+    return text.split('\n').map((line, i) => i === 0 ? line : `${indent}${line}`).join('\n');
+  }
+}
@@ -0,0 +1,207 @@
+import { DataEntity, DataField, DataFieldType, DataModel, DataRelation, RelationCardinality } from '@/types/app-architecture';
+
+const SQL_TYPES: Record<DataFieldType, string> = {
+  [DataFieldType.STRING]: 'TEXT',
+  [DataFieldType.TEXT]: 'TEXT',
+  [DataFieldType.INTEGER]: 'INTEGER',
+  [DataFieldType.DECIMAL]: 'DECIMAL(65,30)',
+  [DataFieldType.BOOLEAN]: 'BOOLEAN',
+  [DataFieldType.DATE]: 'DATE',
+  [DataFieldType.DATETIME]: 'TIMESTAMP(3)',
+  [DataFieldType.JSON]: 'JSONB'
+};
+
+const PRISMA_TYPES: Record<DataFieldType, string> = {
+  [DataFieldType.STRING]: 'String',
+  [DataFieldType.TEXT]: 'String',
+  [DataFieldType.INTEGER]: 'Int',
+  [DataFieldType.DECIMAL]: 'Decimal',
+  [DataFieldType.BOOLEAN]: 'Boolean',
+  [DataFieldType.DATE]: 'DateTime',
+  [DataFieldType.DATETIME]: 'DateTime',
+  [DataFieldType.JSON]: 'Json'
+};
+
+const toSnakeCase = (value: string) => value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+const plural = (word: string) => {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + 'ies';
+  if (/(s|x|z|ch|sh)$/i.test(word)) return word + 'es';
+  return word + 's';
+};
+
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+
+const quote = (identifier: string) => `"${identifier}"`;
+
+// "OrderItem" is stored in "order_items"
+const tableName = (entity: DataEntity) => toSnakeCase(plural(entity.name));
+
+const primaryKeyOf = (entity: DataEntity): DataField =>
+  entity.fields.find(field => field.primaryKey) || { name: 'id', type: DataFieldType.STRING, required: true, primaryKey: true };
+
+/**
+ * Exports a data model as PostgreSQL DDL or a Prisma schema. Both describe
+ * the same database: snake_case plural tables and snake_case columns, with
+ * many-to-many join tables named the way Prisma names implicit relations.
+ */
+export class DataModelExporter {
+  static toSql(model: DataModel, appName: string): string {
+    const entityById = new Map(model.entities.map(entity => [entity.id, entity]));
+    const oneToOneKeys = new Set(model.relations
+      .filter(relation => relation.cardinality === RelationCardinality.ONE_TO_ONE && relation.foreignKey)
+      .map(relation => `${relation.to}.${relation.foreignKey}`));
+
+    const tables = model.entities.map(entity => {
+      const columns = entity.fields.map(field => {
+        const integerKey = field.primaryKey && field.type === DataFieldType.INTEGER;
+        return [
+          `  ${quote(toSnakeCase(field.name))} ${integerKey ? 'SERIAL' : SQL_TYPES[field.type]}`,
+          field.required || field.primaryKey ? ' NOT NULL' : '',
+          field.primaryKey ? ' PRIMARY KEY' : '',
+          !field.primaryKey && (field.unique || oneToOneKeys.has(`${entity.id}.${field.name}`)) ? ' UNIQUE' : ''
+        ].join('');
+      });
+      return `${entity.description ? `-- ${entity.description}\n` : ''}CREATE TABLE ${quote(tableName(entity))} (\n${columns.join(',\n')}\n);`;
+    });
+
+    const joinTables = model.relations
+      .filter(relation => relation.cardinality === RelationCardinality.MANY_TO_MANY)
+      .map(relation => {
+        const { name, a, b } = this.getJoinTable(relation, model.relations, entityById);
+        if (!a || !b) return '';
+        return [
+          `CREATE TABLE ${quote(name)} (`,
+          `  "A" ${SQL_TYPES[primaryKeyOf(a).type]} NOT NULL REFERENCES ${quote(tableName(a))} (${quote(toSnakeCase(primaryKeyOf(a).name))}) ON DELETE CASCADE,`,
+          `  "B" ${SQL_TYPES[primaryKeyOf(b).type]} NOT NULL REFERENCES ${quote(tableName(b))} (${quote(toSnakeCase(primaryKeyOf(b).name))}) ON DELETE CASCADE,`,
+          `  PRIMARY KEY ("A", "B")`,
+          `);`,
+          `CREATE INDEX ${quote(`${name}_B_index`)} ON ${quote(name)} ("B");`
+        ].join('\n');
+      })
+      .filter(Boolean);
+
+    // Added once every table exists, with Prisma's default referential actions
+    const foreignKeys = model.relations
+      .filter(relation => relation.foreignKey)
+      .map(relation => {
+        const from = entityById.get(relation.from);
+        const to = entityById.get(relation.to);
+        if (!from || !to || !relation.foreignKey) return '';
+        const column = toSnakeCase(relation.foreignKey);
+        const required = to.fields.find(field => field.name === relation.foreignKey)?.required;
+        return `ALTER TABLE ${quote(tableName(to))} ADD CONSTRAINT ${quote(`${tableName(to)}_${column}_fkey`)} ` +
+          `FOREIGN KEY (${quote(column)}) REFERENCES ${quote(tableName(from))} (${quote(toSnakeCase(primaryKeyOf(from).name))}) ` +
+          `ON DELETE ${required ? 'RESTRICT' : 'SET NULL'} ON UPDATE CASCADE;`;
+      })
+      .filter(Boolean);
+
+    return [
+      `-- ${appName} data model (PostgreSQL)`,
+      ...tables,
+      ...joinTables,
+      ...(foreignKeys.length > 0 ? [foreignKeys.join('\n')] : [])
+    ].join('\n\n') + '\n';
+  }
+
+  static toPrisma(model: DataModel, appName: string): string {
+    const entityById = new Map(model.entities.map(entity => [entity.id, entity]));
+    const relationFields = new Map<string, string[]>(model.entities.map(entity => [entity.id, []]));
+    const takenNames = new Map(model.entities.map(entity => [entity.id, new Set(entity.fields.map(field => field.name))]));
+    const uniqueName = (entityId: string, name: string) => {
+      const taken = takenNames.get(entityId) as Set<string>;
+      let unique = name;
+      for (let n = 2; taken.has(unique); n++) unique = `${name}${n}`;
+      taken.add(unique);
+      return unique;
+    };
+
+    model.relations.forEach(relation => {
+      const from = entityById.get(relation.from);
+      const to = entityById.get(relation.to);
+      if (!from || !to) return;
+
+      // Prisma needs a name when two entities are related more than once, or to themselves
+      const ambiguous = from.id === to.id || model.relations.filter(other =>
+        (other.from === relation.from && other.to === relation.to) || (other.from === relation.to && other.to === relation.from)
+      ).length > 1;
+
+      if (relation.cardinality === RelationCardinality.MANY_TO_MANY) {
+        const { name } = this.getJoinTable(relation, model.relations, entityById);
+        const attribute = ambiguous ? ` @relation(${JSON.stringify(name.slice(1))})` : '';
+        relationFields.get(from.id)?.push(`${uniqueName(from.id, lowerFirst(plural(to.name)))} ${to.name}[]${attribute}`);
+        relationFields.get(to.id)?.push(`${uniqueName(to.id, lowerFirst(plural(from.name)))} ${from.name}[]${attribute}`);
+        return;
+      }
+
+      const foreignKey = relation.foreignKey || `${lowerFirst(from.name)}Id`;
+      const required = to.fields.find(field => field.name === foreignKey)?.required;
+      const fieldName = uniqueName(to.id, foreignKey.replace(/Id$/, '') || lowerFirst(from.name));
+      const relationName = JSON.stringify(`${to.name}${fieldName.charAt(0).toUpperCase()}${fieldName.slice(1)}`);
+      const isOneToOne = relation.cardinality === RelationCardinality.ONE_TO_ONE;
+      relationFields.get(to.id)?.push(
+        `${fieldName} ${from.name}${required ? '' : '?'} ` +
+        `@relation(${ambiguous ? `${relationName}, ` : ''}fields: [${foreignKey}], references: [${primaryKeyOf(from).name}])`
+      );
+      relationFields.get(from.id)?.push(
+        `${uniqueName(from.id, lowerFirst(isOneToOne ? to.name : plural(to.name)))} ${to.name}${isOneToOne ? '?' : '[]'}` +
+        (ambiguous ? ` @relation(${relationName})` : '')
+      );
+    });
+
+    const oneToOneKeys = new Set(model.relations
+      .filter(relation => relation.cardinality === RelationCardinality.ONE_TO_ONE && relation.foreignKey)
+      .map(relation => `${relation.to}.${relation.foreignKey}`));
+
+    const models = model.entities.map(entity => {
+      const scalars = entity.fields.map(field => {
+        const attributes = [
+          field.primaryKey ? '@id' : '',
+          field.primaryKey && field.type === DataFieldType.INTEGER ? '@default(autoincrement())' : '',
+          field.primaryKey && field.type === DataFieldType.STRING ? '@default(cuid())' : '',
+          !field.primaryKey && (field.unique || oneToOneKeys.has(`${entity.id}.${field.name}`)) ? '@unique' : '',
+          field.type === DataFieldType.DATE ? '@db.Date' : '',
+          field.type === DataFieldType.TEXT ? '@db.Text' : '',
+          toSnakeCase(field.name) !== field.name ? `@map(${JSON.stringify(toSnakeCase(field.name))})` : ''
+        ].filter(Boolean);
+        const optional = field.required || field.primaryKey ? '' : '?';
+        return `${field.name} ${PRISMA_TYPES[field.type]}${optional}${attributes.length > 0 ? ` ${attributes.join(' ')}` : ''}`;
+      });
+
+      const lines = [...scalars, ...(relationFields.get(entity.id) || [])];
+      const width = Math.max(...lines.map(line => line.indexOf(' ')));
+      const body = lines.map(line => `  ${line.replace(/^(\S+) /, (_, name: string) => `${name.padEnd(width)} `)}`);
+      return [
+        ...(entity.description ? [`/// ${entity.description}`] : []),
+        `model ${entity.name} {`,
+        ...body,
+        '',
+        `  @@map(${JSON.stringify(tableName(entity))})`,
+        '}'
+      ].join('\n');
+    });
+
+    return [
+      `// ${appName} data model`,
+      'generator client {\n  provider = "prisma-client"\n  output   = "../src/generated/prisma"\n}',
+      '// The connection URL goes in prisma.config.ts\ndatasource db {\n  provider = "postgresql"\n}',
+      ...models
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * Prisma's implicit join table: `_<A>To<B>` with the models in alphabetical
+   * order, or `_<relation name>` when the relation needs a name
+   */
+  private static getJoinTable(relation: DataRelation, relations: DataRelation[], entityById: Map<string, DataEntity>) {
+    const [a, b] = [entityById.get(relation.from), entityById.get(relation.to)]
+      .sort((x, y) => (x?.name || '').localeCompare(y?.name || ''));
+    const pairs = relations.filter(other =>
+      other.cardinality === RelationCardinality.MANY_TO_MANY &&
+      ((other.from === relation.from && other.to === relation.to) || (other.from === relation.to && other.to === relation.from))
+    );
+    const index = pairs.indexOf(relation);
+    const name = `_${a?.name}To${b?.name}${index > 0 ? index + 1 : ''}`;
+    return { name, a, b };
+  }
+}
@@ -0,0 +1,569 @@
+import {
+  AppArchitecture,
+  DataEntity,
+  DataField,
+  DataFieldType,
+  DataModel,
+  DataRelation,
+  FormField,
+  RelationCardinality,
+  Screen,
+  ScreenType
+} from '@/types/app-architecture';
+import { SpecializedAIService } from './specialized-ai-services';
+import { DATA_MODEL_FORMAT } from './structured-output';
+import { PromptRegistry } from './prompt-registry';
+import { BackendScaffoldGenerator, JsonSchema, QUERY_METHODS } from './backend-scaffold-generator';
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Words in screen names, item types and data sources that describe the UI rather than the data
+const UI_WORDS = new Set([
+  'screen', 'page', 'view', 'form', 'list', 'detail', 'details', 'overview', 'edit', 'create', 'new',
+  'add', 'update', 'manage', 'my', 'all', 'browse', 'select', 'search', 'results', 'api'
+]);
+
+// Path segments that name an action rather than a stored resource
+const ACTION_SEGMENTS = new Set([
+  'api', 'auth', 'login', 'logout', 'register', 'signup', 'signin', 'reset', 'verify', 'search',
+  'me', 'session', 'sessions', 'token', 'refresh', 'upload', 'export', 'import'
+]);
+
+// Screens whose forms describe the signed-in user
+const USER_SCREEN_TYPES = [ScreenType.AUTH, ScreenType.ONBOARDING, ScreenType.VERIFICATION, ScreenType.PROFILE, ScreenType.ACCOUNT];
+
+// Form inputs that never reach storage, e.g. "confirmPassword" or "rememberMe"
+const TRANSIENT_FIELD = /^(confirm|repeat|remember|search|query|terms|accept|agree)/i;
+
+const UNIQUE_FIELDS = ['email', 'username', 'slug'];
+
+const FORM_FIELD_TYPES: Record<string, DataFieldType> = {
+  number: DataFieldType.DECIMAL,
+  integer: DataFieldType.INTEGER,
+  range: DataFieldType.INTEGER,
+  checkbox: DataFieldType.BOOLEAN,
+  switch: DataFieldType.BOOLEAN,
+  toggle: DataFieldType.BOOLEAN,
+  boolean: DataFieldType.BOOLEAN,
+  date: DataFieldType.DATE,
+  datetime: DataFieldType.DATETIME,
+  'datetime-local': DataFieldType.DATETIME,
+  textarea: DataFieldType.TEXT
+};
+
+const words = (value: string) =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const singular = (word: string) => {
+  if (/(ss|us|is)$/i.test(word)) return word;
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ch|sh|x|z)es$/i.test(word)) return word.slice(0, -2);
+  return word.replace(/s$/i, '');
+};
+
+// SQL and Prisma identifiers can't start with a digit, so "2fa" becomes "field2fa"
+const withLeadingLetter = (name: string, prefix: string) => !name || /^[A-Za-z]/.test(name) ? name : `${prefix}${name}`;
+
+const toPascalCase = (value: string) => withLeadingLetter(words(value).map(capitalize).join(''), 'Entity');
+
+const toFieldName = (value: string) =>
+  withLeadingLetter(words(value).map((word, i) => i === 0 ? word.toLowerCase() : capitalize(word)).join(''), 'field');
+
+// "Order Items List" becomes "OrderItem"; empty when only UI words remain
+const toEntityName = (value: string) => {
+  const kept = words(value).filter(word => !UI_WORDS.has(word.toLowerCase()));
+  if (kept.length === 0) return '';
+  kept[kept.length - 1] = singular(kept[kept.length - 1]);
+  return withLeadingLetter(kept.map(capitalize).join(''), 'Entity');
+};
+
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+
+const entityId = (name: string) => `entity_${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}`;
+
+const DECIMAL_WORDS = ['price', 'amount', 'total', 'cost', 'balance', 'rating', 'latitude', 'longitude'];
+const INTEGER_WORDS = ['count', 'quantity', 'age', 'stock'];
+const TEXT_WORDS = ['description', 'bio', 'note', 'notes', 'body', 'content', 'message', 'comment'];
+
+// Names too generic for a nested list's entity, e.g. an order's `items` become OrderItem
+const GENERIC_CHILD_NAMES = ['Item', 'Line', 'Entry'];
+
+// Best guess from the field name when nothing more specific is known
+const guessFieldType = (name: string): DataFieldType => {
+  const last = words(name).pop()?.toLowerCase() || '';
+  if (last === 'at') return DataFieldType.DATETIME;
+  if (['date', 'birthday', 'dob'].includes(last)) return DataFieldType.DATE;
+  if (/^(is|has|can|in)[A-Z]/.test(name)) return DataFieldType.BOOLEAN;
+  if (DECIMAL_WORDS.includes(last)) return DataFieldType.DECIMAL;
+  if (INTEGER_WORDS.includes(last)) return DataFieldType.INTEGER;
+  if (TEXT_WORDS.includes(last)) return DataFieldType.TEXT;
+  return DataFieldType.STRING;
+};
+
+const schemaFieldType = (name: string, schema: JsonSchema): DataFieldType => {
+  switch (schema.type) {
+    case 'integer':
+      return DataFieldType.INTEGER;
+    case 'number':
+      return DataFieldType.DECIMAL;
+    case 'boolean':
+      return DataFieldType.BOOLEAN;
+    case 'object':
+    case 'array':
+      return DataFieldType.JSON;
+    case 'string':
+      if (schema.format === 'date') return DataFieldType.DATE;
+      if (schema.format === 'date-time') return DataFieldType.DATETIME;
+      return schema.enum ? DataFieldType.STRING : guessFieldType(name);
+  }
+};
+
+const createField = (rawName: string, type: DataFieldType, required: boolean): DataField | null => {
+  // Passwords are only ever stored hashed
+  const name = /^password$/i.test(rawName) ? 'passwordHash' : toFieldName(rawName);
+  if (!name) return null;
+  return UNIQUE_FIELDS.includes(name) ? { name, type, required, unique: true } : { name, type, required };
+};
+
+interface EntityDraft {
+  name: string;
+  description: string;
+  fields: Map<string, DataField>;
+  sourceScreens: Set<string>;
+  position?: { x: number; y: number };
+}
+
+// A relation between entities named by `ModelBuilder.entity`, before ids are assigned
+interface RelationDraft {
+  from: string;
+  to: string;
+  cardinality: RelationCardinality;
+  foreignKey?: string;
+}
+
+/**
+ * Collects entities, fields and relations from any number of sources and
+ * resolves them into a consistent `DataModel`
+ */
+class ModelBuilder {
+  private drafts = new Map<string, EntityDraft>();
+  private relations: RelationDraft[] = [];
+
+  entity(name: string, description = ''): EntityDraft {
+    let draft = this.drafts.get(name);
+    if (!draft) {
+      draft = { name, description, fields: new Map(), sourceScreens: new Set() };
+      this.drafts.set(name, draft);
+    } else if (!draft.description) {
+      draft.description = description;
+    }
+    return draft;
+  }
+
+  has(name: string): boolean {
+    return this.drafts.has(name);
+  }
+
+  /**
+   * Add a field, letting a specific type win over a plain string and a
+   * required field win over an optional one
+   */
+  addField(draft: EntityDraft, field: DataField | null) {
+    if (!field) return;
+    const existing = draft.fields.get(field.name);
+    if (!existing) {
+      draft.fields.set(field.name, field);
+      return;
+    }
+    draft.fields.set(field.name, {
+      ...existing,
+      type: existing.type === DataFieldType.STRING ? field.type : existing.type,
+      required: existing.required || field.required,
+      ...(existing.primaryKey || field.primaryKey ? { primaryKey: true } : {}),
+      ...(existing.unique || field.unique ? { unique: true } : {})
+    });
+  }
+
+  relate(relation: RelationDraft) {
+    this.relations.push(relation);
+  }
+
+  build(): DataModel {
+    const drafts = Array.from(this.drafts.values());
+    drafts.forEach(draft => this.ensurePrimaryKey(draft));
+
+    // `userId` on an entity points at the User entity unless a relation already says so
+    drafts.forEach(draft => {
+      draft.fields.forEach(field => {
+        const target = /^(.+)Id$/.exec(field.name);
+        const parent = target && toPascalCase(target[1]);
+        if (!parent || !this.drafts.has(parent)) return;
+        if (this.relations.some(relation =>
+          relation.to === draft.name && (relation.foreignKey === field.name || (relation.from === parent && !relation.foreignKey))
+        )) return;
+        this.relations.push({ from: parent, to: draft.name, cardinality: RelationCardinality.ONE_TO_MANY, foreignKey: field.name });
+      });
+    });
+
+    const relations: DataRelation[] = [];
+    const seen = new Set<string>();
+    this.relations.forEach(relation => {
+      const from = this.drafts.get(relation.from);
+      const to = this.drafts.get(relation.to);
+      if (!from || !to) return;
+
+      const manyToMany = relation.cardinality === RelationCardinality.MANY_TO_MANY;
+      const foreignKey = manyToMany ? undefined : relation.foreignKey || `${lowerFirst(from.name)}Id`;
+      const key = `${from.name}|${to.name}|${relation.cardinality}|${foreignKey ?? ''}`;
+      const reverseKey = `${to.name}|${from.name}|${relation.cardinality}|`;
+      if (seen.has(key) || (manyToMany && seen.has(reverseKey))) return;
+      seen.add(key);
+
+      if (foreignKey) {
+        // The key column has the type of the id it refers to
+        const primaryKey = Array.from(from.fields.values()).find(field => field.primaryKey);
+        const existing = to.fields.get(foreignKey);
+        to.fields.set(foreignKey, {
+          name: foreignKey,
+          type: primaryKey?.type || DataFieldType.STRING,
+          required: existing?.required ?? false
+        });
+      }
+
+      const baseId = `rel_${entityId(from.name).replace(/^entity_/, '')}_${entityId(to.name).replace(/^entity_/, '')}`;
+      let id = baseId;
+      for (let n = 2; relations.some(existing => existing.id === id); n++) id = `${baseId}_${n}`;
+      relations.push({
+        id,
+        from: entityId(from.name),
+        to: entityId(to.name),
+        cardinality: relation.cardinality,
+        ...(foreignKey ? { foreignKey } : {})
+      });
+    });
+
+    const entities: DataEntity[] = drafts.map(draft => ({
+      id: entityId(draft.name),
+      name: draft.name,
+      description: draft.description,
+      fields: Array.from(draft.fields.values()).sort((a, b) => Number(!!b.primaryKey) - Number(!!a.primaryKey)),
+      sourceScreens: Array.from(draft.sourceScreens),
+      ...(draft.position ? { position: draft.position } : {})
+    }));
+
+    return { entities, relations };
+  }
+
+  private ensurePrimaryKey(draft: EntityDraft) {
+    if (Array.from(draft.fields.values()).some(field => field.primaryKey)) return;
+    const id = draft.fields.get('id');
+    draft.fields.set('id', { name: 'id', type: id?.type || DataFieldType.STRING, required: true, primaryKey: true });
+  }
+}
+
+/**
+ * Builds an architecture's data model: entities, their fields and the
+ * relations between them. `infer` reads screens' form fields, list fields and
+ * data sources and endpoint paths and schemas; `generate` has the AI refine
+ * that draft.
+ */
+export class DataModelGenerator {
+  /**
+   * Ask the AI to refine the inferred model, falling back to the inferred
+   * model when generation fails. The fallback is marked by its `generatedBy`
+   * provider, so callers can tell the user the refinement didn't happen.
+   */
+  static async generate(architecture: AppArchitecture): Promise<DataModel> {
+    const inferred = this.infer(architecture);
+
+    try {
+      const prompt = await PromptRegistry.render('data-model', {
+        appName: architecture.name,
+        appDescription: architecture.description,
+        currentState: this.describeArchitecture(architecture),
+        draftModel: JSON.stringify(this.toPromptModel(inferred), null, 2)
+      });
+      const { data, provider, model, usage } = await SpecializedAIService.generateStructured<RawRecord>(
+        'architecture',
+        prompt.text,
+        DATA_MODEL_FORMAT
+      );
+
+      const normalized = this.normalize(data, architecture.screens, inferred);
+      if (normalized.entities.length === 0) {
+        throw new Error('No entities in response');
+      }
+      return { ...this.keepPositions(normalized, architecture.dataModel), generatedBy: { provider, model, prompt: prompt.ref, usage } };
+    } catch (error) {
+      console.warn('AI data model generation failed, using the inferred model:', error);
+      return { ...inferred, generatedBy: SpecializedAIService.fallbackSource(error) };
+    }
+  }
+
+  /**
+   * Infer a data model from the architecture alone. Entities keep the
+   * positions they had in the architecture's current model.
+   */
+  static infer(architecture: AppArchitecture): DataModel {
+    const builder = new ModelBuilder();
+    const endpointEntities = new Map<string, string>();
+
+    architecture.apiEndpoints.forEach(endpoint => {
+      const { resource, parent } = this.readResourcePath(endpoint.path);
+      if (!resource) return;
+
+      const draft = builder.entity(resource);
+      endpointEntities.set(endpoint.id, resource);
+      endpoint.connectedScreens.forEach(screenId => draft.sourceScreens.add(screenId));
+      if (parent && parent !== resource) {
+        builder.entity(parent);
+        builder.relate({ from: parent, to: resource, cardinality: RelationCardinality.ONE_TO_MANY });
+      }
+
+      if (endpoint.requestSchema && !QUERY_METHODS.includes(endpoint.method)) {
+        this.addSchemaFields(builder, resource, BackendScaffoldGenerator.normalizeSchema(endpoint.requestSchema), false);
+      }
+      if (endpoint.responseSchema) {
+        this.addSchemaFields(builder, resource, BackendScaffoldGenerator.normalizeSchema(endpoint.responseSchema), true);
+      }
+    });
+
+    architecture.screens.forEach(screen => {
+      const { formFields, listItems } = screen.data;
+      const name = this.getScreenEntityName(screen, endpointEntities);
+
+      const itemName = listItems?.itemType ? toEntityName(listItems.itemType) || name : '';
+      if (itemName) {
+        const draft = builder.entity(itemName);
+        draft.sourceScreens.add(screen.id);
+        listItems?.displayFields.forEach(field => builder.addField(draft, createField(field, guessFieldType(toFieldName(field)), false)));
+      }
+
+      if (formFields && formFields.length > 0 && name) {
+        const draft = builder.entity(name);
+        draft.sourceScreens.add(screen.id);
+        formFields
+          .filter(field => !TRANSIENT_FIELD.test(field.name))
+          .forEach(field => builder.addField(draft, createField(field.name, this.getFormFieldType(field), field.required)));
+      } else if (name && builder.has(name)) {
+        builder.entity(name).sourceScreens.add(screen.id);
+      }
+    });
+
+    return this.keepPositions(builder.build(), architecture.dataModel);
+  }
+
+  /**
+   * Turn an AI response or an imported `dataModel` into a valid model.
+   * Entities and relations may refer to each other by id or by name; unknown
+   * types fall back to strings.
+   */
+  static normalize(raw: unknown, screens: Screen[], inferred?: DataModel): DataModel {
+    const builder = new ModelBuilder();
+    const record = isRecord(raw) ? raw : {};
+    const names = new Map<string, string>();
+
+    (Array.isArray(record.entities) ? record.entities : []).forEach(rawEntity => {
+      if (!isRecord(rawEntity) || typeof rawEntity.name !== 'string') return;
+      const name = toPascalCase(rawEntity.name);
+      if (!name) return;
+
+      const draft = builder.entity(name, typeof rawEntity.description === 'string' ? rawEntity.description : '');
+      names.set(rawEntity.name, name);
+      if (typeof rawEntity.id === 'string') names.set(rawEntity.id, name);
+
+      (Array.isArray(rawEntity.fields) ? rawEntity.fields : []).forEach(rawField => {
+        if (!isRecord(rawField) || typeof rawField.name !== 'string') return;
+        const fieldName = toFieldName(rawField.name);
+        if (!fieldName) return;
+        builder.addField(draft, {
+          name: fieldName,
+          type: this.normalizeFieldType(String(rawField.type ?? '')),
+          required: rawField.required === true || rawField.primaryKey === true,
+          ...(rawField.primaryKey === true ? { primaryKey: true } : {}),
+          ...(rawField.unique === true ? { unique: true } : {})
+        });
+      });
+
+      const sourceScreens = Array.isArray(rawEntity.sourceScreens)
+        ? rawEntity.sourceScreens
+          .map(ref => screens.find(screen => screen.id === ref) || screens.find(screen => screen.name === ref))
+          .filter((screen): screen is Screen => !!screen)
+          .map(screen => screen.id)
+        : inferred?.entities.find(entity => entity.id === entityId(name))?.sourceScreens || [];
+      sourceScreens.forEach(screenId => draft.sourceScreens.add(screenId));
+
+      const position = rawEntity.position;
+      if (isRecord(position) && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+        draft.position = { x: position.x as number, y: position.y as number };
+      }
+    });
+
+    (Array.isArray(record.relations) ? record.relations : []).forEach(rawRelation => {
+      if (!isRecord(rawRelation)) return;
+      const from = names.get(String(rawRelation.from));
+      const to = names.get(String(rawRelation.to));
+      if (!from || !to) return;
+      builder.relate({
+        from,
+        to,
+        cardinality: this.normalizeCardinality(String(rawRelation.cardinality ?? '')),
+        foreignKey: typeof rawRelation.foreignKey === 'string' && rawRelation.foreignKey ? toFieldName(rawRelation.foreignKey) : undefined
+      });
+    });
+
+    const model = builder.build();
+    const generatedBy = record.generatedBy;
+    return isRecord(generatedBy) && typeof generatedBy.provider === 'string' && typeof generatedBy.model === 'string'
+      ? { ...model, generatedBy: { provider: generatedBy.provider, model: generatedBy.model } }
+      : model;
+  }
+
+  static normalizeFieldType(type: string): DataFieldType {
+    const normalized = type.toLowerCase().trim();
+    if (Object.values(DataFieldType).includes(normalized as DataFieldType)) return normalized as DataFieldType;
+    if (['int', 'bigint'].includes(normalized)) return DataFieldType.INTEGER;
+    if (['number', 'float', 'double', 'numeric', 'money'].includes(normalized)) return DataFieldType.DECIMAL;
+    if (normalized === 'bool') return DataFieldType.BOOLEAN;
+    if (['timestamp', 'date-time', 'datetime-local'].includes(normalized)) return DataFieldType.DATETIME;
+    if (['object', 'array', 'jsonb'].includes(normalized)) return DataFieldType.JSON;
+    return DataFieldType.STRING;
+  }
+
+  static normalizeCardinality(cardinality: string): RelationCardinality {
+    const normalized = cardinality.toLowerCase().replace(/[\s-]+/g, '_');
+    if (Object.values(RelationCardinality).includes(normalized as RelationCardinality)) return normalized as RelationCardinality;
+    if (['1:1', '1_1'].includes(normalized)) return RelationCardinality.ONE_TO_ONE;
+    if (['n:m', 'm:n', 'many_many'].includes(normalized)) return RelationCardinality.MANY_TO_MANY;
+    return RelationCardinality.ONE_TO_MANY;
+  }
+
+  /**
+   * The resource an endpoint path works on and the resource it is nested
+   * under: `/api/users/{id}/orders` is Order under User
+   */
+  private static readResourcePath(path: string): { resource: string; parent?: string } {
+    const resources = path.split(/[?#]/)[0].split('/').filter(Boolean)
+      .filter(segment => !/^(:|\{|\[)/.test(segment) && !/^v\d+$/i.test(segment) && !ACTION_SEGMENTS.has(segment.toLowerCase()))
+      .map(toEntityName)
+      .filter(Boolean);
+    return { resource: resources[resources.length - 1] || '', parent: resources[resources.length - 2] };
+  }
+
+  /**
+   * Add a schema's properties as fields. A list response such as
+   * `{ items: [...], total }` describes its items; nested objects and arrays
+   * of objects become related entities.
+   */
+  private static addSchemaFields(builder: ModelBuilder, entityName: string, schema: JsonSchema, isResponse: boolean) {
+    if (schema.type === 'array') {
+      if (schema.items?.type === 'object') this.addSchemaFields(builder, entityName, schema.items, isResponse);
+      return;
+    }
+    if (schema.type !== 'object' || !schema.properties) return;
+
+    const properties = Object.entries(schema.properties);
+    const objectLists = properties.filter(([, property]) => property.type === 'array' && property.items?.type === 'object');
+    if (isResponse && objectLists.length === 1 && properties.every(([, property]) => property.type !== 'object')) {
+      this.addSchemaFields(builder, entityName, objectLists[0][1], isResponse);
+      return;
+    }
+
+    const draft = builder.entity(entityName);
+    properties.forEach(([name, property]) => {
+      const required = !!schema.required?.includes(name);
+      const isObjectList = property.type === 'array' && property.items?.type === 'object';
+      const child = GENERIC_CHILD_NAMES.includes(toEntityName(name)) ? `${entityName}${toEntityName(name)}` : toEntityName(name);
+
+      if (property.type === 'object' && property.properties && child) {
+        // `author: { ... }` on a post: each Author has many posts
+        const foreignKey = `${lowerFirst(child)}Id`;
+        this.addSchemaFields(builder, child, property, false);
+        builder.addField(draft, { name: foreignKey, type: DataFieldType.STRING, required });
+        builder.relate({ from: child, to: entityName, cardinality: RelationCardinality.ONE_TO_MANY, foreignKey });
+      } else if (isObjectList && child && property.items) {
+        // `items: [{ ... }]` on an order: the order has many items
+        this.addSchemaFields(builder, child, property.items, false);
+        builder.relate({ from: entityName, to: child, cardinality: RelationCardinality.ONE_TO_MANY });
+      } else if (property.type === 'array' && /Ids$/.test(name) && toEntityName(name.slice(0, -3))) {
+        // `tagIds: ['...']` links to many tags
+        const target = toEntityName(name.slice(0, -3));
+        builder.entity(target);
+        builder.relate({ from: entityName, to: target, cardinality: RelationCardinality.MANY_TO_MANY });
+      } else {
+        builder.addField(draft, createField(name, schemaFieldType(name, property), required));
+      }
+    });
+  }
+
+  /**
+   * The entity a screen's form and list describe: its data source, the signed
+   * in user for account screens, or the screen name without UI words
+   */
+  private static getScreenEntityName(screen: Screen, endpointEntities: Map<string, string>): string {
+    const { dataSource } = screen.data;
+    if (dataSource) return endpointEntities.get(dataSource) || toEntityName(dataSource);
+    if (USER_SCREEN_TYPES.includes(screen.type)) return 'User';
+    return toEntityName(screen.name);
+  }
+
+  private static getFormFieldType(field: FormField): DataFieldType {
+    return FORM_FIELD_TYPES[field.type.toLowerCase()] || guessFieldType(toFieldName(field.name));
+  }
+
+  private static keepPositions(model: DataModel, previous?: DataModel): DataModel {
+    if (!previous) return model;
+    return {
+      ...model,
+      entities: model.entities.map(entity => {
+        const position = previous.entities.find(existing => existing.id === entity.id)?.position;
+        return position ? { ...entity, position } : entity;
+      })
+    };
+  }
+
+  // Screens and endpoints in the compact form the prompt shows the model
+  private static describeArchitecture(architecture: AppArchitecture): string {
+    const screens = architecture.screens.map(screen => {
+      const details = [
+        screen.data.formFields?.length
+          ? `form fields: ${screen.data.formFields.map(field => `${field.name} (${field.type}${field.required ? ', required' : ''})`).join(', ')}`
+          : '',
+        screen.data.listItems
+          ? `lists ${screen.data.listItems.itemType} showing ${screen.data.listItems.displayFields.join(', ')}`
+          : '',
+        screen.data.dataSource ? `data source: ${screen.data.dataSource}` : ''
+      ].filter(Boolean);
+      return `- ${screen.name} (${screen.type}): ${screen.description}${details.length > 0 ? `; ${details.join('; ')}` : ''}`;
+    });
+
+    const endpoints = architecture.apiEndpoints.map(endpoint => {
+      const schemas = [
+        endpoint.requestSchema ? `request ${JSON.stringify(endpoint.requestSchema)}` : '',
+        endpoint.responseSchema ? `response ${JSON.stringify(endpoint.responseSchema)}` : ''
+      ].filter(Boolean);
+      return `- ${endpoint.method} ${endpoint.path}: ${endpoint.description || endpoint.name}${schemas.length > 0 ? `; ${schemas.join('; ')}` : ''}`;
+    });
+
+    return [`Screens:`, ...screens, ...(endpoints.length > 0 ? ['', 'Endpoints:', ...endpoints] : [])].join('\n');
+  }
+
+  // Relations by entity name, without ids and layout, for the prompt
+  private static toPromptModel(model: DataModel) {
+    const nameOf = (id: string) => model.entities.find(entity => entity.id === id)?.name || id;
+    return {
+      entities: model.entities.map(({ name, description, fields }) => ({ name, description, fields })),
+      relations: model.relations.map(relation => ({
+        from: nameOf(relation.from),
+        to: nameOf(relation.to),
+        cardinality: relation.cardinality,
+        ...(relation.foreignKey ? { foreignKey: relation.foreignKey } : {})
+      }))
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { FlowLayoutOptions, LayoutDirection } from '@/types/app-architecture';
+
+type LayoutNode = { id: string; type?: string };
+type LayoutEdge = { source: string; target: string };
+type Point = { x: number; y: number };
+
+// Distance between layers along the flow, and between nodes within a layer
+const SPACING: Record<LayoutDirection, { layer: number; node: number; lane: number; api: number }> = {
+  LR: { layer: 400, node: 220, lane: 320, api: 340 },
+  TB: { layer: 260, node: 340, lane: 420, api: 220 },
+};
+
+const SWEEPS = 8;
+const DUMMY_PREFIX = '__layout_dummy_';
+
+/**
+ * Layered (Sugiyama-style) layout for flow diagrams. Screens are ranked by
+ * their distance from the start node, ordered within each layer to reduce
+ * edge crossings, and API nodes are placed in a separate lane next to the
+ * screens that call them.
+ */
+export class FlowLayout {
+  /**
+   * Compute a position for every node, keyed by node id
+   */
+  static layout(nodes: LayoutNode[], edges: LayoutEdge[], options: FlowLayoutOptions = {}): Record<string, Point> {
+    const direction = options.direction || 'LR';
+    const origin = options.origin || { x: 100, y: 250 };
+    const spacing = SPACING[direction];
+
+    const flowNodes = nodes.filter(node => node.type !== 'api');
+    const apiNodes = nodes.filter(node => node.type === 'api');
+    const flowIds = new Set(flowNodes.map(node => node.id));
+    const flowEdges = edges.filter(edge =>
+      flowIds.has(edge.source) && flowIds.has(edge.target) && edge.source !== edge.target
+    );
+
+    const { dagEdges, discovery } = this.removeCycles(flowNodes, flowEdges);
+    const ranks = this.assignRanks(flowNodes, dagEdges, discovery);
+    const { layers, layerEdges } = this.buildLayers(ranks, dagEdges, discovery);
+    const ordered = this.minimizeCrossings(layers, layerEdges);
+
+    const positions: Record<string, Point> = {};
+    ordered.forEach((layer, rank) => {
+      layer.forEach((id, index) => {
+        if (id.startsWith(DUMMY_PREFIX)) return;
+        const along = rank * spacing.layer;
+        const across = (index - (layer.length - 1) / 2) * spacing.node;
+        positions[id] = direction === 'LR'
+          ? { x: origin.x + along, y: origin.y + across }
+          : { x: origin.x + across, y: origin.y + along };
+      });
+    });
+
+    this.placeApiLane(apiNodes, edges, positions, direction, origin);
+    return positions;
+  }
+
+  /**
+   * Depth-first search from the start node(s), dropping edges that point back
+   * into the current path so the remaining graph is acyclic
+   */
+  private static removeCycles(nodes: LayoutNode[], edges: LayoutEdge[]) {
+    const incoming = this.adjacency(edges, 'target', 'source');
+    const roots = [
+      ...nodes.filter(node => node.type === 'start'),
+      ...nodes.filter(node => node.type !== 'start' && !incoming.get(node.id)?.length),
+      ...nodes,
+    ];
+
+    const state = new Map<string, 'active' | 'done'>();
+    const discovery: string[] = [];
+    const backEdges = new Set<LayoutEdge>();
+
+    const visit = (id: string) => {
+      state.set(id, 'active');
+      discovery.push(id);
+      edges.filter(edge => edge.source === id).forEach(edge => {
+        const targetState = state.get(edge.target);
+        if (targetState === 'active') {
+          backEdges.add(edge);
+        } else if (!targetState) {
+          visit(edge.target);
+        }
+      });
+      state.set(id, 'done');
+    };
+
+    roots.forEach(node => {
+      if (!state.has(node.id)) visit(node.id);
+    });
+
+    // Parallel edges add nothing to the layering
+    const seen = new Set<string>();
+    const dagEdges = edges.filter(edge => {
+      const key = `${edge.source}->${edge.target}`;
+      if (backEdges.has(edge) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { dagEdges, discovery };
+  }
+
+  /**
+   * Longest-path ranking. Screens nothing leads to sit next to the first
+   * screen rather than beside the start node.
+   */
+  private static assignRanks(nodes: LayoutNode[], edges: LayoutEdge[], discovery: string[]): Map<string, number> {
+    const hasStart = nodes.some(node => node.type === 'start');
+    const startIds = new Set(nodes.filter(node => node.type === 'start').map(node => node.id));
+    const incoming = this.adjacency(edges, 'target', 'source');
+    const outgoing = this.adjacency(edges, 'source', 'target');
+    const remaining = new Map(discovery.map(id => [id, incoming.get(id)?.length || 0]));
+    const ranks = new Map<string, number>();
+
+    const queue = discovery.filter(id => remaining.get(id) === 0);
+    queue.forEach(id => ranks.set(id, hasStart && !startIds.has(id) ? 1 : 0));
+
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      (outgoing.get(id) || []).forEach(target => {
+        ranks.set(target, Math.max(ranks.get(target) ?? 0, (ranks.get(id) ?? 0) + 1));
+        remaining.set(target, (remaining.get(target) || 0) - 1);
+        if (remaining.get(target) === 0) queue.push(target);
+      });
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Group nodes by rank, splitting edges that span several layers with
+   * dummy nodes so every edge connects adjacent layers
+   */
+  private static buildLayers(ranks: Map<string, number>, edges: LayoutEdge[], discovery: string[]) {
+    const layerCount = Math.max(-1, ...Array.from(ranks.values())) + 1;
+    const layers: string[][] = Array.from({ length: layerCount }, () => []);
+    discovery.forEach(id => layers[ranks.get(id) ?? 0].push(id));
+
+    const layerEdges: LayoutEdge[] = [];
+    let dummyCount = 0;
+    edges.forEach(edge => {
+      const from = ranks.get(edge.source) ?? 0;
+      const to = ranks.get(edge.target) ?? 0;
+      let previous = edge.source;
+      for (let rank = from + 1; rank < to; rank++) {
+        const dummy = `${DUMMY_PREFIX}${dummyCount++}`;
+        layers[rank].push(dummy);
+        layerEdges.push({ source: previous, target: dummy });
+        previous = dummy;
+      }
+      layerEdges.push({ source: previous, target: edge.target });
+    });
+
+    return { layers, layerEdges };
+  }
+
+  /**
+   * Barycenter heuristic, sweeping down and up the layers and keeping the
+   * ordering with the fewest crossings
+   */
+  private static minimizeCrossings(layers: string[][], edges: LayoutEdge[]): string[][] {
+    const predecessors = this.adjacency(edges, 'target', 'source');
+    const successors = this.adjacency(edges, 'source', 'target');
+
+    let order = layers.map(layer => [...layer]);
+    let best = order;
+    let bestCrossings = this.countCrossings(order, successors);
+
+    for (let sweep = 0; sweep < SWEEPS && bestCrossings > 0; sweep++) {
+      const downward = sweep % 2 === 0;
+      order = order.map(layer => [...layer]);
+
+      const ranks = downward
+        ? Array.from({ length: order.length - 1 }, (_, i) => i + 1)
+        : Array.from({ length: order.length - 1 }, (_, i) => order.length - 2 - i);
+
+      ranks.forEach(rank => {
+        const fixed = order[downward ? rank - 1 : rank + 1];
+        const neighbours = downward ? predecessors : successors;
+        const indexOf = new Map(fixed.map((id, index) => [id, index]));
+
+        const weights = new Map(order[rank].map((id, index) => {
+          const positions = (neighbours.get(id) || [])
+            .map(neighbour => indexOf.get(neighbour))
+            .filter((index): index is number => index !== undefined);
+          return [id, positions.length > 0 ? positions.reduce((sum, p) => sum + p, 0) / positions.length : index];
+        }));
+
+        order[rank] = [...order[rank]].sort((a, b) => (weights.get(a) ?? 0) - (weights.get(b) ?? 0));
+      });
+
+      const crossings = this.countCrossings(order, successors);
+      if (crossings < bestCrossings) {
+        best = order;
+        bestCrossings = crossings;
+      }
+    }
+
+    return best;
+  }
+
+  private static countCrossings(layers: string[][], successors: Map<string, string[]>): number {
+    let crossings = 0;
+
+    for (let rank = 0; rank < layers.length - 1; rank++) {
+      const nextIndex = new Map(layers[rank + 1].map((id, index) => [id, index]));
+      const segments: [number, number][] = [];
+      layers[rank].forEach((id, index) => {
+        (successors.get(id) || []).forEach(target => {
+          const targetIndex = nextIndex.get(target);
+          if (targetIndex !== undefined) segments.push([index, targetIndex]);
+        });
+      });
+
+      for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+          const [a1, b1] = segments[i];
+          const [a2, b2] = segments[j];
+          if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  /**
+   * Place API nodes in their own lane past the screens, each lined up with
+   * the average position of the screens connected to it
+   */
+  private static placeApiLane(
+    apiNodes: LayoutNode[],
+    edges: LayoutEdge[],
+    positions: Record<string, Point>,
+    direction: LayoutDirection,
+    origin: Point
+  ) {
+    if (apiNodes.length === 0) return;
+
+    const spacing = SPACING[direction];
+    const across = direction === 'LR' ? 'x' : 'y';
+    const along = direction === 'LR' ? 'y' : 'x';
+    const placed = Object.values(positions);
+    const lane = placed.length > 0
+      ? Math.max(...placed.map(point => point[along])) + spacing.lane
+      : origin[along];
+    let fallback = placed.length > 0 ? Math.max(...placed.map(point => point[across])) + spacing.api : origin[across];
+
+    const targets = apiNodes.map(node => {
+      const linked = edges
+        .map(edge => edge.target === node.id ? edge.source : edge.source === node.id ? edge.target : null)
+        .filter((id): id is string => !!id && !!positions[id]);
+      let target: number;
+      if (linked.length > 0) {
+        target = linked.reduce((sum, id) => sum + positions[id][across], 0) / linked.length;
+      } else {
+        target = fallback;
+        fallback += spacing.api;
+      }
+      return { id: node.id, target };
+    });
+
+    // Spread endpoints that want the same spot so they don't overlap
+    targets.sort((a, b) => a.target - b.target);
+    let previous = -Infinity;
+    targets.forEach(({ id, target }) => {
+      const value = Math.max(target, previous + spacing.api);
+      previous = value;
+      positions[id] = direction === 'LR' ? { x: value, y: lane } : { x: lane, y: value };
+    });
+  }
+
+  private static adjacency(edges: LayoutEdge[], from: 'source' | 'target', to: 'source' | 'target'): Map<string, string[]> {
+    const map = new Map<string, string[]>();
+    edges.forEach(edge => {
+      map.set(edge[from], [...(map.get(edge[from]) || []), edge[to]]);
+    });
+    return map;
+  }
+}
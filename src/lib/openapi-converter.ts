@@ -0,0 +1,384 @@
+import yaml from 'js-yaml';
+import { BackendScaffoldGenerator, QUERY_METHODS } from './backend-scaffold-generator';
+import {
+  ApiEndpoint,
+  AppArchitecture,
+  ArchitectureImportIssue,
+  HttpMethod,
+  OpenApiImportResult,
+  Screen
+} from '@/types/app-architecture';
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HTTP_METHODS = Object.values(HttpMethod).map(method => method.toLowerCase());
+const UNSUPPORTED_METHODS = ['head', 'options', 'trace'];
+
+// Screen ids an endpoint is used by, so they survive a round trip
+const SCREENS_EXTENSION = 'x-connected-screens';
+const BEARER_SCHEME = 'bearerAuth';
+
+// Lowercase letters and digits only, for loose name matching
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toCamelCase = (value: string) => {
+  const words = value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  return words.map((word, i) => i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('') || 'operation';
+};
+
+/**
+ * Converts between an architecture's API endpoints and OpenAPI 3.1. Exports
+ * carry each endpoint's screens as tags and in `x-connected-screens`; imports
+ * link operations back to screens through that extension, their tags or
+ * their operation id.
+ */
+export class OpenApiConverter {
+  /**
+   * An OpenAPI 3.1 document describing the architecture's endpoints
+   */
+  static toOpenApi(architecture: AppArchitecture): RawRecord {
+    const paths: Record<string, RawRecord> = {};
+    const operationIds = new Set<string>();
+    const screenNames = new Map(architecture.screens.map(screen => [screen.id, screen.name]));
+
+    architecture.apiEndpoints.forEach(endpoint => {
+      const { path, params } = this.toOpenApiPath(endpoint.path);
+
+      let operationId = toCamelCase(endpoint.name);
+      for (let n = 2; operationIds.has(operationId); n++) operationId = `${toCamelCase(endpoint.name)}${n}`;
+      operationIds.add(operationId);
+
+      const operation: RawRecord = { operationId, summary: endpoint.name };
+      if (endpoint.description) operation.description = endpoint.description;
+
+      const tags = endpoint.connectedScreens.map(id => screenNames.get(id)).filter((name): name is string => !!name);
+      if (tags.length > 0) operation.tags = tags;
+
+      const parameters: RawRecord[] = params.map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } }));
+      if (endpoint.requestSchema) {
+        const schema = BackendScaffoldGenerator.normalizeSchema(endpoint.requestSchema);
+        if (QUERY_METHODS.includes(endpoint.method)) {
+          Object.entries(schema.properties || {}).forEach(([name, property]) => {
+            parameters.push({ name, in: 'query', required: !!schema.required?.includes(name), schema: property });
+          });
+        } else {
+          operation.requestBody = { required: true, content: { 'application/json': { schema } } };
+        }
+      }
+      if (parameters.length > 0) operation.parameters = parameters;
+
+      const responses: RawRecord = {
+        [endpoint.method === HttpMethod.POST ? '201' : '200']: {
+          description: 'Successful response',
+          ...(endpoint.responseSchema
+            ? { content: { 'application/json': { schema: BackendScaffoldGenerator.normalizeSchema(endpoint.responseSchema) } } }
+            : {})
+        }
+      };
+      if (endpoint.authentication) {
+        operation.security = [{ [BEARER_SCHEME]: [] }];
+        responses['401'] = { description: 'Authentication required' };
+      }
+      operation.responses = responses;
+      operation[SCREENS_EXTENSION] = endpoint.connectedScreens;
+
+      paths[path] = { ...paths[path], [endpoint.method.toLowerCase()]: operation };
+    });
+
+    const usedScreens = architecture.screens.filter(screen =>
+      architecture.apiEndpoints.some(endpoint => endpoint.connectedScreens.includes(screen.id))
+    );
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: architecture.name,
+        version: architecture.metadata.version,
+        ...(architecture.description ? { description: architecture.description } : {})
+      },
+      ...(usedScreens.length > 0
+        ? { tags: usedScreens.map(screen => ({ name: screen.name, ...(screen.description ? { description: screen.description } : {}) })) }
+        : {}),
+      paths,
+      ...(architecture.apiEndpoints.some(endpoint => endpoint.authentication)
+        ? { components: { securitySchemes: { [BEARER_SCHEME]: { type: 'http', scheme: 'bearer' } } } }
+        : {})
+    };
+  }
+
+  /**
+   * Whether an imported file is an OpenAPI document rather than an architecture
+   */
+  static isOpenApi(text: string, fileName: string): boolean {
+    if (/\.ya?ml$/i.test(fileName)) return true;
+    try {
+      const document: unknown = JSON.parse(text);
+      return isRecord(document) && (document.openapi !== undefined || document.swagger !== undefined);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read an OpenAPI 3 document, as JSON or YAML, into endpoints for an
+   * architecture with these screens
+   */
+  static parse(text: string, screens: Screen[]): OpenApiImportResult {
+    try {
+      return this.fromOpenApi(yaml.load(text), screens);
+    } catch (error) {
+      return {
+        apiEndpoints: [],
+        issues: [{
+          path: '',
+          message: `Invalid OpenAPI document: ${error instanceof Error ? error.message : 'could not parse file'}`,
+          severity: 'error'
+        }]
+      };
+    }
+  }
+
+  /**
+   * Check a parsed document is OpenAPI 3 and turn each operation into an endpoint
+   */
+  static fromOpenApi(document: unknown, screens: Screen[]): OpenApiImportResult {
+    const issues: ArchitectureImportIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ path, message, severity: 'error' });
+    const warn = (path: string, message: string) => issues.push({ path, message, severity: 'warning' });
+
+    if (!isRecord(document) || (document.openapi === undefined && document.swagger === undefined)) {
+      error('', 'Expected an OpenAPI document with an `openapi` version');
+      return { apiEndpoints: [], issues };
+    }
+    if (document.swagger !== undefined || !String(document.openapi).startsWith('3.')) {
+      error(document.swagger !== undefined ? 'swagger' : 'openapi', `OpenAPI ${document.swagger ?? document.openapi} isn't supported; convert it to OpenAPI 3 first`);
+      return { apiEndpoints: [], issues };
+    }
+    if (!isRecord(document.paths)) {
+      error('paths', 'Expected a paths object');
+      return { apiEndpoints: [], issues };
+    }
+
+    const globalAuth = this.requiresAuth(document.security);
+    const apiEndpoints: ApiEndpoint[] = [];
+
+    Object.entries(document.paths).forEach(([path, rawItem]) => {
+      const item = this.resolve(rawItem, document);
+      if (!isRecord(item)) {
+        error(`paths.${path}`, 'Expected a path item object');
+        return;
+      }
+      const sharedParameters = Array.isArray(item.parameters) ? item.parameters : [];
+
+      Object.entries(item).forEach(([key, rawOperation]) => {
+        const location = `paths.${path}.${key}`;
+        if (UNSUPPORTED_METHODS.includes(key)) {
+          warn(location, `${key.toUpperCase()} operations aren't supported, skipping`);
+          return;
+        }
+        if (!HTTP_METHODS.includes(key)) return;
+        if (!isRecord(rawOperation)) {
+          error(location, 'Expected an operation object');
+          return;
+        }
+
+        const operation = rawOperation;
+        const method = key.toUpperCase() as HttpMethod;
+        const operationId = typeof operation.operationId === 'string' ? operation.operationId : '';
+        const name = typeof operation.summary === 'string' && operation.summary.trim()
+          ? operation.summary.trim()
+          : operationId || `${method} ${path}`;
+
+        let id = `api_${compact(operationId || `${method}${path}`) || apiEndpoints.length}`;
+        for (let n = 2; apiEndpoints.some(endpoint => endpoint.id === id); n++) id = `api_${compact(operationId || `${method}${path}`)}_${n}`;
+
+        const parameters = [...sharedParameters, ...(Array.isArray(operation.parameters) ? operation.parameters : [])]
+          .map(parameter => this.resolve(parameter, document))
+          .filter(isRecord);
+
+        apiEndpoints.push({
+          id,
+          name,
+          method,
+          path,
+          description: typeof operation.description === 'string' ? operation.description : '',
+          requestSchema: this.getRequestSchema(operation, parameters, method, document),
+          responseSchema: this.getResponseSchema(operation, document),
+          authentication: operation.security !== undefined ? this.requiresAuth(operation.security) : globalAuth,
+          connectedScreens: this.linkScreens(operation, operationId, screens, location, warn)
+        });
+      });
+    });
+
+    if (apiEndpoints.length === 0 && !issues.some(issue => issue.severity === 'error')) {
+      error('paths', 'The document has no operations to import');
+    }
+
+    return issues.some(issue => issue.severity === 'error')
+      ? { apiEndpoints: [], issues }
+      : { apiEndpoints, issues };
+  }
+
+  /**
+   * Add imported endpoints to an architecture. One with the same method and
+   * path as an existing endpoint replaces it, keeping its id and position.
+   */
+  static mergeEndpoints(architecture: AppArchitecture, imported: ApiEndpoint[]): AppArchitecture {
+    const routeKey = (endpoint: ApiEndpoint) =>
+      `${endpoint.method} ${this.toOpenApiPath(endpoint.path).path.replace(/\{[^}]+\}/g, '{}')}`;
+    const apiEndpoints = [...architecture.apiEndpoints];
+    const takenIds = new Set([...architecture.screens.map(screen => screen.id), ...apiEndpoints.map(endpoint => endpoint.id)]);
+
+    imported.forEach(endpoint => {
+      const index = apiEndpoints.findIndex(existing => routeKey(existing) === routeKey(endpoint));
+      if (index >= 0) {
+        apiEndpoints[index] = { ...endpoint, id: apiEndpoints[index].id, position: apiEndpoints[index].position };
+        return;
+      }
+      let id = endpoint.id;
+      for (let n = 2; takenIds.has(id); n++) id = `${endpoint.id}_${n}`;
+      takenIds.add(id);
+      apiEndpoints.push({ ...endpoint, id });
+    });
+
+    return {
+      ...architecture,
+      apiEndpoints,
+      metadata: {
+        ...architecture.metadata,
+        updatedAt: new Date().toISOString(),
+        estimatedApis: apiEndpoints.length
+      }
+    };
+  }
+
+  // `/users/:id` becomes `/users/{id}`, with the parameter names
+  private static toOpenApiPath(path: string): { path: string; params: string[] } {
+    const params: string[] = [];
+    const converted = path.split('/').map(segment => {
+      const param = /^(?::(.+)|\{(.+)\})$/.exec(segment);
+      if (!param) return segment;
+      const name = param[1] || param[2];
+      params.push(name);
+      return `{${name}}`;
+    }).join('/');
+    return { path: converted.startsWith('/') ? converted : `/${converted}`, params };
+  }
+
+  // Security requirements apply unless every one is empty, which marks auth as optional
+  private static requiresAuth(security: unknown): boolean {
+    return Array.isArray(security) && security.length > 0 &&
+      !security.some(requirement => isRecord(requirement) && Object.keys(requirement).length === 0);
+  }
+
+  // Query parameters for GET and DELETE, the JSON body otherwise
+  private static getRequestSchema(
+    operation: RawRecord,
+    parameters: RawRecord[],
+    method: HttpMethod,
+    document: RawRecord
+  ): Record<string, unknown> | undefined {
+    if (QUERY_METHODS.includes(method)) {
+      const query = parameters.filter(parameter => parameter.in === 'query' && typeof parameter.name === 'string');
+      if (query.length === 0) return undefined;
+      const required = query.filter(parameter => parameter.required === true).map(parameter => parameter.name as string);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(query.map(parameter => [
+          parameter.name as string,
+          isRecord(parameter.schema) ? this.inlineRefs(parameter.schema, document) : { type: 'string' }
+        ])),
+        ...(required.length > 0 ? { required } : {})
+      };
+    }
+
+    const body = this.resolve(operation.requestBody, document);
+    return isRecord(body) ? this.getJsonSchema(body.content, document) : undefined;
+  }
+
+  // The first success response's body
+  private static getResponseSchema(operation: RawRecord, document: RawRecord): Record<string, unknown> | undefined {
+    if (!isRecord(operation.responses)) return undefined;
+    const status = Object.keys(operation.responses).filter(code => /^2\d\d$/.test(code)).sort()[0];
+    const response = status ? this.resolve(operation.responses[status], document) : undefined;
+    return isRecord(response) ? this.getJsonSchema(response.content, document) : undefined;
+  }
+
+  private static getJsonSchema(content: unknown, document: RawRecord): Record<string, unknown> | undefined {
+    if (!isRecord(content)) return undefined;
+    const media = content['application/json'] ?? Object.values(content)[0];
+    return isRecord(media) && isRecord(media.schema) ? this.inlineRefs(media.schema, document) : undefined;
+  }
+
+  // `x-connected-screens` first, then tags naming a screen, then a screen named in the operation id
+  private static linkScreens(
+    operation: RawRecord,
+    operationId: string,
+    screens: Screen[],
+    location: string,
+    warn: (path: string, message: string) => void
+  ): string[] {
+    const byReference = (ref: string) =>
+      screens.find(screen => screen.id === ref) || screens.find(screen => compact(screen.name) === compact(ref));
+
+    const listed = operation[SCREENS_EXTENSION];
+    if (Array.isArray(listed) && listed.length > 0) {
+      const linked: string[] = [];
+      listed.forEach((ref, index) => {
+        const screen = typeof ref === 'string' ? byReference(ref) : undefined;
+        if (screen) {
+          linked.push(screen.id);
+        } else {
+          warn(`${location}.${SCREENS_EXTENSION}[${index}]`, `Unknown screen "${ref}", removing link`);
+        }
+      });
+      return Array.from(new Set(linked));
+    }
+
+    const tags = Array.isArray(operation.tags) ? operation.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    const tagged = tags.map(byReference).filter((screen): screen is Screen => !!screen);
+    if (tagged.length > 0) return Array.from(new Set(tagged.map(screen => screen.id)));
+
+    if (!operationId) return [];
+    const id = compact(operationId);
+    const named = screens
+      .filter(screen => compact(screen.name).length >= 3 && id.includes(compact(screen.name)))
+      .sort((a, b) => compact(b.name).length - compact(a.name).length)[0];
+    return named ? [named.id] : [];
+  }
+
+  // Follow a local `$ref` such as `#/components/schemas/User`
+  private static resolve(value: unknown, document: RawRecord): unknown {
+    let current = value;
+    for (let depth = 0; depth < 10 && isRecord(current) && typeof current.$ref === 'string'; depth++) {
+      const ref: string = current.$ref;
+      if (!ref.startsWith('#/')) return undefined;
+      current = ref.slice(2).split('/').reduce<unknown>(
+        (node, key) => isRecord(node) ? node[key.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined,
+        document
+      );
+    }
+    return current;
+  }
+
+  // Endpoint schemas are stored self-contained; a recursive reference becomes a plain object
+  private static inlineRefs(schema: RawRecord, document: RawRecord, seen: string[] = []): RawRecord {
+    const ref = typeof schema.$ref === 'string' ? schema.$ref : undefined;
+    if (ref) {
+      if (seen.includes(ref)) return { type: 'object' };
+      const target = this.resolve(schema, document);
+      return isRecord(target) ? this.inlineRefs(target, document, [...seen, ref]) : { type: 'object' };
+    }
+
+    const inline = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(inline);
+      return isRecord(value) ? this.inlineRefs(value, document, seen) : value;
+    };
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) =>
+      key === 'enum' || key === 'required' || key === 'example' || key === 'examples' ? [key, value] : [key, inline(value)]
+    ));
+  }
+}
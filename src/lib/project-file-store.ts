@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProjectSummary, SavedProject } from '@/types/app-architecture';
+
+const PROJECTS_DIR = process.env.PROJECTS_DIR || path.join(process.cwd(), '.data', 'projects');
+
+/**
+ * Server-side project store that keeps one JSON file per project on disk
+ */
+export class ProjectFileStore {
+  static isValidId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,100}$/.test(id);
+  }
+
+  static async list(): Promise<ProjectSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(PROJECTS_DIR);
+    } catch {
+      return [];
+    }
+
+    const projects = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.replace(/\.json$/, '')))
+    );
+
+    return projects
+      .filter((project): project is SavedProject => project !== null)
+      .map(project => this.summarize(project))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static async get(id: string): Promise<SavedProject | null> {
+    if (!this.isValidId(id)) return null;
+
+    try {
+      const data = await fs.readFile(this.filePath(id), 'utf-8');
+      return JSON.parse(data) as SavedProject;
+    } catch {
+      return null;
+    }
+  }
+
+  static async save(project: SavedProject): Promise<void> {
+    if (!this.isValidId(project.id)) {
+      throw new Error(`Invalid project id: ${project.id}`);
+    }
+
+    await fs.mkdir(PROJECTS_DIR, { recursive: true });
+    // Write to a temp file first so a crash mid-write can't corrupt the project;
+    // each write gets its own, since autosaves of one project can overlap
+    const tempPath = `${this.filePath(project.id)}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(project, null, 2), 'utf-8');
+      await fs.rename(tempPath, this.filePath(project.id));
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    if (!this.isValidId(id)) return false;
+
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static summarize(project: SavedProject): ProjectSummary {
+    return {
+      id: project.id,
+      name: project.name,
+      updatedAt: project.updatedAt,
+      screenCount: project.architecture?.screens.length || 0,
+      hasWireframes: !!project.wireframes?.screens.length,
+    };
+  }
+
+  private static filePath(id: string): string {
+    return path.join(PROJECTS_DIR, `${id}.json`);
+  }
+}
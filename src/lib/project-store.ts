@@ -0,0 +1,176 @@
+import { ChatMessage, ProjectSummary, SavedProject } from '@/types/app-architecture';
+
+const DB_NAME = 'ai-app-studio';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+
+/**
+ * Browser-side project store. Projects are kept in IndexedDB for instant
+ * reloads and mirrored to the file-backed `/api/projects` store. Reads fall
+ * back to the local copy when the server is unreachable; failed writes throw
+ * so the caller can tell the user the server copy is out of date.
+ */
+export class ProjectStore {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static async list(): Promise<ProjectSummary[]> {
+    const [local, remote] = await Promise.all([
+      this.withStore<SavedProject[]>('readonly', store => store.getAll()).catch(() => []),
+      this.fetchRemote<{ projects: ProjectSummary[] }>('/api/projects').then(data => data?.projects || []),
+    ]);
+
+    // Merge both sources, keeping whichever copy was saved most recently
+    const summaries = new Map<string, ProjectSummary>();
+    [...local.map(project => this.summarize(project)), ...remote].forEach(summary => {
+      const existing = summaries.get(summary.id);
+      if (!existing || summary.updatedAt > existing.updatedAt) {
+        summaries.set(summary.id, summary);
+      }
+    });
+
+    return Array.from(summaries.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static async load(id: string): Promise<SavedProject | null> {
+    const [local, remote] = await Promise.all([
+      this.withStore<SavedProject | undefined>('readonly', store => store.get(id)).catch(() => undefined),
+      this.fetchRemote<{ project: SavedProject }>(`/api/projects/${encodeURIComponent(id)}`).then(data => data?.project),
+    ]);
+
+    const project = !local || (remote && remote.updatedAt > local.updatedAt) ? remote : local;
+    return project ? this.revive(project) : null;
+  }
+
+  /**
+   * Save locally, then mirror to the server. Throws if the server copy could
+   * not be updated; the local copy is saved either way.
+   */
+  static async save(project: SavedProject): Promise<void> {
+    await this.withStore('readwrite', store => store.put(project));
+
+    await this.sendRemote(`/api/projects/${encodeURIComponent(project.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ project }),
+    }, 'sync project');
+  }
+
+  static async rename(id: string, name: string): Promise<void> {
+    const local = await this.withStore<SavedProject | undefined>('readonly', store => store.get(id)).catch(() => undefined);
+    if (local) {
+      await this.withStore('readwrite', store => store.put({ ...local, name, updatedAt: new Date().toISOString() }));
+    }
+
+    // A project that was never synced only exists locally
+    const response = await this.sendRemote(`/api/projects/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    }, 'rename project', local ? [404] : []);
+    if (!local && response.status === 404) {
+      throw new Error(`Project ${id} not found`);
+    }
+  }
+
+  /**
+   * Delete from the server first, so a failure there doesn't leave a copy
+   * that reappears in the next `list`
+   */
+  static async delete(id: string): Promise<void> {
+    await this.sendRemote(`/api/projects/${encodeURIComponent(id)}`, { method: 'DELETE' }, 'delete project', [404]);
+    await this.withStore('readwrite', store => store.delete(id));
+  }
+
+  static createId(): string {
+    return `project_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private static summarize(project: SavedProject): ProjectSummary {
+    return {
+      id: project.id,
+      name: project.name,
+      updatedAt: project.updatedAt,
+      screenCount: project.architecture?.screens.length || 0,
+      hasWireframes: !!project.wireframes?.screens.length,
+    };
+  }
+
+  /**
+   * Restore `Date` fields lost when a project round-trips through JSON
+   */
+  private static revive(project: SavedProject): SavedProject {
+    const reviveMessages = (messages: ChatMessage[] = []) =>
+      messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+
+    return {
+      ...project,
+      chatMessages: reviveMessages(project.chatMessages),
+      wireframeMessages: reviveMessages(project.wireframeMessages),
+    };
+  }
+
+  private static async fetchRemote<T>(url: string): Promise<T | null> {
+    try {
+      const response = await fetch(url);
+      return response.ok ? await response.json() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send a change to the server, throwing unless it succeeded or failed with
+   * one of the `allowedStatuses`
+   */
+  private static async sendRemote(url: string, init: RequestInit, action: string, allowedStatuses: number[] = []): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new Error(`Couldn't reach the server to ${action}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Failed to ${action} on the server: ${body?.error || `HTTP ${response.status}`}`);
+    }
+    return response;
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,242 @@
+import { AppArchitecture, ArchitectureLintRule, GenerationSource, PromptRef, ScreenType } from '@/types/app-architecture';
+import { AIFlowGenerator } from './ai-flow-generator';
+import { ArchitectureLinter } from './architecture-linter';
+import { PromptOptions } from './prompt-registry';
+import { FALLBACK_SOURCE } from './specialized-ai-services';
+
+// One goal description in the evaluation corpus
+export interface EvaluationCase {
+  id: string;
+  goal: string;
+  expectedScreens?: [number, number]; // Smallest and largest sensible screen count for the goal
+}
+
+// Structural metrics for one generated architecture; ratios run from 0 (worst) to 1
+export interface ArchitectureScore {
+  caseId: string;
+  generatedBy?: GenerationSource;
+  usedTemplate: boolean;
+  screens: number;
+  expectedScreens: [number, number] | null;
+  screenCount: number | null; // null when the goal has no expected range
+  connectivity: number;
+  authCoverage: number;
+  apiLinkage: number | null; // null when there are no endpoints to link
+  normalizationFallbacks: number;
+  addedTransitions: number;
+  overall: number;
+  error?: string;
+}
+
+export interface EvaluationRun {
+  label: string;
+  scores: ArchitectureScore[];
+}
+
+export interface EvaluationSummary {
+  overall: number;
+  screenCount: number | null;
+  connectivity: number;
+  authCoverage: number;
+  apiLinkage: number | null;
+  normalizationFallbacks: number;
+  addedTransitions: number;
+  templateFallbacks: number;
+}
+
+// Transitions the normalizer adds to patch up a disconnected flow
+const ADDED_TRANSITION_PREFIX = 'fallback_transition_';
+
+/**
+ * Runs a corpus of goals through architecture generation with a given set of
+ * prompts and scores the results, so two prompt versions can be compared
+ */
+export class PromptEvaluation {
+  static async run(
+    label: string,
+    cases: EvaluationCase[],
+    promptOptions: PromptOptions,
+    onProgress?: (evaluationCase: EvaluationCase, score: ArchitectureScore) => void
+  ): Promise<EvaluationRun> {
+    const scores: ArchitectureScore[] = [];
+
+    // One at a time, so local models and rate limits aren't overwhelmed
+    for (const evaluationCase of cases) {
+      let score: ArchitectureScore;
+      try {
+        const architecture = await AIFlowGenerator.generateArchitecture(evaluationCase.goal, undefined, promptOptions);
+        score = this.score(evaluationCase, architecture);
+      } catch (error) {
+        score = this.failedScore(evaluationCase.id, error instanceof Error ? error.message : String(error));
+      }
+      scores.push(score);
+      onProgress?.(evaluationCase, score);
+    }
+
+    return { label, scores };
+  }
+
+  /**
+   * Score the flow as the model produced it: transitions added during
+   * normalization don't count towards connectivity
+   */
+  static score(evaluationCase: EvaluationCase, architecture: AppArchitecture): ArchitectureScore {
+    const caseId = evaluationCase.id;
+    const generatedBy = architecture.metadata.generatedBy;
+    const usedTemplate = !generatedBy || generatedBy.provider === FALLBACK_SOURCE.provider;
+    const addedTransitions = architecture.transitions.filter(t => t.id.startsWith(ADDED_TRANSITION_PREFIX)).length;
+    const generated: AppArchitecture = {
+      ...architecture,
+      transitions: architecture.transitions.filter(t => !t.id.startsWith(ADDED_TRANSITION_PREFIX))
+    };
+
+    const issues = ArchitectureLinter.lint(generated);
+    const count = (rule: ArchitectureLintRule) => issues.filter(issue => issue.rule === rule).length;
+
+    // Full marks inside the goal's expected range, then the ratio to the nearest end of it
+    const screens = generated.screens.length;
+    const expectedScreens = evaluationCase.expectedScreens || null;
+    const screenCount = !expectedScreens ? null
+      : screens < expectedScreens[0] ? screens / expectedScreens[0]
+      : screens > expectedScreens[1] ? expectedScreens[1] / screens
+      : 1;
+    const connectivity = screens > 0 ? 1 - count('unreachable-screen') / screens : 0;
+
+    const protectedScreens = generated.screens.filter(s => s.data.requiresAuth && s.type !== ScreenType.AUTH).length;
+    const authCoverage = protectedScreens === 0 ? 1
+      : count('missing-auth-screen') > 0 ? 0
+      : 1 - count('auth-bypass') / protectedScreens;
+
+    const endpoints = generated.apiEndpoints.length;
+    const unlinkedEndpoints = generated.apiEndpoints.filter(endpoint => endpoint.connectedScreens.length === 0).length;
+    const apiLinkage = endpoints > 0 ? 1 - (count('missing-connected-screen') + unlinkedEndpoints) / endpoints : null;
+
+    const ratios = [screenCount, connectivity, authCoverage, apiLinkage].filter((ratio): ratio is number => ratio !== null);
+    return {
+      caseId,
+      generatedBy,
+      usedTemplate,
+      screens,
+      expectedScreens,
+      screenCount,
+      connectivity,
+      authCoverage,
+      apiLinkage,
+      normalizationFallbacks: architecture.metadata.normalizationFallbacks?.length || 0,
+      addedTransitions,
+      // Built-in templates say nothing about the prompt, so they score zero
+      overall: usedTemplate ? 0 : ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length
+    };
+  }
+
+  /**
+   * Averages over the goals the model answered; template fallbacks are counted separately
+   */
+  static summarize(run: EvaluationRun): EvaluationSummary {
+    const generated = run.scores.filter(score => !score.usedTemplate);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const present = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+    const linkage = present(generated.map(score => score.apiLinkage));
+    const screenCounts = present(generated.map(score => score.screenCount));
+
+    return {
+      overall: average(run.scores.map(score => score.overall)),
+      screenCount: screenCounts.length > 0 ? average(screenCounts) : null,
+      connectivity: average(generated.map(score => score.connectivity)),
+      authCoverage: average(generated.map(score => score.authCoverage)),
+      apiLinkage: linkage.length > 0 ? average(linkage) : null,
+      normalizationFallbacks: generated.reduce((sum, score) => sum + score.normalizationFallbacks, 0),
+      addedTransitions: generated.reduce((sum, score) => sum + score.addedTransitions, 0),
+      templateFallbacks: run.scores.length - generated.length,
+    };
+  }
+
+  /**
+   * Markdown report comparing a candidate prompt version against a baseline
+   */
+  static formatReport(baseline: EvaluationRun, candidate: EvaluationRun): string {
+    const before = this.summarize(baseline);
+    const after = this.summarize(candidate);
+    const ratio = (value: number | null) => value === null ? 'n/a' : value.toFixed(2);
+    const change = (from: number | null, to: number | null, digits = 2) => {
+      if (from === null || to === null) return 'n/a';
+      const delta = to - from;
+      return `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+    };
+
+    const lines = [
+      '# Architecture prompt evaluation',
+      '',
+      `- Baseline: ${baseline.label} (${this.describeSources(baseline)})`,
+      `- Candidate: ${candidate.label} (${this.describeSources(candidate)})`,
+      `- Goals: ${baseline.scores.length}`,
+      `- Generated: ${new Date().toISOString()}`,
+      '',
+      '## Summary',
+      '',
+      '| Metric | Baseline | Candidate | Change |',
+      '| --- | --- | --- | --- |',
+      `| Overall score | ${ratio(before.overall)} | ${ratio(after.overall)} | ${change(before.overall, after.overall)} |`,
+      `| Screen count vs expected | ${ratio(before.screenCount)} | ${ratio(after.screenCount)} | ${change(before.screenCount, after.screenCount)} |`,
+      `| Connectivity | ${ratio(before.connectivity)} | ${ratio(after.connectivity)} | ${change(before.connectivity, after.connectivity)} |`,
+      `| Auth coverage | ${ratio(before.authCoverage)} | ${ratio(after.authCoverage)} | ${change(before.authCoverage, after.authCoverage)} |`,
+      `| API-to-screen linkage | ${ratio(before.apiLinkage)} | ${ratio(after.apiLinkage)} | ${change(before.apiLinkage, after.apiLinkage)} |`,
+      `| Normalization fallbacks | ${before.normalizationFallbacks} | ${after.normalizationFallbacks} | ${change(before.normalizationFallbacks, after.normalizationFallbacks, 0)} |`,
+      `| Transitions added for connectivity | ${before.addedTransitions} | ${after.addedTransitions} | ${change(before.addedTransitions, after.addedTransitions, 0)} |`,
+      `| Built-in template fallbacks | ${before.templateFallbacks} | ${after.templateFallbacks} | ${change(before.templateFallbacks, after.templateFallbacks, 0)} |`,
+      '',
+      '## Goals',
+      '',
+      '| Goal | Baseline | Candidate | Change | Screens | Fallbacks | Notes |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...baseline.scores.map(score => {
+        const other = candidate.scores.find(s => s.caseId === score.caseId);
+        const notes = [
+          score.usedTemplate ? 'baseline used template' : '',
+          other?.usedTemplate ? 'candidate used template' : '',
+          score.error ? `baseline error: ${score.error}` : '',
+          other?.error ? `candidate error: ${other.error}` : '',
+        ].filter(Boolean).join('; ');
+        return `| ${score.caseId} | ${ratio(score.overall)} | ${ratio(other?.overall ?? null)} | ${change(score.overall, other?.overall ?? null)} | ` +
+          `${score.screens} → ${other?.screens ?? '-'} | ${score.normalizationFallbacks} → ${other?.normalizationFallbacks ?? '-'} | ${notes} |`;
+      }),
+      '',
+    ];
+
+    return lines.join('\n');
+  }
+
+  // e.g. "architecture@1.0.0 on openai gpt-4o-mini"
+  private static describeSources(run: EvaluationRun): string {
+    const sources = new Set(
+      run.scores
+        .filter(score => !score.usedTemplate && score.generatedBy)
+        .map(score => {
+          const { provider, model, prompt } = score.generatedBy as GenerationSource;
+          return `${this.formatPrompt(prompt)} on ${provider} ${model}`;
+        })
+    );
+    return sources.size > 0 ? Array.from(sources).join(', ') : 'no model responses';
+  }
+
+  private static formatPrompt(prompt?: PromptRef): string {
+    return prompt ? `${prompt.id}@${prompt.version}` : 'unknown prompt';
+  }
+
+  private static failedScore(caseId: string, error: string): ArchitectureScore {
+    return {
+      caseId,
+      usedTemplate: true,
+      screens: 0,
+      expectedScreens: null,
+      screenCount: 0,
+      connectivity: 0,
+      authCoverage: 0,
+      apiLinkage: null,
+      normalizationFallbacks: 0,
+      addedTransitions: 0,
+      overall: 0,
+      error
+    };
+  }
+}
@@ -0,0 +1,7 @@
+// Browser stand-in for prompt-file-store.ts, aliased in next.config.ts.
+// Prompt overrides are files on disk, so they are only read on the server.
+export class PromptFileStore {
+  static async read(): Promise<null> {
+    throw new Error('Prompt overrides are only available on the server');
+  }
+}
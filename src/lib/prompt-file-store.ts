@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const PROMPTS_DIR = process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+
+export interface PromptOverride {
+  version?: string;
+  persona?: string;
+  template?: string;
+}
+
+/**
+ * Prompt overrides on disk, one `<prompt id>.md` file per prompt. Optional
+ * front matter sets `version` and `persona`; the rest of the file, when not
+ * empty, replaces the template.
+ */
+export class PromptFileStore {
+  static async read(id: string, dir: string = PROMPTS_DIR): Promise<PromptOverride | null> {
+    try {
+      const content = await fs.readFile(path.join(dir, `${id}.md`), 'utf-8');
+      return this.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private static parse(content: string): PromptOverride {
+    const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+    const fields: Record<string, string> = {};
+    frontMatter?.[1].split(/\r?\n/).forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    });
+
+    const template = (frontMatter ? content.slice(frontMatter[0].length) : content).trim();
+    return {
+      version: fields.version || undefined,
+      persona: fields.persona || undefined,
+      template: template || undefined,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { PromptRef } from '@/types/app-architecture';
+import { PROMPT_TEMPLATES } from './prompt-templates';
+
+export type PromptId =
+  | 'architecture'
+  | 'architecture-compact'
+  | 'architecture-modification'
+  | 'data-model'
+  | 'wireframe'
+  | 'wireframe-compact'
+  | 'wireframe-edit'
+  | 'questions'
+  | 'thinking';
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: string;
+  description: string;
+  persona?: string;
+  variables: string[];
+  template: string;
+}
+
+// A template with its file override, if any, applied
+export interface ResolvedPrompt extends PromptTemplate {
+  source: 'built-in' | 'file';
+}
+
+export interface PromptOptions {
+  // Directory of override files, instead of PROMPTS_DIR
+  promptsDir?: string;
+  // Ignore override files and use the built-in templates
+  builtInOnly?: boolean;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export class PromptTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly promptId: string
+  ) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Versioned prompt templates for every AI task. Built-in templates can be
+ * overridden per prompt from files in `PROMPTS_DIR`, and each rendered prompt
+ * carries the id and version that generated results record.
+ */
+export class PromptRegistry {
+  static async list(options: PromptOptions = {}): Promise<ResolvedPrompt[]> {
+    return Promise.all(PROMPT_TEMPLATES.map(template => this.get(template.id, options)));
+  }
+
+  /**
+   * The template for a prompt. Overrides that use variables the prompt
+   * doesn't provide are ignored with a warning.
+   */
+  static async get(id: PromptId, options: PromptOptions = {}): Promise<ResolvedPrompt> {
+    const builtIn = PROMPT_TEMPLATES.find(template => template.id === id);
+    if (!builtIn) {
+      throw new PromptTemplateError(`Unknown prompt: ${id}`, id);
+    }
+
+    const override = options.builtInOnly ? null : await this.readOverride(id, options.promptsDir);
+    if (!override) return { ...builtIn, source: 'built-in' };
+
+    const template = override.template ?? builtIn.template;
+    const unknown = this.placeholders(template).filter(name => name !== 'persona' && !builtIn.variables.includes(name));
+    if (unknown.length > 0) {
+      console.warn(`Ignoring prompt override for ${id}, unknown variables: ${unknown.join(', ')}`);
+      return { ...builtIn, source: 'built-in' };
+    }
+
+    return {
+      ...builtIn,
+      // Unversioned overrides still need to be told apart from the built-in template
+      version: override.version || `${builtIn.version}+file`,
+      persona: override.persona ?? builtIn.persona,
+      template,
+      source: 'file',
+    };
+  }
+
+  static async render(id: PromptId, variables: Record<string, string>, options: PromptOptions = {}): Promise<RenderedPrompt> {
+    const prompt = await this.get(id, options);
+    const missing = prompt.variables.filter(name => variables[name] === undefined);
+    if (missing.length > 0) {
+      throw new PromptTemplateError(`Missing variables for prompt ${id}: ${missing.join(', ')}`, id);
+    }
+
+    const values: Record<string, string> = { ...variables, persona: prompt.persona || '' };
+    return {
+      text: prompt.template.replace(PLACEHOLDER, (_, name: string) => values[name]),
+      ref: { id, version: prompt.version },
+    };
+  }
+
+  private static placeholders(template: string): string[] {
+    return Array.from(template.matchAll(PLACEHOLDER), match => match[1]);
+  }
+
+  private static async readOverride(id: PromptId, promptsDir?: string) {
+    try {
+      const { PromptFileStore } = await import('@/lib/prompt-file-store');
+      return await PromptFileStore.read(id, promptsDir);
+    } catch (error) {
+      console.warn(`Failed to read prompt override for ${id}, using the built-in template:`, error);
+      return null;
+    }
+  }
+}
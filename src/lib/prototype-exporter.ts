@@ -0,0 +1,320 @@
+import JSZip from 'jszip';
+import {
+  ComponentStyles,
+  ComponentType,
+  DeviceType,
+  WireframeComponent,
+  WireframeFlow,
+  WireframeProject,
+  WireframeScreen
+} from '@/types/app-architecture';
+
+// Elements that can't have children or closing tags
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Layout, text and form elements; anything else (script, iframe, object, style...) renders as a div
+const ALLOWED_TAGS = new Set([
+  'div', 'span', 'section', 'article', 'aside', 'header', 'footer', 'main', 'nav',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'strong', 'em', 'small', 'label', 'hr', 'br',
+  'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'a', 'img', 'form', 'fieldset', 'legend', 'input', 'textarea', 'select', 'option', 'button',
+]);
+
+// Props that load or navigate to a URL; kept only for http(s) and relative URLs
+const URL_PROPS = new Set(['src', 'action', 'formaction', 'poster', 'cite', 'background']);
+
+// Numeric style values that stay unitless, as in React
+const UNITLESS_STYLES = new Set(['zIndex', 'opacity', 'flex', 'flexGrow', 'flexShrink', 'order', 'fontWeight', 'lineHeight']);
+
+const SCREEN_WIDTHS: Record<DeviceType, string> = {
+  [DeviceType.MOBILE]: '375px',
+  [DeviceType.TABLET]: '768px',
+  [DeviceType.DESKTOP]: '1200px',
+};
+
+// The canvas's per-type wireframe look, so the prototype matches what was designed
+const BASE_CSS = `* { box-sizing: border-box; }
+body { margin: 0; background: #eef0f3; font-family: system-ui, -apple-system, sans-serif; color: #212529; }
+.wf-screen { margin: 24px auto; background: #fafafa; min-height: 600px; box-shadow: 0 4px 16px rgba(0,0,0,0.08); }
+.wf-prototype-nav { margin: 0 auto 24px; padding: 12px 16px; background: #fff; border: 1px solid #dee2e6; border-radius: 8px; font-size: 13px; display: flex; flex-wrap: wrap; gap: 8px 16px; align-items: center; }
+.wf-prototype-nav a { color: #2563eb; text-decoration: none; }
+.wf-prototype-nav a:hover { text-decoration: underline; }
+.wf-link { cursor: pointer; }
+.wf-link:hover { outline: 2px solid rgba(37, 99, 235, 0.4); outline-offset: 2px; }
+.wf-index { max-width: 720px; margin: 40px auto; padding: 0 16px; }
+.wf-index h2 { font-size: 16px; text-transform: capitalize; margin-top: 24px; }
+.wf-index li { margin: 6px 0; }
+.wf-index a { color: #2563eb; }
+.wf-container { display: flex; flex-direction: column; gap: 12px; padding: 16px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #fafafa; }
+.wf-header { padding: 16px; background-color: #f8f9fa; border-bottom: 1px solid #dee2e6; font-weight: bold; }
+.wf-navbar { display: flex; justify-content: space-between; align-items: center; padding: 12px 16px; background-color: #fff; border-bottom: 1px solid #e0e0e0; min-height: 60px; }
+.wf-card { padding: 16px; background-color: #fff; border: 1px solid #e0e0e0; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+.wf-heading { font-size: 24px; font-weight: bold; margin: 0 0 16px 0; color: #212529; }
+.wf-paragraph { font-size: 14px; line-height: 1.5; color: #666; margin: 0 0 12px 0; }
+.wf-list { display: flex; flex-direction: column; gap: 8px; padding: 0; margin: 0; list-style: none; }
+.wf-list_item { padding: 8px 12px; background-color: #f8f9fa; border: 1px solid #e9ecef; border-radius: 4px; font-size: 14px; }
+.wf-form { display: flex; flex-direction: column; gap: 16px; padding: 20px; border: 1px solid #dee2e6; border-radius: 8px; background-color: #fff; }
+.wf-image-placeholder { display: flex; align-items: center; justify-content: center; min-height: 100px; background-color: #f0f0f0; border: 2px dashed #ccc; color: #666; font-size: 12px; }
+.wf-field { width: 100%; padding: 8px 12px; border: 1px solid #ddd; border-radius: 4px; font-size: 14px; font-family: inherit; }
+.wf-control-button { padding: 8px 16px; border: none; border-radius: 4px; background-color: #f8f9fa; color: #212529; font-size: 14px; cursor: pointer; }
+.wf-control-button.primary { background-color: #007bff; color: #fff; }
+.wf-spinner { width: 24px; height: 24px; border: 2px solid #f3f3f3; border-top: 2px solid #007bff; border-radius: 50%; animation: wf-spin 1s linear infinite; }
+@keyframes wf-spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
+`;
+
+interface RenderContext {
+  screen: WireframeScreen;
+  pages: Map<WireframeScreen, string>;
+  project: WireframeProject;
+  rules: string[];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Anything with a scheme other than http(s) (`javascript:`, `data:`...) is rejected
+const isSafeUrl = (value: string) => /^https?:\/\//i.test(value) || !/^[^/?#]*:/.test(value);
+
+// Strip what could end a declaration or rule, or break out of an attribute
+const cleanCssValue = (value: string) => value.replace(/[{};<>"\\]|\/\*|\*\//g, '');
+
+const toKebabCase = (property: string) => property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'screen';
+
+/**
+ * Renders a wireframe project as a static, clickable HTML/CSS prototype: one
+ * page per screen, linked along the flow's edges and the components' click
+ * interactions, with an index page listing every screen.
+ */
+export class PrototypeExporter {
+  /**
+   * File paths and contents of the prototype
+   */
+  static buildFiles(project: WireframeProject, flow?: WireframeFlow | null): Record<string, string> {
+    const pages = this.assignPages(project.screens);
+    const files: Record<string, string> = {};
+    const screenRules: string[] = [];
+
+    project.screens.forEach(screen => {
+      const context: RenderContext = { screen, pages, project, rules: screenRules };
+      files[pages.get(screen)!] = this.renderScreenPage(screen, context, this.getFlowLinks(screen, project, flow, pages));
+    });
+
+    files['index.html'] = this.renderIndexPage(project, pages);
+    files['styles.css'] = `${BASE_CSS}\n/* Component styles */\n${screenRules.join('\n')}\n`;
+    return files;
+  }
+
+  /**
+   * Zip the prototype so it can be downloaded and opened from `index.html`
+   */
+  static async exportZip(project: WireframeProject, flow?: WireframeFlow | null): Promise<Blob> {
+    const zip = new JSZip();
+    const folder = zip.folder(slugify(project.name))!;
+    Object.entries(this.buildFiles(project, flow)).forEach(([path, content]) => folder.file(path, content));
+    return zip.generateAsync({ type: 'blob' });
+  }
+
+  // One file per screen; device variants of a screen get the device in their name
+  private static assignPages(screens: WireframeScreen[]): Map<WireframeScreen, string> {
+    const pages = new Map<WireframeScreen, string>();
+    const used = new Set<string>(['index.html']);
+
+    screens.forEach(screen => {
+      const base = `${slugify(screen.name)}-${screen.device}`;
+      let page = `${base}.html`;
+      for (let n = 2; used.has(page); n++) page = `${base}-${n}.html`;
+      used.add(page);
+      pages.set(screen, page);
+    });
+    return pages;
+  }
+
+  // Screens reachable from this one along the flow edges
+  private static getFlowLinks(
+    screen: WireframeScreen,
+    project: WireframeProject,
+    flow: WireframeFlow | null | undefined,
+    pages: Map<WireframeScreen, string>
+  ): { label: string; page: string }[] {
+    if (!flow) return [];
+    const screenForNode = (nodeId: string) => {
+      const node = flow.nodes.find(n => n.id === nodeId);
+      return project.screens.find(s => s.id === (node?.data.screen.id || nodeId));
+    };
+
+    return flow.edges
+      .filter(edge => screenForNode(edge.source) === screen)
+      .map(edge => {
+        const target = screenForNode(edge.target);
+        return target ? { label: edge.label ? `${target.name} (${edge.label})` : target.name, page: pages.get(target)! } : null;
+      })
+      .filter((link): link is { label: string; page: string } => !!link);
+  }
+
+  // Interaction targets name a screen by id or name; prefer the variant for the same device
+  private static resolveTarget(target: string, context: RenderContext): string | undefined {
+    const wanted = target.trim().toLowerCase();
+    const matches = context.project.screens.filter(s =>
+      s.id.toLowerCase() === wanted ||
+      s.sourceScreenId?.toLowerCase() === wanted ||
+      s.name.toLowerCase() === wanted
+    );
+    const match = matches.find(s => s.device === context.screen.device) || matches[0];
+    return match ? context.pages.get(match) : undefined;
+  }
+
+  private static renderScreenPage(
+    screen: WireframeScreen,
+    context: RenderContext,
+    links: { label: string; page: string }[]
+  ): string {
+    const { layout } = screen;
+    const layoutStyles: ComponentStyles = {
+      maxWidth: layout.maxWidth || SCREEN_WIDTHS[screen.device],
+      display: layout.type === 'grid' ? 'grid' : layout.type === 'absolute' ? 'block' : 'flex',
+      flexDirection: layout.type === 'grid' || layout.type === 'absolute' ? undefined : layout.direction || 'column',
+      position: layout.type === 'absolute' ? 'relative' : undefined,
+      gap: layout.gap,
+      padding: layout.padding,
+    };
+    const screenClass = `wf-screen-${slugify(context.pages.get(screen)!.replace(/\.html$/, ''))}`;
+    context.rules.push(this.renderRule(screenClass, layoutStyles));
+
+    const body = screen.components.map(component => this.renderComponent(component, context)).join('\n');
+    const nav = [
+      '<a href="index.html">All screens</a>',
+      ...links.map(link => `<a href="${escapeHtml(link.page)}">&rarr; ${escapeHtml(link.label)}</a>`),
+    ].join('\n    ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(screen.name)} · ${escapeHtml(context.project.name)}</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <main class="wf-screen ${screenClass}">
+${body}
+  </main>
+  <nav class="wf-prototype-nav" style="max-width: ${escapeHtml(cleanCssValue(String(layoutStyles.maxWidth)))}">
+    ${nav}
+  </nav>
+</body>
+</html>
+`;
+  }
+
+  private static renderIndexPage(project: WireframeProject, pages: Map<WireframeScreen, string>): string {
+    const sections = Object.values(DeviceType)
+      .map(device => {
+        const screens = project.screens.filter(screen => screen.device === device);
+        if (screens.length === 0) return '';
+        const items = screens
+          .map(screen => `      <li><a href="${escapeHtml(pages.get(screen)!)}">${escapeHtml(screen.name)}</a>${screen.description ? ` – ${escapeHtml(screen.description)}` : ''}</li>`)
+          .join('\n');
+        return `    <h2>${device}</h2>\n    <ul>\n${items}\n    </ul>`;
+      })
+      .filter(Boolean)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(project.name)}</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <div class="wf-index">
+    <h1>${escapeHtml(project.name)}</h1>
+    <p>${escapeHtml(project.description)}</p>
+${sections}
+  </div>
+</body>
+</html>
+`;
+  }
+
+  private static renderComponent(component: WireframeComponent, context: RenderContext, depth = 2): string {
+    const indent = '  '.repeat(depth);
+    const tag = ALLOWED_TAGS.has(component.tag.toLowerCase()) ? component.tag.toLowerCase() : 'div';
+    const className = `wf-c-${slugify(`${context.pages.get(context.screen)!.replace(/\.html$/, '')}-${component.id}`)}`;
+    if (Object.keys(component.styles).length > 0) {
+      context.rules.push(this.renderRule(className, component.styles));
+    }
+
+    const clickTarget = component.interactions?.find(i => i.trigger === 'click' && i.target)?.target;
+    const page = clickTarget ? this.resolveTarget(clickTarget, context) : undefined;
+
+    const classes = [`wf-${component.type}`, className, page ? 'wf-link' : ''].filter(Boolean).join(' ');
+    const attributes = [`class="${classes}"`, this.renderProps(component.props)];
+    if (page) {
+      attributes.push(tag === 'a'
+        ? `href="${escapeHtml(page)}"`
+        : `role="link" tabindex="0" onclick="location.href='${escapeHtml(page)}'"`);
+    }
+    const open = `<${tag} ${attributes.filter(Boolean).join(' ')}`;
+
+    if (VOID_TAGS.has(tag)) {
+      const placeholder = component.placeholder ? ` placeholder="${escapeHtml(component.placeholder)}"` : '';
+      return `${indent}${open}${placeholder}>`;
+    }
+
+    const inner = component.children.length > 0
+      ? `\n${component.children.map(child => this.renderComponent(child, context, depth + 1)).join('\n')}\n${indent}`
+      : this.renderContent(component);
+    return `${indent}${open}>${inner}</${tag}>`;
+  }
+
+  // Leaf content, matching how the canvas draws each component type
+  private static renderContent(component: WireframeComponent): string {
+    const { type, content, placeholder } = component;
+    switch (type) {
+      case ComponentType.IMAGE:
+        return `<div class="wf-image-placeholder">${escapeHtml(content || 'Image')}</div>`;
+      case ComponentType.INPUT:
+        return `<input class="wf-field" type="text" placeholder="${escapeHtml(placeholder || 'Enter text...')}">`;
+      case ComponentType.TEXTAREA:
+        return `<textarea class="wf-field" rows="3" placeholder="${escapeHtml(placeholder || 'Enter text...')}"></textarea>`;
+      case ComponentType.BUTTON:
+        return `<button class="wf-control-button" type="button">${escapeHtml(content || 'Button')}</button>`;
+      case ComponentType.SUBMIT_BUTTON:
+        return `<button class="wf-control-button primary" type="button">${escapeHtml(content || 'Submit')}</button>`;
+      case ComponentType.LOADING_SPINNER:
+        return '<div class="wf-spinner"></div>';
+      default:
+        return escapeHtml(content || placeholder || '');
+    }
+  }
+
+  // Plain attribute values only; handlers, styles and classes come from the exporter
+  private static renderProps(props?: Record<string, unknown>): string {
+    if (!props) return '';
+    return Object.entries(props)
+      .filter(([name, value]) =>
+        /^[a-z][a-z0-9-]*$/i.test(name) &&
+        !/^on/i.test(name) &&
+        !['class', 'classname', 'style', 'href', 'srcdoc', 'srcset'].includes(name.toLowerCase()) &&
+        ['string', 'number', 'boolean'].includes(typeof value) &&
+        value !== false &&
+        (!URL_PROPS.has(name.toLowerCase()) || (typeof value === 'string' && isSafeUrl(value)))
+      )
+      .map(([name, value]) => value === true ? name : `${name}="${escapeHtml(String(value))}"`)
+      .join(' ');
+  }
+
+  private static renderRule(className: string, styles: ComponentStyles): string {
+    const declarations = Object.entries(styles)
+      .filter(([property, value]) => /^[a-z][a-z-]*$/i.test(property) && value !== undefined && value !== null && value !== '')
+      .map(([property, value]) => {
+        const cssValue = typeof value === 'number' && !UNITLESS_STYLES.has(property) ? `${value}px` : String(value);
+        return `  ${toKebabCase(property)}: ${cleanCssValue(cssValue)};`;
+      });
+    return `.${className} {\n${declarations.join('\n')}\n}`;
+  }
+}
@@ -0,0 +1,495 @@
+import JSZip from 'jszip';
+import { cn } from './utils';
+import {
+  ComponentStyles,
+  ComponentType,
+  GeneratedCodeFile,
+  WireframeComponent,
+  WireframeProject,
+  WireframeScreen
+} from '@/types/app-architecture';
+
+// shadcn primitives the generated code can use, by the module that exports them
+const UI_MODULES: Record<string, string> = {
+  Button: 'button',
+  Input: 'input',
+  Textarea: 'textarea',
+  Label: 'label',
+  Badge: 'badge',
+  Card: 'card',
+  CardHeader: 'card',
+  CardTitle: 'card',
+  CardContent: 'card',
+  Select: 'select',
+  SelectTrigger: 'select',
+  SelectValue: 'select',
+  SelectContent: 'select',
+  SelectItem: 'select',
+};
+
+// Tailwind equivalents of the canvas's default look for each component type
+const TYPE_CLASSES: Partial<Record<ComponentType, string>> = {
+  [ComponentType.CONTAINER]: 'flex flex-col gap-3 rounded-lg border p-4',
+  [ComponentType.HEADER]: 'border-b p-4 font-semibold',
+  [ComponentType.FOOTER]: 'border-t p-4 text-sm text-muted-foreground',
+  [ComponentType.SIDEBAR]: 'flex flex-col gap-2 border-r p-4',
+  [ComponentType.MAIN_CONTENT]: 'flex flex-1 flex-col gap-4 p-4',
+  [ComponentType.SECTION]: 'flex flex-col gap-4',
+  [ComponentType.NAVBAR]: 'flex min-h-15 items-center justify-between border-b px-4 py-3',
+  [ComponentType.BREADCRUMB]: 'flex items-center gap-2 text-sm text-muted-foreground',
+  [ComponentType.TABS]: 'inline-flex w-fit items-center gap-1 rounded-lg bg-muted p-1',
+  [ComponentType.PAGINATION]: 'flex items-center justify-center gap-2',
+  [ComponentType.HEADING]: 'text-2xl font-semibold tracking-tight',
+  [ComponentType.PARAGRAPH]: 'text-sm leading-relaxed text-muted-foreground',
+  [ComponentType.LIST]: 'flex flex-col gap-2',
+  [ComponentType.LIST_ITEM]: 'rounded-md border bg-muted/50 px-3 py-2 text-sm',
+  [ComponentType.IMAGE]: 'flex min-h-24 items-center justify-center rounded-md border-2 border-dashed bg-muted text-xs text-muted-foreground',
+  [ComponentType.VIDEO]: 'flex aspect-video items-center justify-center rounded-md bg-muted text-xs text-muted-foreground',
+  [ComponentType.FORM]: 'flex flex-col gap-4',
+  [ComponentType.TABLE]: 'w-full overflow-hidden rounded-md border text-sm',
+  [ComponentType.AVATAR]: 'flex size-10 shrink-0 items-center justify-center rounded-full bg-muted text-sm font-medium',
+  [ComponentType.PROGRESS_BAR]: 'h-2 w-full overflow-hidden rounded-full bg-muted',
+  [ComponentType.ALERT]: 'rounded-lg border p-4 text-sm',
+  [ComponentType.TOAST]: 'rounded-lg border bg-background p-4 text-sm shadow-lg',
+  [ComponentType.MODAL]: 'rounded-lg border bg-background p-6 shadow-lg',
+  [ComponentType.LOADING_SPINNER]: 'size-6 animate-spin rounded-full border-2 border-muted border-t-primary',
+  [ComponentType.TOOLTIP]: 'w-fit rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground',
+  [ComponentType.ACCORDION]: 'flex flex-col divide-y rounded-md border',
+  [ComponentType.CAROUSEL]: 'flex snap-x gap-4 overflow-x-auto',
+};
+
+const KEYWORD_CLASSES: Record<string, Record<string, string>> = {
+  display: { flex: 'flex', grid: 'grid', block: 'block', inline: 'inline', 'inline-block': 'inline-block', 'inline-flex': 'inline-flex', none: 'hidden' },
+  flexDirection: { row: 'flex-row', column: 'flex-col', 'row-reverse': 'flex-row-reverse', 'column-reverse': 'flex-col-reverse' },
+  flexWrap: { wrap: 'flex-wrap', nowrap: 'flex-nowrap' },
+  justifyContent: { 'flex-start': 'justify-start', start: 'justify-start', center: 'justify-center', 'flex-end': 'justify-end', end: 'justify-end', 'space-between': 'justify-between', 'space-around': 'justify-around', 'space-evenly': 'justify-evenly' },
+  alignItems: { 'flex-start': 'items-start', start: 'items-start', center: 'items-center', 'flex-end': 'items-end', end: 'items-end', stretch: 'items-stretch', baseline: 'items-baseline' },
+  textAlign: { left: 'text-left', center: 'text-center', right: 'text-right', justify: 'text-justify' },
+  fontWeight: { normal: 'font-normal', '400': 'font-normal', '500': 'font-medium', '600': 'font-semibold', bold: 'font-bold', '700': 'font-bold' },
+  position: { static: 'static', relative: 'relative', absolute: 'absolute', fixed: 'fixed', sticky: 'sticky' },
+  overflow: { hidden: 'overflow-hidden', auto: 'overflow-auto', scroll: 'overflow-scroll' },
+  cursor: { pointer: 'cursor-pointer' },
+  listStyle: { none: 'list-none' },
+};
+
+const SPACING_PREFIXES: Record<string, string> = {
+  padding: 'p', paddingTop: 'pt', paddingRight: 'pr', paddingBottom: 'pb', paddingLeft: 'pl',
+  margin: 'm', marginTop: 'mt', marginRight: 'mr', marginBottom: 'mb', marginLeft: 'ml',
+  gap: 'gap', rowGap: 'gap-y', columnGap: 'gap-x',
+  top: 'top', right: 'right', bottom: 'bottom', left: 'left',
+};
+
+const SIZE_PREFIXES: Record<string, string> = {
+  width: 'w', height: 'h', minWidth: 'min-w', minHeight: 'min-h', maxWidth: 'max-w', maxHeight: 'max-h',
+};
+
+const BORDER_PREFIXES: Record<string, string> = {
+  border: 'border', borderTop: 'border-t', borderRight: 'border-r', borderBottom: 'border-b', borderLeft: 'border-l',
+};
+
+const FONT_SIZES: Record<string, string> = {
+  '12px': 'text-xs', '14px': 'text-sm', '16px': 'text-base', '18px': 'text-lg', '20px': 'text-xl',
+  '24px': 'text-2xl', '30px': 'text-3xl', '36px': 'text-4xl', '48px': 'text-5xl',
+};
+
+const RADII: Record<string, string> = {
+  '0': 'rounded-none', '0px': 'rounded-none', '2px': 'rounded-xs', '4px': 'rounded-sm', '6px': 'rounded-md',
+  '8px': 'rounded-lg', '12px': 'rounded-xl', '16px': 'rounded-2xl', '50%': 'rounded-full', '9999px': 'rounded-full',
+};
+
+// Wireframe props each rendered element accepts besides aria-*, data-*, id, role and title,
+// so the generated JSX type-checks against the element's own attributes
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'type'],
+  button: ['type', 'name', 'disabled'],
+  Button: ['type', 'name', 'disabled'],
+  Input: ['type', 'name', 'disabled', 'required'],
+  Textarea: ['name', 'disabled', 'required'],
+  textarea: ['name', 'disabled', 'required'],
+  select: ['name', 'disabled', 'required'],
+  SelectTrigger: ['disabled'],
+  form: ['name'],
+  fieldset: ['name', 'disabled'],
+};
+
+const BOOLEAN_ATTRIBUTES = ['disabled', 'required'];
+const BUTTON_TYPES = ['button', 'submit', 'reset'];
+
+// Arbitrary values can't contain spaces; Tailwind reads underscores as spaces
+const arbitrary = (value: string) => `[${value.trim().replace(/,\s+/g, ',').replace(/\s+/g, '_')}]`;
+
+const toPascalCase = (value: string) =>
+  value.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1)).join('') || 'Screen';
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'screens';
+
+// JSX text children, wrapped in an expression when they contain JSX syntax
+const jsxText = (text: string) => /[{}<>&"'`\\]|^\s|\s$/.test(text) ? `{${JSON.stringify(text)}}` : text;
+
+const jsxAttribute = (name: string, value: string) =>
+  /["\\\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+
+/**
+ * Turns wireframe screens into typed React components built from the shadcn
+ * primitives in `src/components/ui`, with each component's styles converted
+ * to Tailwind classes. Screens that navigate elsewhere take an `onNavigate`
+ * prop called with the target screen's id.
+ */
+export class ReactCodeGenerator {
+  /**
+   * One component file per screen, plus an index that exports them all
+   */
+  static generateProject(project: WireframeProject): GeneratedCodeFile[] {
+    const multiDevice = new Set(project.screens.map(screen => screen.device)).size > 1;
+    const used = new Set<string>();
+    const files = project.screens.map(screen => {
+      let name = `${toPascalCase(screen.name)}${multiDevice ? toPascalCase(screen.device) : ''}`;
+      if (!name.endsWith('Screen')) name += 'Screen';
+      if (/^[0-9]/.test(name)) name = `Screen${name}`;
+      for (let n = 2; used.has(name); n++) name = `${name.replace(/\d+$/, '')}${n}`;
+      used.add(name);
+      return this.generateScreen(screen, project, name);
+    });
+
+    const index = files
+      .map(file => file.path.replace(/^screens\//, '').replace(/\.tsx$/, ''))
+      .map(name => `export { default as ${name} } from './${name}';`)
+      .join('\n');
+    return [...files, { path: 'screens/index.ts', content: `${index}\n` }];
+  }
+
+  /**
+   * The React component for one screen
+   */
+  static generateScreen(screen: WireframeScreen, project: WireframeProject, componentName: string): GeneratedCodeFile {
+    const imports = new Set<string>();
+    const context = { screen, project, imports, navigates: false };
+    const body = screen.components.map(component => this.renderComponent(component, context, 3)).join('\n');
+
+    const layout = screen.layout;
+    const rootClasses = cn(
+      'min-h-screen w-full',
+      layout.type === 'grid' ? 'grid' : layout.type === 'absolute' ? 'relative' : 'flex',
+      layout.type !== 'grid' && layout.type !== 'absolute' && (layout.direction === 'row' ? 'flex-row' : 'flex-col'),
+      this.stylesToClasses({ gap: layout.gap, padding: layout.padding, maxWidth: layout.maxWidth }),
+      layout.maxWidth && 'mx-auto'
+    );
+
+    const uiImports = Object.entries(
+      [...imports].sort().reduce<Record<string, string[]>>((modules, primitive) => {
+        (modules[UI_MODULES[primitive]] ||= []).push(primitive);
+        return modules;
+      }, {})
+    )
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([module, names]) => `import { ${names.join(', ')} } from '@/components/ui/${module}';`);
+
+    const propsName = `${componentName}Props`;
+    const signature = context.navigates
+      ? `interface ${propsName} {\n  /** Called with the id of the screen to go to */\n  onNavigate?: (screenId: string) => void;\n}\n\nexport default function ${componentName}({ onNavigate }: ${propsName}) {`
+      : `export default function ${componentName}() {`;
+
+    const content = [
+      `// ${screen.name} (${screen.device})${screen.description ? ` - ${screen.description.replace(/\s+/g, ' ')}` : ''}`,
+      ...(uiImports.length > 0 ? ['', ...uiImports] : []),
+      '',
+      signature,
+      '  return (',
+      ...(body
+        ? [`    <div className="${rootClasses}">`, body, '    </div>']
+        : [`    <div className="${rootClasses}" />`]),
+      '  );',
+      '}',
+      '',
+    ].join('\n');
+
+    return { path: `screens/${componentName}.tsx`, content, screenId: screen.id };
+  }
+
+  /**
+   * Zip the generated components for download
+   */
+  static async exportZip(project: WireframeProject): Promise<Blob> {
+    const zip = new JSZip();
+    const folder = zip.folder(`${slugify(project.name)}-components`)!;
+    this.generateProject(project).forEach(file => folder.file(file.path, file.content));
+    return zip.generateAsync({ type: 'blob' });
+  }
+
+  /**
+   * Tailwind classes for inline styles; anything without a utility becomes an
+   * arbitrary property so no style is lost
+   */
+  static stylesToClasses(styles: ComponentStyles): string {
+    const classes: string[] = [];
+
+    Object.entries(styles).forEach(([property, raw]) => {
+      if (raw === undefined || raw === null || raw === '') return;
+      const value = String(raw).trim();
+      if (/["'`]/.test(value)) return;
+
+      if (KEYWORD_CLASSES[property]?.[value]) {
+        classes.push(KEYWORD_CLASSES[property][value]);
+      } else if (SPACING_PREFIXES[property]) {
+        classes.push(...this.spacingClasses(property, value));
+      } else if (SIZE_PREFIXES[property]) {
+        classes.push(`${SIZE_PREFIXES[property]}-${this.sizeValue(value, typeof raw === 'number')}`);
+      } else if (BORDER_PREFIXES[property]) {
+        classes.push(...this.borderClasses(BORDER_PREFIXES[property], value));
+      } else if (property === 'backgroundColor' || property === 'background') {
+        classes.push(`bg-${arbitrary(value)}`);
+      } else if (property === 'color') {
+        classes.push(`text-${arbitrary(value)}`);
+      } else if (property === 'fontSize') {
+        classes.push(FONT_SIZES[value] || `text-${arbitrary(value)}`);
+      } else if (property === 'fontWeight') {
+        classes.push(`font-${arbitrary(value)}`);
+      } else if (property === 'borderRadius') {
+        classes.push(RADII[value] || `rounded-${arbitrary(value)}`);
+      } else if (property === 'borderColor') {
+        classes.push(`border-${arbitrary(value)}`);
+      } else if (property === 'lineHeight') {
+        classes.push(`leading-${arbitrary(value)}`);
+      } else if (property === 'boxShadow') {
+        classes.push(value === 'none' ? 'shadow-none' : `shadow-${arbitrary(value)}`);
+      } else if (property === 'zIndex') {
+        classes.push(`z-${arbitrary(value)}`);
+      } else if (property === 'flex' && value === '1') {
+        classes.push('flex-1');
+      } else {
+        const cssProperty = property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+        classes.push(`[${cssProperty}:${arbitrary(value).slice(1, -1)}]`);
+      }
+    });
+
+    return classes.join(' ');
+  }
+
+  private static renderComponent(
+    component: WireframeComponent,
+    context: { screen: WireframeScreen; project: WireframeProject; imports: Set<string>; navigates: boolean },
+    depth: number
+  ): string {
+    const indent = '  '.repeat(depth);
+    const { type, content, placeholder } = component;
+    const styleClasses = this.stylesToClasses(component.styles);
+    const handlers: string[] = [];
+
+    // Click interactions that lead to another screen call onNavigate
+    const target = component.interactions?.find(i => i.trigger === 'click' && i.target)?.target;
+    const targetId = target ? this.resolveTarget(target, context.project) : undefined;
+    if (targetId) {
+      context.navigates = true;
+      handlers.push(`onClick={() => onNavigate?.(${JSON.stringify(targetId)})}`);
+    }
+
+    const addImports = (...primitives: string[]) => primitives.forEach(primitive => context.imports.add(primitive));
+    const open = (tag: string, className: string, extra: string[] = []) => {
+      const written = extra.map(attribute => attribute.split('=')[0]);
+      return `<${[
+        tag,
+        ...extra,
+        ...(className ? [jsxAttribute('className', className)] : []),
+        ...this.renderProps(component.props, tag, written),
+        ...handlers,
+      ].join(' ')}`;
+    };
+    const children = (items: WireframeComponent[]) =>
+      items.map(child => this.renderComponent(child, context, depth + 1)).join('\n');
+
+    switch (type) {
+      case ComponentType.BUTTON:
+      case ComponentType.SUBMIT_BUTTON:
+        addImports('Button');
+        return `${indent}${open('Button', styleClasses, type === ComponentType.SUBMIT_BUTTON ? ['type="submit"'] : ['variant="outline"'])}>${jsxText(content || (type === ComponentType.SUBMIT_BUTTON ? 'Submit' : 'Button'))}</Button>`;
+
+      case ComponentType.INPUT:
+        addImports('Input');
+        return `${indent}${open('Input', styleClasses, [jsxAttribute('placeholder', placeholder || content || 'Enter text...')])} />`;
+
+      case ComponentType.TEXTAREA:
+        addImports('Textarea');
+        return `${indent}${open('Textarea', styleClasses, [jsxAttribute('placeholder', placeholder || content || 'Enter text...')])} />`;
+
+      case ComponentType.CHECKBOX:
+      case ComponentType.RADIO:
+        addImports('Label');
+        return [
+          `${indent}${open('Label', cn('flex items-center gap-2 font-normal', styleClasses))}>`,
+          `${indent}  <input type="${type}" className="size-4 accent-primary" />`,
+          `${indent}  ${jsxText(content || placeholder || 'Option')}`,
+          `${indent}</Label>`,
+        ].join('\n');
+
+      case ComponentType.SELECT:
+      case ComponentType.DROPDOWN: {
+        addImports('Select', 'SelectTrigger', 'SelectValue', 'SelectContent', 'SelectItem');
+        const options = component.children.length > 0
+          ? component.children.map(child => child.content || child.placeholder || 'Option')
+          : ['Option 1', 'Option 2', 'Option 3'];
+        return [
+          `${indent}<Select>`,
+          `${indent}  ${open('SelectTrigger', cn('w-full', styleClasses))}>`,
+          `${indent}    <SelectValue ${jsxAttribute('placeholder', placeholder || content || 'Select an option')} />`,
+          `${indent}  </SelectTrigger>`,
+          `${indent}  <SelectContent>`,
+          ...options.map((option, i) => `${indent}    <SelectItem value="${slugify(option) || `option-${i + 1}`}">${jsxText(option)}</SelectItem>`),
+          `${indent}  </SelectContent>`,
+          `${indent}</Select>`,
+        ].join('\n');
+      }
+
+      case ComponentType.BADGE:
+        addImports('Badge');
+        return `${indent}${open('Badge', styleClasses, ['variant="secondary"'])}>${jsxText(content || 'Badge')}</Badge>`;
+
+      case ComponentType.CARD: {
+        addImports('Card', 'CardContent');
+        const lines = [`${indent}${open('Card', styleClasses)}>`];
+        if (content) {
+          addImports('CardHeader', 'CardTitle');
+          lines.push(`${indent}  <CardHeader>`, `${indent}    <CardTitle>${jsxText(content)}</CardTitle>`, `${indent}  </CardHeader>`);
+        }
+        if (component.children.length > 0) {
+          lines.push(`${indent}  <CardContent className="flex flex-col gap-3">`);
+          lines.push(component.children.map(child => this.renderComponent(child, context, depth + 2)).join('\n'));
+          lines.push(`${indent}  </CardContent>`);
+        }
+        lines.push(`${indent}</Card>`);
+        return lines.join('\n');
+      }
+
+      case ComponentType.TABS: {
+        // Plain buttons, with the first tab shown as selected
+        addImports('Button');
+        const tabs = component.children.length > 0
+          ? component.children.map(child => child.content || child.placeholder || 'Tab')
+          : ['Tab 1', 'Tab 2'];
+        return [
+          `${indent}${open('div', cn(TYPE_CLASSES[type], styleClasses), ['role="tablist"'])}>`,
+          ...tabs.map((tab, i) => `${indent}  <Button role="tab" size="sm" variant="${i === 0 ? 'secondary' : 'ghost'}" aria-selected={${i === 0}}>${jsxText(tab)}</Button>`),
+          `${indent}</div>`,
+        ].join('\n');
+      }
+
+      case ComponentType.AVATAR: {
+        const initials = (content || 'User').split(/\s+/).map(word => word[0]).join('').slice(0, 2).toUpperCase();
+        return `${indent}${open('div', cn(TYPE_CLASSES[type], styleClasses))}>${jsxText(initials)}</div>`;
+      }
+
+      case ComponentType.PROGRESS_BAR:
+        return [
+          `${indent}${open('div', cn(TYPE_CLASSES[type], styleClasses), ['role="progressbar"'])}>`,
+          `${indent}  <div className="h-full w-1/2 bg-primary" />`,
+          `${indent}</div>`,
+        ].join('\n');
+
+      case ComponentType.LOADING_SPINNER:
+        return `${indent}${open('div', cn(TYPE_CLASSES[type], styleClasses), ['role="status"'])} />`;
+
+      case ComponentType.IMAGE:
+      case ComponentType.VIDEO:
+        return `${indent}${open('div', cn(TYPE_CLASSES[type], styleClasses))}>${jsxText(content || (type === ComponentType.IMAGE ? 'Image' : 'Video'))}</div>`;
+
+      default: {
+        const tag = this.getTag(component);
+        const className = cn(TYPE_CLASSES[type], styleClasses);
+        const extra = type === ComponentType.ALERT ? ['role="alert"'] : [];
+        if (component.children.length > 0) {
+          return `${indent}${open(tag, className, extra)}>\n${children(component.children)}\n${indent}</${tag}>`;
+        }
+        const text = content || placeholder;
+        return text
+          ? `${indent}${open(tag, className, extra)}>${jsxText(text)}</${tag}>`
+          : `${indent}${open(tag, className, extra)} />`;
+      }
+    }
+  }
+
+  // The wireframe's own tag when it's a plain lowercase element, otherwise a semantic default
+  private static getTag(component: WireframeComponent): string {
+    if (/^[a-z][a-z0-9]*$/.test(component.tag) && !['input', 'img', 'br', 'hr', 'script', 'style'].includes(component.tag)) {
+      return component.tag;
+    }
+    return component.type === ComponentType.LIST ? 'ul' : component.type === ComponentType.LIST_ITEM ? 'li' : 'div';
+  }
+
+  // Interaction targets name a screen by id or name; navigation uses the architecture screen id
+  private static resolveTarget(target: string, project: WireframeProject): string | undefined {
+    const wanted = target.trim().toLowerCase();
+    const match = project.screens.find(s =>
+      s.id.toLowerCase() === wanted ||
+      s.sourceScreenId?.toLowerCase() === wanted ||
+      s.name.toLowerCase() === wanted
+    );
+    return match ? match.sourceScreenId || match.id : undefined;
+  }
+
+  // Plain attribute values the rendered tag accepts, skipping any the template already
+  // wrote; handlers, styles and classes are generated
+  private static renderProps(props: Record<string, unknown> | undefined, tag: string, written: string[]): string[] {
+    if (!props) return [];
+    const allowed = ELEMENT_ATTRIBUTES[tag] || [];
+    return Object.entries(props)
+      .filter(([name, value]) =>
+        (/^(aria-[a-z]+|data-[a-z-]+|id|role|title)$/.test(name) || allowed.includes(name)) &&
+        !written.includes(name) &&
+        ['string', 'number', 'boolean'].includes(typeof value) &&
+        (!BOOLEAN_ATTRIBUTES.includes(name) || typeof value === 'boolean') &&
+        (name !== 'type' || !/^button$/i.test(tag) || BUTTON_TYPES.includes(String(value)))
+      )
+      .map(([name, value]) => {
+        if (typeof value === 'string') return jsxAttribute(name, value);
+        return /^(aria|data)-/.test(name) || BOOLEAN_ATTRIBUTES.includes(name)
+          ? `${name}={${value}}`
+          : jsxAttribute(name, String(value));
+      });
+  }
+
+  private static spacingClasses(property: string, value: string): string[] {
+    const prefix = SPACING_PREFIXES[property];
+    const parts = value.split(/\s+/);
+
+    // Shorthand with several values becomes per-side utilities
+    if (parts.length > 1 && (property === 'padding' || property === 'margin')) {
+      const p = prefix;
+      const [top, right = top, bottom = top, left = right] = parts;
+      if (top === bottom && left === right) {
+        return [`${p}y-${this.spacingValue(top)}`, `${p}x-${this.spacingValue(right)}`];
+      }
+      return [`${p}t-${this.spacingValue(top)}`, `${p}r-${this.spacingValue(right)}`, `${p}b-${this.spacingValue(bottom)}`, `${p}l-${this.spacingValue(left)}`];
+    }
+    if (parts.length === 2 && property === 'gap') {
+      return [`gap-y-${this.spacingValue(parts[0])}`, `gap-x-${this.spacingValue(parts[1])}`];
+    }
+    return [`${prefix}-${this.spacingValue(value)}`];
+  }
+
+  // Pixel values on Tailwind's 4px spacing scale use it; anything else is arbitrary
+  private static spacingValue(value: string): string {
+    if (value === '0' || value === '0px') return '0';
+    if (value === 'auto') return 'auto';
+    const px = /^(\d+(?:\.\d+)?)px$/.exec(value);
+    if (px && (Number(px[1]) * 2) % 4 === 0) return String(Number(px[1]) / 4);
+    return arbitrary(value);
+  }
+
+  private static sizeValue(value: string, numeric: boolean): string {
+    const keywords: Record<string, string> = { '100%': 'full', auto: 'auto', '100vh': 'screen', '100vw': 'screen', 'fit-content': 'fit' };
+    if (keywords[value]) return keywords[value];
+    return numeric ? arbitrary(`${value}px`) : this.spacingValue(value);
+  }
+
+  private static borderClasses(prefix: string, value: string): string[] {
+    if (value === 'none' || value === '0') return [`${prefix}-0`];
+    const match = /^(\d+(?:\.\d+)?px)?\s*(solid|dashed|dotted|double)?\s*(.*)$/.exec(value);
+    if (!match) return [`${prefix}-${arbitrary(value)}`];
+
+    const [, width, style, color] = match;
+    const classes = [width === undefined || width === '1px' ? prefix : `${prefix}-${width === '2px' ? '2' : arbitrary(width)}`];
+    if (style && style !== 'solid') classes.push(`border-${style}`);
+    if (color) classes.push(`border-${arbitrary(color)}`);
+    return classes;
+  }
+}
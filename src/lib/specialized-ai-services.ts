@@ -1,110 +1,180 @@
-import { createAIService, AIService } from './ai-providers';
-
-export interface SpecializedAIConfig {
-  flowDiagrams: {
-    provider: string;
-    model: string;
-    temperature: number;
-    maxTokens: number;
-  };
-  wireframes: {
-    provider: string;
-    model: string;  
-    temperature: number;
-    maxTokens: number;
-  };
-  thinking: {
-    provider: string;
-    model: string;
-    temperature: number;
-    maxTokens: number;
-  };
+import { AI_PROVIDERS, AIGenerationResult, AIProvider, GenerateTextOptions, ResponseFormat } from './ai-providers';
+import { ProviderChain } from './ai-provider-chain';
+import { StructuredOutput, StructuredOutputError } from './structured-output';
+import { UsageMeter } from './ai-usage';
+import { AIRoutingFile } from '@/lib/ai-routing-file';
+import { GenerationSource } from '@/types/app-architecture';
+
+export type AITask = 'architecture' | 'wireframes' | 'thinking' | 'questions';
+
+export interface TaskRoute {
+  provider?: AIProvider;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  system?: string;
+  stop?: string[];
+  /** Use the shorter prompt variants, for small local models with limited context */
+  compactPrompts?: boolean;
 }
 
-const SPECIALIZED_CONFIG: SpecializedAIConfig = {
-  flowDiagrams: {
-    provider: 'anthropic',
-    model: 'claude-3-5-sonnet-20241022', // Most capable for complex reasoning
+// Recorded when a result comes from the built-in templates instead of a model
+export const FALLBACK_SOURCE: GenerationSource = { provider: 'fallback', model: 'templates' };
+
+const AI_TASKS: AITask[] = ['architecture', 'wireframes', 'thinking', 'questions'];
+
+// Provider and model fall back to AI_PROVIDER and its *_MODEL unless a route overrides them
+const DEFAULT_ROUTES: Record<AITask, TaskRoute> = {
+  architecture: {
     temperature: 0.3, // More focused/consistent
     maxTokens: 4000,
   },
   wireframes: {
-    provider: 'anthropic', 
-    model: 'claude-3-5-sonnet-20241022', // Best for structured output
-    temperature: 0.4,
+    temperature: 0.4, // Structured output
     maxTokens: 3000,
   },
   thinking: {
-    provider: 'anthropic',
-    model: 'claude-3-haiku-20240307', // Fast for thinking simulation
     temperature: 0.7, // More creative for varied thoughts
     maxTokens: 1000,
-  }
+  },
+  questions: {
+    temperature: 0.5,
+    maxTokens: 1500,
+  },
 };
 
+/**
+ * Routes each AI task to its own provider, model and generation settings.
+ *
+ * Routes are layered: built-in defaults, then the routing table (the
+ * `AI_ROUTING` JSON, or else `ai-routing.json` or `AI_ROUTING_FILE` read at
+ * runtime on the server), then `AI_ROUTE_<TASK>=provider[:model]`
+ * environment variables.
+ */
 export class SpecializedAIService {
-  private services: Map<string, AIService> = new Map();
+  static getRoute(task: AITask): TaskRoute {
+    return {
+      ...DEFAULT_ROUTES[task],
+      ...this.readRoutingTable()[task],
+      ...this.readEnvRoute(task),
+    };
+  }
 
-  constructor() {
-    this.initializeServices();
+  /**
+   * Whether prompts for a task should be the compact variants. Defaults to on
+   * when the task is served by a local model; `AI_COMPACT_PROMPTS` or the
+   * route's `compactPrompts` override it.
+   */
+  static usesCompactPrompts(task: AITask): boolean {
+    const route = this.getRoute(task);
+    if (route.compactPrompts !== undefined) return route.compactPrompts;
+    if (process.env.AI_COMPACT_PROMPTS) return process.env.AI_COMPACT_PROMPTS === 'true';
+    return (route.provider || process.env.AI_PROVIDER) === 'local';
   }
 
-  private initializeServices() {
-    for (const [tool, config] of Object.entries(SPECIALIZED_CONFIG)) {
-      const service = new AIService({
-        provider: config.provider as any,
-        apiKey: this.getApiKey(config.provider),
-        model: config.model,
-      });
-      this.services.set(tool, service);
-    }
+  /**
+   * Generate text for a task, falling back along the provider chain. Options
+   * passed by the caller win over the route.
+   */
+  static async generate(task: AITask, prompt: string, options: GenerateTextOptions = {}): Promise<AIGenerationResult> {
+    const { provider, model, temperature, maxTokens, system, stop } = this.getRoute(task);
+    return await ProviderChain.generate(
+      ProviderChain.resolve(provider, model),
+      prompt,
+      { temperature, maxTokens, system, stop, ...options }
+    );
   }
 
-  private getApiKey(provider: string): string {
-    switch (provider) {
-      case 'openai':
-        return process.env.OPENAI_API_KEY || '';
-      case 'anthropic':
-        return process.env.ANTHROPIC_API_KEY || '';
-      case 'google':
-        return process.env.GOOGLE_API_KEY || '';
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
+  /**
+   * Generate JSON matching `format` using the provider's structured output
+   * mode. A response that fails to parse or validate is sent back to the
+   * model once, with the validation errors, before giving up.
+   */
+  static async generateStructured<T>(
+    task: AITask,
+    prompt: string,
+    format: ResponseFormat,
+    options: GenerateTextOptions = {}
+  ): Promise<AIGenerationResult & { data: T }> {
+    const result = await this.generate(task, prompt, { ...options, responseFormat: format });
+    const parsed = StructuredOutput.parse<T>(result.text, format);
+    if (parsed.ok) return { ...result, data: parsed.value };
+
+    console.warn(`Invalid ${format.name} response, asking the model to repair it:`, parsed.errors);
+    const repairPrompt = StructuredOutput.buildRepairPrompt(prompt, result.text, parsed.errors);
+    let repaired: AIGenerationResult;
+    try {
+      repaired = await this.generate(task, repairPrompt, { ...options, onToken: undefined, responseFormat: format });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new StructuredOutputError(format.name, [...parsed.errors, `repair failed: ${reason}`], result.usage);
     }
+    const usage = UsageMeter.add(result.usage, repaired.usage);
+    const reparsed = StructuredOutput.parse<T>(repaired.text, format);
+    if (reparsed.ok) return { ...repaired, usage, data: reparsed.value };
+
+    throw new StructuredOutputError(format.name, reparsed.errors, usage);
   }
 
-  async generateFlowDiagram(prompt: string): Promise<string> {
-    const service = this.services.get('flowDiagrams')!;
-    const config = SPECIALIZED_CONFIG.flowDiagrams;
-    
-    return await this.generateWithConfig(service, prompt, config);
+  /**
+   * The source to record for a template result that replaced a failed call.
+   * Tokens spent on responses that never validated are still counted.
+   */
+  static fallbackSource(error: unknown): GenerationSource {
+    return error instanceof StructuredOutputError && error.usage
+      ? { ...FALLBACK_SOURCE, usage: error.usage }
+      : FALLBACK_SOURCE;
   }
 
-  async generateWireframes(prompt: string): Promise<string> {
-    const service = this.services.get('wireframes')!;
-    const config = SPECIALIZED_CONFIG.wireframes;
-    
-    return await this.generateWithConfig(service, prompt, config);
+  private static readRoutingTable(): Partial<Record<AITask, TaskRoute>> {
+    try {
+      const raw = process.env.AI_ROUTING || AIRoutingFile.read();
+      if (!raw) return {};
+
+      const parsed: unknown = JSON.parse(raw);
+      const table = typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+      const routes: Partial<Record<AITask, TaskRoute>> = {};
+      AI_TASKS.forEach(task => {
+        const route = this.normalizeRoute(table[task]);
+        if (route) routes[task] = route;
+      });
+      return routes;
+    } catch (error) {
+      console.warn('Ignoring invalid AI_ROUTING configuration:', error);
+      return {};
+    }
   }
 
-  async generateThinking(prompt: string): Promise<string> {
-    const service = this.services.get('thinking')!;
-    const config = SPECIALIZED_CONFIG.thinking;
-    
-    return await this.generateWithConfig(service, prompt, config);
+  private static readEnvRoute(task: AITask): TaskRoute {
+    const value = process.env[`AI_ROUTE_${task.toUpperCase()}`];
+    if (!value) return {};
+
+    const [provider, ...modelParts] = value.split(':');
+    const route: TaskRoute = {};
+    if (AI_PROVIDERS.includes(provider as AIProvider)) {
+      route.provider = provider as AIProvider;
+    } else {
+      console.warn(`Ignoring unknown provider "${provider}" in AI_ROUTE_${task.toUpperCase()}`);
+    }
+    if (modelParts.length > 0 && modelParts.join(':')) {
+      route.model = modelParts.join(':');
+    }
+    return route;
   }
 
-  private async generateWithConfig(
-    service: AIService, 
-    prompt: string, 
-    config: { temperature: number; maxTokens: number }
-  ): Promise<string> {
-    // Override the service's generateText method with specialized config
-    return await (service as any).generateText(prompt, {
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-    });
+  private static normalizeRoute(value: unknown): TaskRoute | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const raw = value as Record<string, unknown>;
+    const route: TaskRoute = {};
+
+    if (AI_PROVIDERS.includes(raw.provider as AIProvider)) route.provider = raw.provider as AIProvider;
+    if (typeof raw.model === 'string' && raw.model) route.model = raw.model;
+    if (typeof raw.temperature === 'number') route.temperature = raw.temperature;
+    if (typeof raw.maxTokens === 'number') route.maxTokens = raw.maxTokens;
+    if (typeof raw.system === 'string') route.system = raw.system;
+    if (Array.isArray(raw.stop)) route.stop = raw.stop.filter((stop): stop is string => typeof stop === 'string');
+    if (typeof raw.compactPrompts === 'boolean') route.compactPrompts = raw.compactPrompts;
+
+    return route;
   }
 }
-
-export const specializedAI = new SpecializedAIService();
\ No newline at end of file
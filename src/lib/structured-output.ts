@@ -0,0 +1,334 @@
+import { JsonSchema, ResponseFormat } from './ai-providers';
+import {
+  AIUsage,
+  ComplexityLevel,
+  ComponentType,
+  DataFieldType,
+  RelationCardinality,
+  ScreenType,
+  TransitionTrigger
+} from '@/types/app-architecture';
+
+export type StructuredParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// Nested wireframe components are spelled out to this depth, since Gemini schemas can't refer to themselves
+const MAX_COMPONENT_DEPTH = 4;
+const MAX_REPORTED_ERRORS = 20;
+const MAX_ECHOED_RESPONSE = 4000;
+
+const STRING: JsonSchema = { type: 'string' };
+const STRING_ARRAY: JsonSchema = { type: 'array', items: STRING };
+
+const STYLE_PROPERTIES = [
+  'display', 'flexDirection', 'justifyContent', 'alignItems', 'gap', 'padding', 'margin',
+  'width', 'height', 'minHeight', 'backgroundColor', 'border', 'borderRadius',
+  'fontSize', 'fontWeight', 'color', 'textAlign', 'position', 'top', 'left', 'right', 'bottom'
+];
+
+function componentSchema(depth: number): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      id: STRING,
+      type: { type: 'string', enum: Object.values(ComponentType) },
+      tag: { type: 'string', description: 'HTML tag such as div, header, h1, button or input' },
+      content: { type: 'string', nullable: true, description: 'Realistic text content' },
+      placeholder: { type: 'string', nullable: true },
+      styles: {
+        type: 'object',
+        properties: {
+          ...Object.fromEntries(STYLE_PROPERTIES.map(property => [property, STRING])),
+          zIndex: { type: 'integer' }
+        }
+      },
+      ...(depth > 1 && { children: { type: 'array', items: componentSchema(depth - 1) } })
+    },
+    required: ['id', 'type', 'tag', 'styles', ...(depth > 1 ? ['children'] : [])]
+  };
+}
+
+/**
+ * The architecture document requested by `AIFlowGenerator`. Transitions refer
+ * to screens by name; ids are assigned during normalization.
+ */
+export const ARCHITECTURE_FORMAT: ResponseFormat = {
+  name: 'app_architecture',
+  description: 'Screens and transitions of an app user flow',
+  schema: {
+    type: 'object',
+    properties: {
+      appName: STRING,
+      description: STRING,
+      complexity: { type: 'string', enum: Object.values(ComplexityLevel) },
+      tags: STRING_ARRAY,
+      screens: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: STRING,
+            type: { type: 'string', enum: Object.values(ScreenType) },
+            description: STRING,
+            components: STRING_ARRAY,
+            requiresAuth: { type: 'boolean' },
+            userIntent: STRING
+          },
+          required: ['name', 'type', 'description', 'components', 'requiresAuth']
+        }
+      },
+      transitions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', description: 'Exact name of the source screen' },
+            to: { type: 'string', description: 'Exact name of the target screen' },
+            trigger: { type: 'string', enum: Object.values(TransitionTrigger) },
+            description: STRING
+          },
+          required: ['from', 'to', 'trigger', 'description']
+        }
+      }
+    },
+    required: ['appName', 'description', 'complexity', 'tags', 'screens', 'transitions']
+  }
+};
+
+/**
+ * The data model requested by `DataModelGenerator`. Relations refer to
+ * entities by name; ids are assigned during normalization.
+ */
+export const DATA_MODEL_FORMAT: ResponseFormat = {
+  name: 'data_model',
+  description: 'Entities, fields and relations an app stores',
+  schema: {
+    type: 'object',
+    properties: {
+      entities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: STRING,
+            description: STRING,
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: STRING,
+                  type: { type: 'string', enum: Object.values(DataFieldType) },
+                  required: { type: 'boolean' },
+                  primaryKey: { type: 'boolean' },
+                  unique: { type: 'boolean' }
+                },
+                required: ['name', 'type', 'required']
+              }
+            }
+          },
+          required: ['name', 'description', 'fields']
+        }
+      },
+      relations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', description: 'Exact name of the entity on the "one" side' },
+            to: { type: 'string', description: 'Exact name of the other entity' },
+            cardinality: { type: 'string', enum: Object.values(RelationCardinality) },
+            foreignKey: { type: 'string', nullable: true, description: 'Field on the "to" entity holding the "from" id' }
+          },
+          required: ['from', 'to', 'cardinality']
+        }
+      }
+    },
+    required: ['entities', 'relations']
+  }
+};
+
+export const WIREFRAME_FORMAT: ResponseFormat = {
+  name: 'wireframe_screen',
+  description: 'Layout and component tree of one wireframe screen',
+  schema: {
+    type: 'object',
+    properties: {
+      layout: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['stack', 'grid', 'flex', 'absolute'] },
+          direction: { type: 'string', enum: ['row', 'column'] },
+          gap: STRING,
+          padding: STRING,
+          maxWidth: STRING
+        },
+        required: ['type']
+      },
+      components: { type: 'array', items: componentSchema(MAX_COMPONENT_DEPTH) }
+    },
+    required: ['layout', 'components']
+  }
+};
+
+export const QUESTIONS_FORMAT: ResponseFormat = {
+  name: 'clarifying_questions',
+  description: 'Questions that clarify an app idea before its flow is designed',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: STRING,
+            category: { type: 'string', enum: ['user_context', 'functionality', 'technical', 'business', 'ux'] },
+            question: STRING,
+            options: STRING_ARRAY,
+            why: STRING,
+            required: { type: 'boolean' }
+          },
+          required: ['id', 'category', 'question', 'options', 'why', 'required']
+        }
+      },
+      reasoning: STRING
+    },
+    required: ['questions']
+  }
+};
+
+export const THINKING_FORMAT: ResponseFormat = {
+  name: 'thinking_process',
+  description: 'Thoughts and steps while planning an app',
+  schema: {
+    type: 'object',
+    properties: {
+      thoughts: STRING_ARRAY,
+      steps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: STRING,
+            title: STRING,
+            description: STRING,
+            thought: STRING
+          },
+          required: ['id', 'title', 'description', 'thought']
+        }
+      }
+    },
+    required: ['thoughts', 'steps']
+  }
+};
+
+/**
+ * A response that still failed validation after the repair round-trip.
+ * `usage` covers every call made for it, so the tokens still count.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly formatName: string,
+    public readonly errors: string[],
+    public readonly usage?: AIUsage
+  ) {
+    super(`AI returned an invalid ${formatName} response: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Parses and validates model output against a `ResponseFormat`, and builds
+ * the follow-up prompt that asks the model to fix an invalid response.
+ */
+export class StructuredOutput {
+  static parse<T>(text: string, format: ResponseFormat): StructuredParseResult<T> {
+    let value: unknown;
+    try {
+      value = this.extractJson(text);
+    } catch (error) {
+      return { ok: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+
+    const errors = this.validate(value, format.schema);
+    return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+  }
+
+  /**
+   * Read the JSON document out of a response, tolerating markdown fences and
+   * text around it
+   */
+  static extractJson(text: string): unknown {
+    const unfenced = text.replace(/```(?:json)?\s*/g, '').trim();
+    try {
+      return JSON.parse(unfenced);
+    } catch (error) {
+      const start = unfenced.indexOf('{');
+      const end = unfenced.lastIndexOf('}');
+      if (start === -1 || end <= start) throw error;
+      return JSON.parse(unfenced.slice(start, end + 1));
+    }
+  }
+
+  /**
+   * Check a value against a schema, returning one message per problem with
+   * the JSON path it was found at. Extra properties are allowed, and optional
+   * properties may be null. Enums only guide the model: the normalizers that
+   * read the result map other spellings (`Moderate`, `login`) onto them, so a
+   * value outside the enum is not worth a repair call.
+   */
+  static validate(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    if (value === null) {
+      return schema.nullable ? [] : [`${path}: expected ${schema.type}, got null`];
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected object`];
+        const record = value as Record<string, unknown>;
+        const errors = (schema.required || [])
+          .filter(key => record[key] === undefined)
+          .map(key => `${path}.${key}: required property is missing`);
+
+        Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+          const property = record[key];
+          if (property === undefined || (property === null && !schema.required?.includes(key))) return;
+          errors.push(...this.validate(property, propertySchema, `${path}.${key}`));
+        });
+        return errors;
+      }
+      case 'array':
+        if (!Array.isArray(value)) return [`${path}: expected array`];
+        return schema.items
+          ? value.flatMap((item, index) => this.validate(item, schema.items as JsonSchema, `${path}[${index}]`))
+          : [];
+      case 'string':
+        return typeof value === 'string' ? [] : [`${path}: expected string`];
+      case 'integer':
+        return Number.isInteger(value) ? [] : [`${path}: expected integer`];
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected number`];
+      case 'boolean':
+        return typeof value === 'boolean' ? [] : [`${path}: expected boolean`];
+    }
+  }
+
+  static buildRepairPrompt(prompt: string, response: string, errors: string[]): string {
+    const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+    const more = errors.length - reported.length;
+
+    return `${prompt}
+
+Your previous response did not match the required JSON format.
+
+Problems:
+${reported.map(error => `- ${error}`).join('\n')}${more > 0 ? `\n- ...and ${more} more` : ''}
+
+Previous response:
+${response.slice(0, MAX_ECHOED_RESPONSE)}
+
+Return the corrected JSON only, with no other text.`;
+  }
+}
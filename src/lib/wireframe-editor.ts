@@ -0,0 +1,435 @@
+import {
+  ComponentInteraction,
+  ComponentStyles,
+  ComponentType,
+  WireframeComponent,
+  WireframeComponentChanges,
+  WireframeEdit,
+  WireframeEditOperation,
+  WireframeScreen
+} from '@/types/app-architecture';
+import { SpecializedAIService, FALLBACK_SOURCE } from './specialized-ai-services';
+import { PromptRegistry, RenderedPrompt } from './prompt-registry';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Semantic tags for new components; anything else is a div
+const COMPONENT_TAGS: Partial<Record<ComponentType, string>> = {
+  [ComponentType.HEADER]: 'header',
+  [ComponentType.FOOTER]: 'footer',
+  [ComponentType.SIDEBAR]: 'aside',
+  [ComponentType.MAIN_CONTENT]: 'main',
+  [ComponentType.SECTION]: 'section',
+  [ComponentType.NAVBAR]: 'nav',
+  [ComponentType.HEADING]: 'h2',
+  [ComponentType.PARAGRAPH]: 'p',
+  [ComponentType.LIST]: 'ul',
+  [ComponentType.LIST_ITEM]: 'li',
+  [ComponentType.FORM]: 'form',
+};
+
+export class WireframeEditor {
+  /**
+   * Turn a natural-language instruction into targeted operations on the
+   * screen's component tree, addressed by component id
+   */
+  static async generateEdit(screen: WireframeScreen, instruction: string): Promise<WireframeEdit> {
+    try {
+      const prompt = await this.buildEditPrompt(screen, instruction);
+      const { text: response, provider, model, usage } = await SpecializedAIService.generate('wireframes', prompt.text);
+
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON found in response');
+      }
+      return { ...this.normalizeEdit(JSON.parse(jsonMatch[0]), screen), generatedBy: { provider, model, prompt: prompt.ref, usage } };
+    } catch (error) {
+      console.warn('AI wireframe edit failed, falling back to keyword analysis:', error);
+      return { ...this.generateFallbackEdit(screen, instruction), generatedBy: FALLBACK_SOURCE };
+    }
+  }
+
+  /**
+   * Apply an edit and return the updated screen
+   */
+  static applyEdit(screen: WireframeScreen, edit: WireframeEdit): WireframeScreen {
+    return edit.operations.reduce((current, operation) => this.applyOperation(current, operation), screen);
+  }
+
+  static findComponent(components: WireframeComponent[], componentId: string): WireframeComponent | null {
+    for (const component of components) {
+      if (component.id === componentId) return component;
+      const match = this.findComponent(component.children, componentId);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  /**
+   * A new component of `type` with placeholder content, for adding by hand.
+   * Form controls render their own element, so they sit in a plain div.
+   */
+  static createComponent(type: ComponentType): WireframeComponent {
+    const label = type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ');
+    const textTypes = [ComponentType.HEADING, ComponentType.PARAGRAPH, ComponentType.LIST_ITEM, ComponentType.BUTTON,
+      ComponentType.SUBMIT_BUTTON, ComponentType.BADGE, ComponentType.ALERT, ComponentType.IMAGE];
+    const fieldTypes = [ComponentType.INPUT, ComponentType.TEXTAREA, ComponentType.SELECT];
+
+    return {
+      id: `comp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      tag: COMPONENT_TAGS[type] || 'div',
+      content: textTypes.includes(type) ? label : undefined,
+      placeholder: fieldTypes.includes(type) ? `${label}...` : undefined,
+      styles: {},
+      children: [],
+    };
+  }
+
+  /**
+   * The operation that moves a component before, after or inside another, or
+   * null when the target is the component itself or one of its descendants
+   */
+  static planMove(
+    components: WireframeComponent[],
+    componentId: string,
+    targetId: string,
+    placement: 'before' | 'after' | 'inside'
+  ): WireframeEditOperation | null {
+    // Indexes are taken once the component is out of the tree, as applying the move does
+    const remaining = this.removeComponent(components, componentId);
+    if (placement === 'inside') {
+      const target = this.findComponent(remaining, targetId);
+      return target ? { op: 'move_component', componentId, parentId: targetId, index: target.children.length } : null;
+    }
+    const location = this.locateComponent(remaining, targetId);
+    return location
+      ? { op: 'move_component', componentId, parentId: location.parentId, index: location.index + (placement === 'after' ? 1 : 0) }
+      : null;
+  }
+
+  /**
+   * Convert a model-authored component into a `WireframeComponent`
+   */
+  static normalizeComponent(raw: unknown): WireframeComponent {
+    const comp = isRecord(raw) ? raw : {};
+    const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+    return {
+      id: text(comp.id) || `comp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: this.normalizeComponentType(String(comp.type ?? '')),
+      tag: text(comp.tag) || 'div',
+      content: text(comp.content),
+      placeholder: text(comp.placeholder),
+      styles: isRecord(comp.styles) ? comp.styles as ComponentStyles : {},
+      children: Array.isArray(comp.children) ? comp.children.map(child => this.normalizeComponent(child)) : [],
+      props: isRecord(comp.props) ? comp.props : undefined,
+      interactions: Array.isArray(comp.interactions) ? comp.interactions as ComponentInteraction[] : undefined,
+    };
+  }
+
+  static normalizeComponentType(type: string): ComponentType {
+    const typeMap: Record<string, ComponentType> = {
+      'container': ComponentType.CONTAINER,
+      'header': ComponentType.HEADER,
+      'footer': ComponentType.FOOTER,
+      'navbar': ComponentType.NAVBAR,
+      'heading': ComponentType.HEADING,
+      'paragraph': ComponentType.PARAGRAPH,
+      'button': ComponentType.BUTTON,
+      'submit_button': ComponentType.SUBMIT_BUTTON,
+      'input': ComponentType.INPUT,
+      'textarea': ComponentType.TEXTAREA,
+      'form': ComponentType.FORM,
+      'card': ComponentType.CARD,
+      'list': ComponentType.LIST,
+      'list_item': ComponentType.LIST_ITEM,
+      'image': ComponentType.IMAGE,
+      'badge': ComponentType.BADGE,
+      'avatar': ComponentType.AVATAR,
+      'tabs': ComponentType.TABS,
+      'modal': ComponentType.MODAL,
+      'loading_spinner': ComponentType.LOADING_SPINNER,
+    };
+
+    return typeMap[type] || ComponentType.CONTAINER;
+  }
+
+  private static applyOperation(screen: WireframeScreen, operation: WireframeEditOperation): WireframeScreen {
+    switch (operation.op) {
+      case 'update_component':
+        return {
+          ...screen,
+          components: this.mapTree(screen.components, component =>
+            component.id === operation.componentId ? this.mergeChanges(component, operation.changes) : component
+          )
+        };
+      case 'add_component':
+        return {
+          ...screen,
+          components: this.insertComponent(screen.components, operation.parentId, operation.index, operation.component)
+        };
+      case 'remove_component':
+        return { ...screen, components: this.removeComponent(screen.components, operation.componentId) };
+      case 'move_component': {
+        const component = this.findComponent(screen.components, operation.componentId);
+        // A component can't be moved into itself or one of its descendants
+        if (!component || (operation.parentId && (
+          operation.parentId === component.id || this.findComponent(component.children, operation.parentId)
+        ))) {
+          return screen;
+        }
+        const remaining = this.removeComponent(screen.components, operation.componentId);
+        return { ...screen, components: this.insertComponent(remaining, operation.parentId, operation.index, component) };
+      }
+    }
+  }
+
+  private static mergeChanges(component: WireframeComponent, changes: WireframeComponentChanges): WireframeComponent {
+    const { styles, ...rest } = changes;
+    const mergedStyles: ComponentStyles = { ...component.styles };
+    Object.entries(styles || {}).forEach(([property, value]) => {
+      if (value === '' || value === null || value === undefined) {
+        delete mergedStyles[property];
+      } else {
+        mergedStyles[property] = value;
+      }
+    });
+    return { ...component, ...rest, styles: mergedStyles };
+  }
+
+  private static mapTree(
+    components: WireframeComponent[],
+    transform: (component: WireframeComponent) => WireframeComponent
+  ): WireframeComponent[] {
+    return components.map(component => {
+      const updated = transform(component);
+      return { ...updated, children: this.mapTree(updated.children, transform) };
+    });
+  }
+
+  private static removeComponent(components: WireframeComponent[], componentId: string): WireframeComponent[] {
+    return components
+      .filter(component => component.id !== componentId)
+      .map(component => ({ ...component, children: this.removeComponent(component.children, componentId) }));
+  }
+
+  private static insertComponent(
+    components: WireframeComponent[],
+    parentId: string | null,
+    index: number,
+    newComponent: WireframeComponent
+  ): WireframeComponent[] {
+    const insertAt = (siblings: WireframeComponent[]) => {
+      const position = Math.max(0, Math.min(index, siblings.length));
+      return [...siblings.slice(0, position), newComponent, ...siblings.slice(position)];
+    };
+
+    if (!parentId) {
+      return insertAt(components);
+    }
+    return this.mapTree(components, component =>
+      component.id === parentId ? { ...component, children: insertAt(component.children) } : component
+    );
+  }
+
+  /**
+   * Locate a component's parent id and index within its siblings
+   */
+  private static locateComponent(
+    components: WireframeComponent[],
+    componentId: string,
+    parentId: string | null = null
+  ): { parentId: string | null; index: number } | null {
+    for (let index = 0; index < components.length; index++) {
+      if (components[index].id === componentId) return { parentId, index };
+      const nested = this.locateComponent(components[index].children, componentId, components[index].id);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  private static siblingsOf(components: WireframeComponent[], parentId: string | null): WireframeComponent[] {
+    return parentId ? this.findComponent(components, parentId)?.children || [] : components;
+  }
+
+  private static collectIds(components: WireframeComponent[], ids: Set<string> = new Set()): Set<string> {
+    components.forEach(component => {
+      ids.add(component.id);
+      this.collectIds(component.children, ids);
+    });
+    return ids;
+  }
+
+  private static buildEditPrompt(screen: WireframeScreen, instruction: string): Promise<RenderedPrompt> {
+    const compactTree = (components: WireframeComponent[]): unknown[] =>
+      components.map(component => ({
+        id: component.id,
+        type: component.type,
+        tag: component.tag,
+        ...(component.content ? { content: component.content } : {}),
+        ...(component.placeholder ? { placeholder: component.placeholder } : {}),
+        styles: component.styles,
+        ...(component.children.length > 0 ? { children: compactTree(component.children) } : {})
+      }));
+
+    return PromptRegistry.render('wireframe-edit', {
+      device: screen.device,
+      screenName: screen.name,
+      screenType: screen.type,
+      componentTree: JSON.stringify(compactTree(screen.components), null, 2),
+      instruction,
+    });
+  }
+
+  /**
+   * Validate raw model operations against the tree, resolving sibling
+   * references to concrete indices as each operation is applied in turn
+   */
+  private static normalizeEdit(
+    parsed: { summary?: unknown; operations?: unknown },
+    screen: WireframeScreen
+  ): WireframeEdit {
+    let working = screen;
+    const usedIds = this.collectIds(screen.components);
+    const operations: WireframeEditOperation[] = [];
+
+    const uniqueIds = (component: WireframeComponent): WireframeComponent => {
+      let id = component.id;
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${component.id}-${suffix}`;
+      }
+      usedIds.add(id);
+      return { ...component, id, children: component.children.map(uniqueIds) };
+    };
+
+    const resolvePlacement = (
+      components: WireframeComponent[],
+      raw: { parentId?: unknown; afterId?: unknown; beforeId?: unknown; index?: unknown }
+    ) => {
+      for (const [siblingId, offset] of [[raw.afterId, 1], [raw.beforeId, 0]] as const) {
+        if (typeof siblingId !== 'string') continue;
+        const location = this.locateComponent(components, siblingId);
+        if (location) return { parentId: location.parentId, index: location.index + offset };
+      }
+      const parentId = typeof raw.parentId === 'string' && this.findComponent(components, raw.parentId)
+        ? raw.parentId
+        : null;
+      const siblings = this.siblingsOf(components, parentId);
+      return { parentId, index: typeof raw.index === 'number' ? raw.index : siblings.length };
+    };
+
+    for (const raw of Array.isArray(parsed.operations) ? parsed.operations : []) {
+      let operation: WireframeEditOperation | null = null;
+
+      switch (raw?.op) {
+        case 'update_component': {
+          if (!this.findComponent(working.components, raw.componentId) || !raw.changes) break;
+          const changes: WireframeComponentChanges = {};
+          if (typeof raw.changes.content === 'string') changes.content = raw.changes.content;
+          if (typeof raw.changes.placeholder === 'string') changes.placeholder = raw.changes.placeholder;
+          if (typeof raw.changes.tag === 'string') changes.tag = raw.changes.tag;
+          if (raw.changes.type) changes.type = this.normalizeComponentType(raw.changes.type);
+          if (raw.changes.styles && typeof raw.changes.styles === 'object') changes.styles = raw.changes.styles;
+          if (raw.changes.props && typeof raw.changes.props === 'object') changes.props = raw.changes.props;
+          if (Object.keys(changes).length > 0) {
+            operation = { op: 'update_component', componentId: raw.componentId, changes };
+          }
+          break;
+        }
+        case 'add_component': {
+          if (!raw.component || typeof raw.component !== 'object') break;
+          const component = uniqueIds(this.normalizeComponent({
+            ...raw.component,
+            id: raw.component.id || `${raw.component.type || 'component'}-${Date.now().toString(36)}`
+          }));
+          operation = { op: 'add_component', ...resolvePlacement(working.components, raw), component };
+          break;
+        }
+        case 'remove_component':
+          if (this.findComponent(working.components, raw.componentId)) {
+            operation = { op: 'remove_component', componentId: raw.componentId };
+          }
+          break;
+        case 'move_component': {
+          if (!this.findComponent(working.components, raw.componentId)) break;
+          // Resolve the target with the component taken out, so indices refer to its new siblings
+          const remaining = this.removeComponent(working.components, raw.componentId);
+          operation = { op: 'move_component', componentId: raw.componentId, ...resolvePlacement(remaining, raw) };
+          break;
+        }
+        default:
+          console.warn('Skipping unknown wireframe operation:', raw?.op);
+      }
+
+      if (operation) {
+        operations.push(operation);
+        working = this.applyOperation(working, operation);
+      }
+    }
+
+    return {
+      screenId: screen.id,
+      summary: typeof parsed.summary === 'string' && parsed.summary ? parsed.summary : `Updated ${screen.name}`,
+      operations
+    };
+  }
+
+  /**
+   * Keyword-based fallback for simple removal and sizing requests
+   */
+  private static generateFallbackEdit(screen: WireframeScreen, instruction: string): WireframeEdit {
+    const lowerInstruction = instruction.toLowerCase();
+    const target = this.findMentionedComponent(screen.components, lowerInstruction);
+    const edit = (summary: string, operations: WireframeEditOperation[]): WireframeEdit => ({
+      screenId: screen.id,
+      summary,
+      operations
+    });
+
+    if (target) {
+      const label = target.content || target.placeholder || target.type;
+      if (/\b(remove|delete|hide)\b/.test(lowerInstruction)) {
+        return edit(`Removed "${label}".`, [{ op: 'remove_component', componentId: target.id }]);
+      }
+      if (/full[ -]width|stretch/.test(lowerInstruction)) {
+        return edit(`Made "${label}" full width.`, [
+          { op: 'update_component', componentId: target.id, changes: { styles: { width: '100%' } } }
+        ]);
+      }
+      if (/\bcent(er|re)\b/.test(lowerInstruction)) {
+        return edit(`Centered "${label}".`, [
+          { op: 'update_component', componentId: target.id, changes: { styles: { textAlign: 'center', alignSelf: 'center' } } }
+        ]);
+      }
+    }
+
+    return edit(
+      "I couldn't work out a concrete change from that request. Try naming the element, e.g. \"make the sign in button full width\".",
+      []
+    );
+  }
+
+  /**
+   * Find the component whose text or type is mentioned in the instruction,
+   * preferring the longest (most specific) match
+   */
+  private static findMentionedComponent(components: WireframeComponent[], instruction: string): WireframeComponent | null {
+    let best: { component: WireframeComponent; score: number } | null = null;
+
+    const visit = (component: WireframeComponent) => {
+      const candidates = [component.content, component.placeholder, component.type.replace(/_/g, ' ')]
+        .filter((text): text is string => !!text)
+        .map(text => text.toLowerCase().trim());
+      candidates.forEach(text => {
+        if (text && instruction.includes(text) && (!best || text.length > best.score)) {
+          best = { component, score: text.length };
+        }
+      });
+      component.children.forEach(visit);
+    };
+    components.forEach(visit);
+
+    return best ? (best as { component: WireframeComponent }).component : null;
+  }
+}
@@ -0,0 +1,340 @@
+import { SpecializedAIService, FALLBACK_SOURCE } from './specialized-ai-services';
+import { WireframeEditor } from './wireframe-editor';
+import { WIREFRAME_FORMAT } from './structured-output';
+import { UsageMeter } from './ai-usage';
+import { PromptRegistry, RenderedPrompt } from './prompt-registry';
+import {
+  AIUsage,
+  AppArchitecture,
+  ComponentType,
+  DeviceType,
+  LayoutConfig,
+  Screen,
+  WireframeComponent,
+  WireframeProject,
+  WireframeScreen
+} from '@/types/app-architecture';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_SCREEN_TIMEOUT_MS = 90_000;
+
+// Each variation gets its own direction so alternatives don't come back alike
+const VARIATION_DIRECTIONS = [
+  'Keep the layout conventional and familiar for this kind of screen.',
+  'Make the primary action the focus, with a bold and spacious layout.',
+  'Favour information density, with a compact layout that shows more at once.',
+];
+export const MAX_VARIATIONS = VARIATION_DIRECTIONS.length;
+
+export interface WireframeGenerationOptions {
+  designHints?: string;
+  /** Only generate these architecture screens, e.g. to retry the ones that failed */
+  screenIds?: string[];
+  /** Called with each screen as soon as it finishes; `index` is its position in the architecture */
+  onScreen?: (screen: WireframeScreen, index: number) => void;
+}
+
+/**
+ * Turns architecture screens into wireframes, several model calls at a time.
+ * Each call has its own time limit; a screen that fails or times out gets a
+ * placeholder marked with `generationError` so it can be retried on its own.
+ */
+export class WireframeGenerator {
+  /**
+   * Generate every screen for each of `devices`. Variants of the same screen
+   * share its `sourceScreenId`; the first device is the project's default.
+   */
+  static async generateProject(
+    architecture: AppArchitecture,
+    devices: DeviceType[],
+    options: WireframeGenerationOptions = {}
+  ): Promise<{ wireframes: WireframeProject; usage?: AIUsage }> {
+    const { designHints, screenIds, onScreen } = options;
+    const targets = devices.flatMap(device =>
+      architecture.screens
+        .map((screen, index) => ({ screen, index, device }))
+        .filter(({ screen }) => !screenIds || screenIds.includes(screen.id))
+    );
+
+    // Results keep device then screen order whatever order they finish in
+    const results: WireframeScreen[] = new Array(targets.length);
+    await this.runConcurrently(targets, this.getConcurrency(), async ({ screen, index, device }, position) => {
+      const wireframeScreen = await this.generateScreen(architecture, screen, device, designHints);
+      results[position] = wireframeScreen;
+      onScreen?.(wireframeScreen, index);
+    });
+
+    // Each screen records its own source; the project records the first
+    // generated screen's prompt and model along with the total usage
+    const usage = UsageMeter.total(results.map(screen => screen.generatedBy));
+    const firstSource = results.find(screen => screen.generatedBy?.provider !== FALLBACK_SOURCE.provider)?.generatedBy || FALLBACK_SOURCE;
+
+    const wireframes: WireframeProject = {
+      id: `wireframe-${architecture.id}`,
+      name: `${architecture.name} Wireframes`,
+      description: `Wireframe designs for ${architecture.name}`,
+      sourceArchitecture: architecture,
+      screens: results,
+      metadata: {
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        version: '1.0.0',
+        device: devices[0],
+        devices,
+        viewport: this.getDeviceViewport(devices[0]),
+        designHints,
+        generatedBy: { ...firstSource, usage },
+      },
+    };
+
+    return { wireframes, usage };
+  }
+
+  /**
+   * Generate `count` alternatives for one screen at the same time, all with the
+   * screen's usual prompt context. A single one is a plain regeneration.
+   */
+  static async generateVariations(
+    architecture: AppArchitecture,
+    screen: Screen,
+    device: DeviceType,
+    count: number,
+    designHints?: string
+  ): Promise<WireframeScreen[]> {
+    if (count <= 1) {
+      return [await this.generateScreen(architecture, screen, device, designHints)];
+    }
+
+    const directions = VARIATION_DIRECTIONS.slice(0, count);
+    const variations: WireframeScreen[] = new Array(directions.length);
+    await this.runConcurrently(directions, this.getConcurrency(), async (direction, position) => {
+      const hints = designHints ? `${designHints}\n${direction}` : direction;
+      variations[position] = await this.generateScreen(architecture, screen, device, hints);
+    });
+    return variations;
+  }
+
+  /**
+   * Generate one screen, falling back to a placeholder when the model fails
+   * or takes longer than `WIREFRAME_SCREEN_TIMEOUT_MS`
+   */
+  static async generateScreen(
+    architecture: AppArchitecture,
+    screen: Screen,
+    device: DeviceType,
+    designHints?: string
+  ): Promise<WireframeScreen> {
+    const timeoutMs = this.getScreenTimeout();
+    const signal = AbortSignal.timeout(timeoutMs);
+
+    try {
+      const wireframePrompt = SpecializedAIService.usesCompactPrompts('wireframes')
+        ? await this.createCompactWireframePrompt(architecture, screen, device, designHints)
+        : await this.createWireframePrompt(architecture, screen, device, designHints);
+      const { data, provider, model, usage } = await SpecializedAIService.generateStructured<{ components: unknown[]; layout: LayoutConfig }>(
+        'wireframes',
+        wireframePrompt.text,
+        WIREFRAME_FORMAT,
+        { signal }
+      );
+
+      return {
+        id: this.getScreenId(screen.id, device),
+        name: screen.name,
+        type: screen.type,
+        device,
+        description: screen.description,
+        components: data.components.map(comp => WireframeEditor.normalizeComponent(comp)),
+        layout: data.layout,
+        sourceScreenId: screen.id,
+        generatedBy: { provider, model, prompt: wireframePrompt.ref, usage },
+      };
+    } catch (error) {
+      const message = signal.aborted
+        ? `Timed out after ${timeoutMs / 1000}s`
+        : error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to generate wireframe for screen ${screen.name}:`, message);
+      return {
+        ...this.createFallbackWireframe(screen, device),
+        generatedBy: SpecializedAIService.fallbackSource(error),
+        generationError: message
+      };
+    }
+  }
+
+  // A screen's variants for different devices live side by side in one project
+  static getScreenId(sourceScreenId: string, device: DeviceType): string {
+    return `${sourceScreenId}-${device}`;
+  }
+
+  private static getDeviceViewport(device: DeviceType) {
+    switch (device) {
+      case DeviceType.MOBILE:
+        return { width: 375, height: 667 };
+      case DeviceType.TABLET:
+        return { width: 768, height: 1024 };
+      case DeviceType.DESKTOP:
+        return { width: 1440, height: 900 };
+      default:
+        return { width: 375, height: 667 };
+    }
+  }
+
+  // Runs `worker` over `items` with at most `limit` calls in flight
+  private static async runConcurrently<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, position: number) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (next < items.length) {
+        const position = next++;
+        await worker(items[position], position);
+      }
+    });
+    await Promise.all(lanes);
+  }
+
+  // `WIREFRAME_CONCURRENCY` screens are generated at once; 1 restores one-at-a-time generation
+  private static getConcurrency(): number {
+    const value = parseInt(process.env.WIREFRAME_CONCURRENCY || '', 10);
+    return value > 0 ? value : DEFAULT_CONCURRENCY;
+  }
+
+  private static getScreenTimeout(): number {
+    const value = parseInt(process.env.WIREFRAME_SCREEN_TIMEOUT_MS || '', 10);
+    return value > 0 ? value : DEFAULT_SCREEN_TIMEOUT_MS;
+  }
+
+  private static createWireframePrompt(architecture: AppArchitecture, screen: Screen, device: DeviceType, designHints?: string): Promise<RenderedPrompt> {
+    const screenFocus = (...types: string[]) => types.includes(screen.type) ? 'CURRENT SCREEN' : 'Reference';
+
+    return PromptRegistry.render('wireframe', {
+      screenName: screen.name,
+      screenType: screen.type,
+      appName: architecture.name,
+      screenDescription: screen.description,
+      device,
+      deviceContext: this.getDeviceContext(device),
+      components: screen.components?.join(', ') || 'None specified',
+      designDirectionLine: designHints ? `DESIGN DIRECTION: ${designHints}` : '',
+      deviceOptimization: device === 'mobile' ? 'Thumb-friendly zones, safe areas' : device === 'tablet' ? 'Two-column layouts, landscape consideration' : 'Rich information density, mouse interactions',
+      deviceLabel: device.toUpperCase(),
+      devicePatterns: device === 'mobile' ? `
+- Thumb zone optimization (bottom 1/3 of screen)
+- Swipe gestures for navigation
+- Collapsible headers to save space
+- Bottom sheet modals for secondary actions
+- Tab bars for primary navigation (max 5 tabs)` : device === 'tablet' ? `
+- Two-column layouts when appropriate
+- Sidebar navigation for complex apps
+- Popover menus and modals
+- Split-view for master/detail screens
+- Landscape/portrait considerations` : `
+- Rich data tables and complex layouts
+- Hover states and mouse interactions
+- Keyboard shortcuts and accessibility
+- Multi-column information display
+- Breadcrumb navigation for deep hierarchies`,
+      listScreenFocus: screenFocus('list'),
+      formScreenFocus: screenFocus('form'),
+      detailScreenFocus: screenFocus('detail'),
+      homeScreenFocus: screenFocus('home', 'dashboard'),
+      maxWidth: this.getMaxWidth(device),
+    });
+  }
+
+  // Shorter prompt for small local models, without the UX law guidance
+  private static createCompactWireframePrompt(architecture: AppArchitecture, screen: Screen, device: DeviceType, designHints?: string): Promise<RenderedPrompt> {
+    return PromptRegistry.render('wireframe-compact', {
+      device,
+      screenName: screen.name,
+      screenType: screen.type,
+      appName: architecture.name,
+      screenDescription: screen.description,
+      components: screen.components?.join(', ') || 'the components this screen needs',
+      designDirectionLine: designHints ? `Design direction: ${designHints}\n` : '',
+      maxWidth: this.getMaxWidth(device),
+    });
+  }
+
+  private static getMaxWidth(device: DeviceType): string {
+    return device === 'mobile' ? '375px' : device === 'tablet' ? '768px' : '1200px';
+  }
+
+  private static getDeviceContext(device: DeviceType): string {
+    switch (device) {
+      case DeviceType.MOBILE:
+        return '(320-480px width, touch interface, portrait orientation)';
+      case DeviceType.TABLET:
+        return '(768-1024px width, touch interface, can rotate)';
+      case DeviceType.DESKTOP:
+        return '(1200px+ width, mouse/keyboard interface, landscape)';
+      default:
+        return '';
+    }
+  }
+
+  private static createFallbackWireframe(screen: Screen, device: DeviceType): WireframeScreen {
+    const basicComponents: WireframeComponent[] = [
+      {
+        id: 'header-1',
+        type: ComponentType.HEADER,
+        tag: 'header',
+        content: screen.name,
+        styles: {
+          padding: '16px',
+          backgroundColor: '#f8f9fa',
+          borderBottom: '1px solid #dee2e6',
+          fontWeight: 'bold',
+          fontSize: '18px',
+        },
+        children: [],
+      },
+      {
+        id: 'main-content-1',
+        type: ComponentType.CONTAINER,
+        tag: 'main',
+        styles: {
+          padding: '20px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '16px',
+          minHeight: '300px',
+        },
+        children: [
+          {
+            id: 'description-1',
+            type: ComponentType.PARAGRAPH,
+            tag: 'p',
+            content: screen.description || 'This screen is part of your app flow.',
+            styles: {
+              fontSize: '14px',
+              color: '#666',
+              lineHeight: '1.5',
+            },
+            children: [],
+          },
+        ],
+      },
+    ];
+
+    return {
+      id: this.getScreenId(screen.id, device),
+      name: screen.name,
+      type: screen.type,
+      device,
+      description: screen.description,
+      components: basicComponents,
+      layout: {
+        type: 'flex',
+        direction: 'column',
+        gap: '0px',
+        padding: '0px',
+      },
+      sourceScreenId: screen.id,
+      generatedBy: FALLBACK_SOURCE,
+    };
+  }
+}
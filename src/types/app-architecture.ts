@@ -5,6 +5,7 @@ export interface AppArchitecture {
   screens: Screen[];
   transitions: Transition[];
   apiEndpoints: ApiEndpoint[];
+  dataModel?: DataModel;
   metadata: AppMetadata;
 }
 
@@ -48,6 +49,47 @@ export interface AppMetadata {
   complexity: ComplexityLevel;
   estimatedScreens: number;
   estimatedApis: number;
+  generatedBy?: GenerationSource;
+  normalizationFallbacks?: NormalizationFallback[];
+}
+
+// A value in a generated architecture that normalization had to replace or drop
+export interface NormalizationFallback {
+  field: 'screen.type' | 'transition.trigger' | 'transition' | 'complexity';
+  value: string;
+  replacement: string;
+}
+
+// The AI provider and model that produced a result; 'fallback' marks built-in templates
+export interface GenerationSource {
+  provider: string;
+  model: string;
+  prompt?: PromptRef;
+  usage?: AIUsage;
+}
+
+// The registered prompt template, and its version, that a result came from
+export interface PromptRef {
+  id: string;
+  version: string;
+}
+
+// Tokens and estimated cost of one or more AI calls
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+export interface ProjectUsage extends AIUsage {
+  byModel: Record<string, AIUsage>; // Keyed by "provider:model"
+}
+
+// Generation stops once either limit is reached
+export interface ProjectBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
 }
 
 export enum ScreenType {
@@ -159,6 +201,56 @@ export interface ListItemConfig {
   actions: string[];
 }
 
+// Entities the app stores, inferred from screens and endpoint schemas or by the AI
+export interface DataModel {
+  entities: DataEntity[];
+  relations: DataRelation[];
+  generatedBy?: GenerationSource;
+}
+
+export interface DataEntity {
+  id: string;
+  name: string; // Singular PascalCase, e.g. "OrderItem"
+  description: string;
+  fields: DataField[];
+  sourceScreens: string[]; // Screen IDs whose forms and lists use this entity
+  position?: { x: number; y: number };
+}
+
+export interface DataField {
+  name: string; // camelCase
+  type: DataFieldType;
+  required: boolean;
+  primaryKey?: boolean;
+  unique?: boolean;
+}
+
+// `from` has one or many `to`; one-to-one and one-to-many keep the key on `to`
+export interface DataRelation {
+  id: string;
+  from: string; // Entity ID
+  to: string; // Entity ID
+  cardinality: RelationCardinality;
+  foreignKey?: string; // Field on `to` holding the `from` id; unset for many-to-many
+}
+
+export enum DataFieldType {
+  STRING = 'string',
+  TEXT = 'text',
+  INTEGER = 'integer',
+  DECIMAL = 'decimal',
+  BOOLEAN = 'boolean',
+  DATE = 'date',
+  DATETIME = 'datetime',
+  JSON = 'json'
+}
+
+export enum RelationCardinality {
+  ONE_TO_ONE = 'one_to_one',
+  ONE_TO_MANY = 'one_to_many',
+  MANY_TO_MANY = 'many_to_many'
+}
+
 // Flow diagram node types for React Flow
 export interface FlowNode {
   id: string;
@@ -183,6 +275,11 @@ export interface FlowEdge {
     trigger: TransitionTrigger;
     condition?: string;
   };
+  style?: {
+    stroke?: string;
+    strokeWidth?: number;
+    strokeDasharray?: string;
+  };
 }
 
 export interface AppFlow {
@@ -190,6 +287,95 @@ export interface AppFlow {
   edges: FlowEdge[];
 }
 
+// Automatic layered layout of a flow diagram
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface FlowLayoutOptions {
+  direction?: LayoutDirection;
+  origin?: { x: number; y: number };
+}
+
+// Structured edits produced from a natural-language change request
+export type ArchitecturePatchOperation =
+  | { op: 'add_screen'; screen: Screen }
+  | { op: 'remove_screen'; screenId: string }
+  | { op: 'update_screen'; screenId: string; changes: Partial<Omit<Screen, 'id'>> }
+  | { op: 'add_transition'; transition: Transition }
+  | { op: 'remove_transition'; transitionId: string }
+  | { op: 'update_transition'; transitionId: string; changes: Partial<Omit<Transition, 'id'>> }
+  | { op: 'add_api_endpoint'; endpoint: ApiEndpoint }
+  | { op: 'remove_api_endpoint'; endpointId: string }
+  | { op: 'update_api_endpoint'; endpointId: string; changes: Partial<Omit<ApiEndpoint, 'id'>> };
+
+export interface ArchitecturePatch {
+  summary: string;
+  operations: ArchitecturePatchOperation[];
+  generatedBy?: GenerationSource;
+}
+
+export interface ArchitecturePatchChange {
+  kind: 'add' | 'remove' | 'update';
+  target: 'screen' | 'transition' | 'api';
+  label: string;
+}
+
+// Problems reported by the architecture linter
+export type ArchitectureLintRule =
+  | 'unreachable-screen'
+  | 'dead-end-screen'
+  | 'dangling-transition'
+  | 'missing-connected-screen'
+  | 'auth-bypass'
+  | 'missing-auth-screen'
+  | 'duplicate-screen-name';
+
+export interface ArchitectureQuickFix {
+  label: string;
+  patch: ArchitecturePatch;
+}
+
+export interface ArchitectureLintIssue {
+  id: string;
+  rule: ArchitectureLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+  screenId?: string;
+  transitionId?: string;
+  endpointId?: string;
+  fix?: ArchitectureQuickFix;
+}
+
+// Problems found while importing an architecture JSON file
+export interface ArchitectureImportIssue {
+  path: string; // e.g. "screens[2].name"
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ArchitectureImportResult {
+  architecture: AppArchitecture | null; // null when any issue is an error
+  issues: ArchitectureImportIssue[];
+}
+
+export interface OpenApiImportResult {
+  apiEndpoints: ApiEndpoint[]; // Empty when any issue is an error
+  issues: ArchitectureImportIssue[];
+}
+
+// Server-sent events emitted while an architecture is streamed from the model
+export type ArchitectureStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'screen'; index: number; screen: Screen }
+  | { type: 'transition'; index: number; transition: Transition }
+  | { type: 'normalized'; architecture: AppArchitecture }
+  | { type: 'error'; message: string };
+
+// Server-sent events emitted as wireframe screens finish, in completion order
+export type WireframeStreamEvent =
+  | { type: 'screen'; index: number; screen: WireframeScreen }
+  | { type: 'done'; wireframes: WireframeProject; usage?: AIUsage }
+  | { type: 'error'; message: string };
+
 // Enhanced UX-focused interfaces
 
 export interface UserJourneyContext {
@@ -287,6 +473,8 @@ export interface WireframeScreen {
   layout: LayoutConfig;
   position?: { x: number; y: number };
   sourceScreenId?: string; // Link back to flow diagram screen
+  generatedBy?: GenerationSource;
+  generationError?: string; // Set when the model call failed or timed out and the screen is a placeholder
 }
 
 export interface WireframeComponent {
@@ -301,6 +489,24 @@ export interface WireframeComponent {
   interactions?: ComponentInteraction[];
 }
 
+// Targeted AI edits to a wireframe screen's component tree
+export type WireframeComponentChanges = Partial<Pick<WireframeComponent, 'type' | 'tag' | 'content' | 'placeholder' | 'props'>> & {
+  styles?: ComponentStyles; // Merged into existing styles; empty values remove a property
+};
+
+export type WireframeEditOperation =
+  | { op: 'update_component'; componentId: string; changes: WireframeComponentChanges }
+  | { op: 'add_component'; parentId: string | null; index: number; component: WireframeComponent }
+  | { op: 'remove_component'; componentId: string }
+  | { op: 'move_component'; componentId: string; parentId: string | null; index: number };
+
+export interface WireframeEdit {
+  screenId: string;
+  summary: string;
+  operations: WireframeEditOperation[];
+  generatedBy?: GenerationSource;
+}
+
 export interface ComponentStyles {
   display?: string;
   flexDirection?: string;
@@ -348,9 +554,12 @@ export interface WireframeMetadata {
   createdAt: string;
   updatedAt: string;
   version: string;
-  device: DeviceType;
+  device: DeviceType; // Default device; the one the project was first generated for
+  devices?: DeviceType[]; // Every device the project has screens for
   viewport: ViewportSize;
   designSystem?: DesignSystemHint;
+  designHints?: string; // Kept so failed screens can be retried with the same direction
+  generatedBy?: GenerationSource;
 }
 
 export enum ComponentType {
@@ -439,3 +648,72 @@ export interface WireframeFlowNode extends FlowNode {
     [key: string]: any;
   };
 }
+
+// Studio chat and project persistence types
+export type PatchStatus = 'pending' | 'accepted' | 'rejected' | 'stale';
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant' | 'thinking';
+  content: string;
+  timestamp: Date;
+  isThinking?: boolean;
+  thinkingSteps?: Array<{
+    id: string;
+    title: string;
+    description?: string;
+    status: 'pending' | 'in_progress' | 'completed' | 'error';
+  }>;
+  currentThought?: string;
+  patch?: ArchitecturePatch;
+  patchChanges?: ArchitecturePatchChange[];
+  patchStatus?: PatchStatus;
+  usage?: AIUsage; // What the AI calls behind this reply used
+}
+
+export interface QuestionData {
+  id: string;
+  category: string;
+  question: string;
+  options: string[];
+  why: string;
+  required: boolean;
+}
+
+export interface ProjectContext {
+  initialPrompt: string;
+  questions?: QuestionData[];
+  answers?: Record<string, string>;
+  isQuestioningComplete?: boolean;
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  architecture: AppArchitecture | null;
+  flow: AppFlow | null;
+  wireframes: WireframeProject | null;
+  chatMessages: ChatMessage[];
+  wireframeMessages: ChatMessage[];
+  context: ProjectContext;
+  usage?: ProjectUsage;
+  budget?: ProjectBudget;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  screenCount: number;
+  hasWireframes: boolean;
+}
+
+// A source file produced by one of the code generators
+export interface GeneratedCodeFile {
+  path: string;
+  content: string;
+  screenId?: string; // The wireframe screen the file was generated from
+  endpointIds?: string[]; // The API endpoints the file implements
+}